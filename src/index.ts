@@ -16,7 +16,14 @@ import { Server } from './web/server.js';
 const app = new Hono();
 
 // Generic middlewares
-app.use(cors());
+const frontendOrigin = new URL(env.FRONTEND_URL).origin;
+app.use(
+  cors({
+    // The frontend sends the HttpOnly cookies that bind sign in flows to its browser
+    origin: (origin) => (origin === frontendOrigin ? origin : '*'),
+    credentials: true,
+  }),
+);
 app.use(tracing);
 app.use(compress());
 app.use(httpLogger());
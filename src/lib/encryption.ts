@@ -44,4 +44,4 @@ const verify = (text: string, encryptedText: string): boolean => {
   return text === decrypt(encryptedText);
 };
 
-export { encrypt, verify };
+export { decrypt, encrypt, verify };
@@ -11,14 +11,71 @@ const envSchema = z.object({
   DB_USER: z.string(),
   DB_PASSWORD: z.string(),
   DB_NAME: z.string(),
+  // Comma separated addresses or CIDR ranges of the proxies in front of the API. Forwarded
+  // client addresses are only believed when the request comes through one of them
+  TRUSTED_PROXIES: z.string().default(''),
   REDIS_HOST: z.string().default('localhost'),
   REDIS_PORT: z.string().default('6379'),
-  BREVO_API_KEY: z.string(),
+  // How email is sent, see lib/mail.ts. `dev` keeps messages in an outbox instead
+  MAIL_DRIVER: z.enum(['brevo', 'smtp', 'dev']).default('brevo'),
+  BREVO_API_KEY: z.string().optional(),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().default(587),
+  // True for implicit TLS, usually port 465. STARTTLS is used otherwise when offered
+  SMTP_SECURE: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  MAIL_FROM_ADDRESS: z.string().default('no-reply@localhost'),
+  MAIL_FROM_NAME: z.string().optional(),
+  MAIL_OUTBOX_DIR: z.string().default('storage/mail'),
+  // Shared with the provider to authenticate /v1/webhooks/mail/:provider, see lib/mail-webhooks.ts
+  MAIL_WEBHOOK_SECRET: z.string().optional(),
+  // Emails of a campaign queued per batch, and the wait between batches, to stay within the
+  // provider's sending limits
+  CAMPAIGN_BATCH_SIZE: z.coerce.number().int().positive().default(100),
+  CAMPAIGN_BATCH_INTERVAL_MS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(60 * 1000),
   GOOGLE_CLIENT_ID: z.string(),
   GOOGLE_CLIENT_SECRET: z.string(),
   GOOGLE_CALLBACK_URL: z.string(),
   GOOGLE_REDIRECT_URL: z.string(),
+  GITHUB_CLIENT_ID: z.string().optional(),
+  GITHUB_CLIENT_SECRET: z.string().optional(),
+  GITHUB_REDIRECT_URL: z.string().optional(),
+  MICROSOFT_CLIENT_ID: z.string().optional(),
+  MICROSOFT_CLIENT_SECRET: z.string().optional(),
+  MICROSOFT_REDIRECT_URL: z.string().optional(),
+  MICROSOFT_TENANT: z.string().default('common'),
+  // JSON array of extra OpenID Connect issuers, see lib/oauth-providers.ts
+  OIDC_PROVIDERS: z.string().default('[]'),
   FRONTEND_URL: z.string(),
+  // Public URL of this API, for links that download files from it
+  API_URL: z.string().default('http://localhost:3500'),
+  EXPORT_DIR: z.string().default('storage/exports'),
+  // Where uploads such as profile pictures go, see lib/storage.ts
+  STORAGE_DRIVER: z.enum(['local', 's3']).default('local'),
+  // Kept out of static/, files are only served through /v1/storage/local
+  STORAGE_LOCAL_DIR: z.string().default('storage/uploads'),
+  // Bytes each user can keep in their asset library, 5 GiB by default
+  ASSET_QUOTA_BYTES: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(5 * 1024 ** 3),
+  S3_BUCKET_NAME: z.string().optional(),
+  AWS_REGION: z.string().default('us-east-1'),
+  AWS_ACCESS_KEY: z.string().optional(),
+  AWS_SECRET_KEY: z.string().optional(),
+  // For S3-compatible services such as MinIO or Cloudflare R2
+  S3_ENDPOINT: z.string().optional(),
+  // Base URL files are served from, e.g. a CDN in front of the bucket
+  S3_PUBLIC_URL: z.string().optional(),
   BRAND_NAME: z.string().default('Elevnt.io'),
   WEBSOCKET_PORT: z.string().default('8081'),
   BITGO_ACCESS_TOKEN: z.string(),
@@ -0,0 +1,57 @@
+import sharp from 'sharp';
+
+type ImageType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+// Square avatar sizes in pixels, the key is what clients ask for
+const AVATAR_SIZES = { small: 64, medium: 256, large: 512 } as const;
+
+type AvatarSize = keyof typeof AVATAR_SIZES;
+
+const MAX_INPUT_PIXELS = 40_000_000; // refuse decompression bombs before decoding them
+
+/**
+ * Detects the type of an image from its leading bytes, ignoring whatever the client
+ * claimed. SVG and other formats that can carry scripts are never recognised.
+ *
+ * @param {Buffer} buffer - The uploaded file.
+ * @return {ImageType|null} The image type, or null when it is not a supported image.
+ */
+const sniffImageType = (buffer: Buffer): ImageType | null => {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  const header = buffer.subarray(0, 12).toString('latin1');
+  if (header.startsWith('GIF87a') || header.startsWith('GIF89a')) {
+    return 'image/gif';
+  }
+  if (header.startsWith('RIFF') && header.slice(8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+};
+
+/**
+ * Renders an image as a square WebP avatar in every standard size. The image is turned
+ * upright from its EXIF orientation and its metadata, such as GPS location, is dropped.
+ *
+ * @param {Buffer} buffer - The uploaded image.
+ * @return {Promise<Record<AvatarSize, Buffer>>} The encoded avatar for each size.
+ */
+const renderAvatars = async (buffer: Buffer): Promise<Record<AvatarSize, Buffer>> => {
+  const entries = await Promise.all(
+    Object.entries(AVATAR_SIZES).map(async ([name, size]) => {
+      const avatar = await sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS })
+        .rotate()
+        .resize(size, size, { fit: 'cover', position: 'attention' })
+        .webp({ quality: 85 })
+        .toBuffer();
+      return [name, avatar] as const;
+    }),
+  );
+  return Object.fromEntries(entries) as Record<AvatarSize, Buffer>;
+};
+
+export { AVATAR_SIZES, type AvatarSize, type ImageType, renderAvatars, sniffImageType };
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import { sign, verify } from 'hono/jwt';
 
 import env from './env.js';
@@ -7,25 +8,118 @@ type JWTPayload = {
   exp?: number;
 };
 
+const ACCESS_TOKEN_TTL = 60 * 15; // 15 minutes
+const REFRESH_TOKEN_TTL = 60 * 60 * 24 * 30; // 30 days
+const MFA_TOKEN_TTL = 60 * 5; // 5 minutes
+const IMPERSONATION_TOKEN_TTL = 60 * 30; // 30 minutes
+
+const TOKEN_PURPOSE = {
+  mfa: 'mfa',
+};
+
+type MfaTokenPayload = {
+  userId: number;
+  // Unique per token, so a completed login can be remembered and the token not used again
+  tokenId: string;
+  expiresAt: number;
+};
+
 /**
- * Encodes the given id and email into a JWT token with an expiration time of 30 days.
+ * Encodes the given id, email and session id into a short-lived JWT access token.
  *
  * @param {number} id - The id to be included in the token payload.
  * @param {string} email - The email to be included in the token payload.
+ * @param {number} sessionId - The session the token belongs to, checked on every request.
+ * @return {Promise<string>} A promise that resolves to the encoded JWT token.
+ */
+const encode = async (id: number, email: string, sessionId: number): Promise<string> => {
+  const payload: JWTPayload = {
+    sub: id,
+    email: email,
+    sid: sessionId,
+    exp: Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL,
+  };
+  return await sign(payload, env.SECRET_KEY);
+};
+
+/**
+ * Encodes an access token that lets an admin act as another user. The `impersonator` claim
+ * lets the frontend show a banner and the API refuse sensitive actions. It is not refreshable.
+ *
+ * @param {number} id - The id of the impersonated user.
+ * @param {string} email - The email of the impersonated user.
+ * @param {number} sessionId - The impersonation session, checked on every request.
+ * @param {number} impersonatorId - The id of the admin doing the impersonation.
  * @return {Promise<string>} A promise that resolves to the encoded JWT token.
  */
-const encode = async (id: number, email: string): Promise<string> => {
+const encodeImpersonation = async (
+  id: number,
+  email: string,
+  sessionId: number,
+  impersonatorId: number,
+): Promise<string> => {
   const payload: JWTPayload = {
     sub: id,
     email: email,
-    exp: Math.floor(Date.now() / 1000) + 60 * 60 * 24 * 30, // Token expires in 30 days
+    sid: sessionId,
+    impersonator: impersonatorId,
+    exp: Math.floor(Date.now() / 1000) + IMPERSONATION_TOKEN_TTL,
   };
   return await sign(payload, env.SECRET_KEY);
 };
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
 const check = async (token: string): Promise<JWTPayload> => {
   return await verify(token, env.SECRET_KEY);
 };
 
-export { encode, type JWTPayload };
+/**
+ * Encodes a short-lived token proving the password step of a two-factor login was completed.
+ * It carries no session id, so the auth middleware never accepts it as an access token.
+ *
+ * @param {number} id - The id of the user who passed the password check.
+ * @return {Promise<string>} A promise that resolves to the encoded JWT token.
+ */
+const encodeMfaToken = async (id: number): Promise<string> => {
+  const payload: JWTPayload = {
+    sub: id,
+    jti: crypto.randomUUID(),
+    purpose: TOKEN_PURPOSE.mfa,
+    exp: Math.floor(Date.now() / 1000) + MFA_TOKEN_TTL,
+  };
+  return await sign(payload, env.SECRET_KEY);
+};
+
+/**
+ * Decodes a token issued by encodeMfaToken.
+ *
+ * @param {string} token - The token returned by the password step.
+ * @return {Promise<MfaTokenPayload|null>} The user id, token id and expiry in seconds, or null when the token is invalid or expired.
+ */
+const decodeMfaToken = async (token: string): Promise<MfaTokenPayload | null> => {
+  try {
+    const payload = await check(token);
+    if (
+      payload.purpose !== TOKEN_PURPOSE.mfa ||
+      typeof payload.sub !== 'number' ||
+      typeof payload.jti !== 'string' ||
+      typeof payload.exp !== 'number'
+    ) {
+      return null;
+    }
+    return { userId: payload.sub, tokenId: payload.jti, expiresAt: payload.exp };
+  } catch {
+    return null;
+  }
+};
+
+export {
+  ACCESS_TOKEN_TTL,
+  decodeMfaToken,
+  encode,
+  encodeImpersonation,
+  encodeMfaToken,
+  IMPERSONATION_TOKEN_TTL,
+  type JWTPayload,
+  type MfaTokenPayload,
+  REFRESH_TOKEN_TTL,
+};
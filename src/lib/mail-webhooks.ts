@@ -0,0 +1,198 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+
+import env from './env.js';
+
+const EVENT_TYPES = [
+  'delivered',
+  'soft_bounce',
+  'hard_bounce',
+  'complaint',
+  'opened',
+  'clicked',
+  'unsubscribed',
+] as const;
+
+const SIGNATURE_TOLERANCE = 5 * 60; // seconds
+
+type MailEventType = (typeof EVENT_TYPES)[number];
+
+type MailEvent = {
+  type: MailEventType;
+  messageId: string;
+  recipient: string;
+  occurredAt: Date;
+  reason?: string;
+  url?: string;
+};
+
+type WebhookRequest = {
+  headers: Record<string, string>;
+  rawBody: string;
+};
+
+interface MailWebhookProvider {
+  /** Checks the request really comes from the provider */
+  verify(request: WebhookRequest): boolean;
+  /** Turns the provider's payload into events, dropping those we do not track */
+  parse(payload: unknown): MailEvent[];
+}
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+// https://developers.brevo.com/docs/transactional-webhooks
+const BREVO_EVENTS: Record<string, MailEventType> = {
+  delivered: 'delivered',
+  soft_bounce: 'soft_bounce',
+  hard_bounce: 'hard_bounce',
+  invalid_email: 'hard_bounce',
+  blocked: 'hard_bounce',
+  spam: 'complaint',
+  opened: 'opened',
+  unique_opened: 'opened',
+  proxy_open: 'opened',
+  click: 'clicked',
+  unsubscribed: 'unsubscribed',
+};
+
+const brevoEventSchema = z.object({
+  event: z.string(),
+  email: z.string(),
+  'message-id': z.string(),
+  ts_epoch: z.number().optional(), // milliseconds
+  ts_event: z.number().optional(), // seconds
+  reason: z.string().optional(),
+  link: z.string().optional(),
+});
+
+/**
+ * Brevo's transactional webhooks, configured with token authentication so each request
+ * carries the secret as a bearer token
+ */
+class BrevoWebhookProvider implements MailWebhookProvider {
+  private secret: string | undefined;
+
+  constructor(secret: string | undefined) {
+    this.secret = secret;
+  }
+
+  public verify(request: WebhookRequest) {
+    const token = request.headers['authorization']?.replace(/^Bearer /i, '');
+    return !!this.secret && !!token && safeEqual(token, this.secret);
+  }
+
+  public parse(payload: unknown) {
+    // Brevo sends one event per request, or a list when batching is turned on
+    const items = Array.isArray(payload) ? payload : [payload];
+    return items.flatMap((item): MailEvent[] => {
+      const result = brevoEventSchema.safeParse(item);
+      const type = result.success ? BREVO_EVENTS[result.data.event] : undefined;
+      if (!result.success || !type) {
+        return [];
+      }
+
+      const { data } = result;
+      const occurredAt = data.ts_epoch ?? (data.ts_event ? data.ts_event * 1000 : Date.now());
+      return [
+        {
+          type,
+          messageId: data['message-id'],
+          recipient: data.email,
+          occurredAt: new Date(occurredAt),
+          reason: data.reason || (data.event === 'blocked' ? 'blocked' : undefined),
+          url: data.link,
+        },
+      ];
+    });
+  }
+}
+
+const genericEventSchema = z.object({
+  type: z.enum(EVENT_TYPES),
+  message_id: z.string().min(1),
+  recipient: z.string().min(1),
+  occurred_at: z.coerce.date(),
+  reason: z.string().optional(),
+  url: z.string().optional(),
+});
+
+/**
+ * Events already in our format, for relays and services without a provider of their own.
+ * Requests are signed with `X-Webhook-Signature: sha256=<hex HMAC of "timestamp.body">`
+ * and `X-Webhook-Timestamp: <unix seconds>`.
+ */
+class GenericWebhookProvider implements MailWebhookProvider {
+  private secret: string | undefined;
+
+  constructor(secret: string | undefined) {
+    this.secret = secret;
+  }
+
+  public verify(request: WebhookRequest) {
+    const signature = request.headers['x-webhook-signature']?.replace(/^sha256=/, '');
+    const timestamp = request.headers['x-webhook-timestamp'];
+    if (!this.secret || !signature || !timestamp || !/^\d+$/.test(timestamp)) {
+      return false;
+    }
+    // An old request replayed with its signature is refused
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE) {
+      return false;
+    }
+
+    const expected = crypto
+      .createHmac('sha256', this.secret)
+      .update(`${timestamp}.${request.rawBody}`)
+      .digest('hex');
+    return safeEqual(signature, expected);
+  }
+
+  public parse(payload: unknown) {
+    const items = Array.isArray(payload) ? payload : [payload];
+    return items.flatMap((item): MailEvent[] => {
+      const result = genericEventSchema.safeParse(item);
+      if (!result.success) {
+        return [];
+      }
+
+      const { data } = result;
+      return [
+        {
+          type: data.type,
+          messageId: data.message_id,
+          recipient: data.recipient,
+          occurredAt: data.occurred_at,
+          reason: data.reason,
+          url: data.url,
+        },
+      ];
+    });
+  }
+}
+
+const MAIL_WEBHOOK_PROVIDERS: Record<string, MailWebhookProvider> = {
+  brevo: new BrevoWebhookProvider(env.MAIL_WEBHOOK_SECRET),
+  generic: new GenericWebhookProvider(env.MAIL_WEBHOOK_SECRET),
+};
+
+/**
+ * Finds the webhook provider for a name in the URL
+ * @param {string} name - Name of the provider, e.g. brevo
+ * @returns {MailWebhookProvider|undefined} The provider, or undefined when there is none by that name
+ */
+const getMailWebhookProvider = (name: string) => {
+  return Object.hasOwn(MAIL_WEBHOOK_PROVIDERS, name) ? MAIL_WEBHOOK_PROVIDERS[name] : undefined;
+};
+
+export {
+  BrevoWebhookProvider,
+  GenericWebhookProvider,
+  getMailWebhookProvider,
+  type MailEvent,
+  type MailEventType,
+  type MailWebhookProvider,
+  type WebhookRequest,
+};
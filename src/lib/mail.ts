@@ -0,0 +1,241 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { createTransport, type Transporter } from 'nodemailer';
+import path from 'path';
+
+import env from './env.js';
+import { logger } from './logger.js';
+
+const BREVO_API_URL = 'https://api.brevo.com/v3/smtp/email';
+const OUTBOX_LIMIT = 100;
+
+type MailAttachment = {
+  name: string;
+  content: string; // base64
+};
+
+type MailMessage = {
+  to: { email: string; name: string };
+  // Name of the template it was rendered from, see mail/templates.tsx
+  template: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: MailAttachment[];
+  // Extra headers, e.g. List-Unsubscribe on marketing mail
+  headers?: Record<string, string>;
+};
+
+type SentMail = { messageId: string };
+
+type OutboxEntry = {
+  id: string;
+  to: MailMessage['to'];
+  template: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments: string[];
+  headers: Record<string, string>;
+  sentAt: Date;
+};
+
+interface MailTransport {
+  /** Delivers a message, throwing when the provider refuses it */
+  send(message: MailMessage): Promise<SentMail>;
+}
+
+type Sender = { name: string; address: string };
+
+/**
+ * Sends through Brevo's transactional email API
+ */
+class BrevoMailTransport implements MailTransport {
+  private apiKey: string;
+  private from: Sender;
+
+  constructor(apiKey: string, from: Sender) {
+    this.apiKey = apiKey;
+    this.from = from;
+  }
+
+  public async send(message: MailMessage) {
+    const response = await fetch(BREVO_API_URL, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        'api-key': this.apiKey,
+      },
+      body: JSON.stringify({
+        sender: { name: this.from.name, email: this.from.address },
+        to: [message.to],
+        subject: message.subject,
+        htmlContent: message.html,
+        textContent: message.text,
+        attachment: message.attachments,
+        headers: message.headers,
+        tags: [message.template],
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: response.statusText }));
+      logger.info(`Mailer error to ${message.to.email} using template ${message.template}:`, error);
+      throw new Error(`Email API error: ${error.message}`);
+    }
+
+    const result = await response.json();
+    return { messageId: result.messageId };
+  }
+}
+
+/**
+ * Sends through any SMTP server
+ */
+class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+  private from: Sender;
+
+  constructor(options: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+    from: Sender;
+  }) {
+    const { host, port, secure, user, password, from } = options;
+    this.transporter = createTransport({
+      host,
+      port,
+      secure,
+      auth: user ? { user, pass: password } : undefined,
+    });
+    this.from = from;
+  }
+
+  public async send(message: MailMessage) {
+    const { subject, html, text } = message;
+    const info = await this.transporter.sendMail({
+      from: this.from,
+      to: { address: message.to.email, name: message.to.name },
+      subject,
+      html,
+      text,
+      attachments: message.attachments?.map((attachment) => ({
+        filename: attachment.name,
+        content: attachment.content,
+        encoding: 'base64',
+      })),
+      headers: message.headers,
+    });
+    return { messageId: info.messageId };
+  }
+}
+
+/**
+ * Keeps messages instead of sending them, for development and tests. The latest are held in
+ * memory for the outbox viewer, and each is also written to disk as HTML.
+ */
+class DevMailTransport implements MailTransport {
+  private dir: string | null;
+  private outbox: OutboxEntry[] = [];
+
+  /**
+   * Creates an instance of DevMailTransport
+   * @param {string|null} dir - Where to write the messages, or null to keep them in memory only
+   */
+  constructor(dir: string | null) {
+    this.dir = dir;
+  }
+
+  public async send(message: MailMessage) {
+    const { subject, html, text } = message;
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      to: message.to,
+      template: message.template,
+      subject,
+      html,
+      text,
+      attachments: message.attachments?.map((attachment) => attachment.name) ?? [],
+      headers: message.headers ?? {},
+      sentAt: new Date(),
+    };
+
+    this.outbox.unshift(entry);
+    this.outbox.length = Math.min(this.outbox.length, OUTBOX_LIMIT);
+    if (this.dir) {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.writeFile(path.join(this.dir, `${entry.id}.html`), html);
+    }
+
+    logger.info(`Email to ${message.to.email} kept in the dev outbox: ${subject}`);
+    return { messageId: entry.id };
+  }
+
+  /**
+   * Lists the messages kept in memory
+   * @returns {OutboxEntry[]} The latest messages, newest first
+   */
+  public list() {
+    return this.outbox;
+  }
+
+  /**
+   * Finds a message kept in memory
+   * @param {string} id - ID of the message
+   * @returns {OutboxEntry|undefined} The message, or undefined when it is not in the outbox
+   */
+  public find(id: string) {
+    return this.outbox.find((entry) => entry.id === id);
+  }
+
+  /**
+   * Empties the in-memory outbox
+   * @returns {void}
+   */
+  public clear() {
+    this.outbox = [];
+  }
+}
+
+const createMailTransport = (): MailTransport => {
+  const from = { name: env.MAIL_FROM_NAME ?? env.BRAND_NAME, address: env.MAIL_FROM_ADDRESS };
+  if (env.MAIL_DRIVER === 'smtp') {
+    if (!env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is required when MAIL_DRIVER is smtp');
+    }
+    return new SmtpMailTransport({
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT,
+      secure: env.SMTP_SECURE,
+      user: env.SMTP_USER,
+      password: env.SMTP_PASSWORD,
+      from,
+    });
+  }
+  if (env.MAIL_DRIVER === 'dev') {
+    return new DevMailTransport(env.MAIL_OUTBOX_DIR);
+  }
+
+  if (!env.BREVO_API_KEY) {
+    throw new Error('BREVO_API_KEY is required when MAIL_DRIVER is brevo');
+  }
+  return new BrevoMailTransport(env.BREVO_API_KEY, from);
+};
+
+const mailer = createMailTransport();
+
+export {
+  BrevoMailTransport,
+  DevMailTransport,
+  type MailAttachment,
+  mailer,
+  type MailMessage,
+  type MailTransport,
+  type OutboxEntry,
+  type SentMail,
+  SmtpMailTransport,
+};
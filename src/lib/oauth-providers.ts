@@ -0,0 +1,125 @@
+import { z } from 'zod';
+
+import env from './env.js';
+import { fetchWithToken, type IdTokenClaims } from './oidc.ts';
+
+type OAuthProfile = {
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+  picture?: string;
+};
+
+type OAuthProvider = {
+  name: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes: string[];
+  // OpenID Connect providers are set up from the issuer's discovery document
+  issuer?: string;
+  // Plain OAuth2 providers list their endpoints and read the profile from their own API
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  fetchProfile?: (accessToken: string) => Promise<OAuthProfile>;
+  // Overrides how ID token claims become a profile, for issuers with non-standard claims
+  mapClaims?: (claims: IdTokenClaims) => OAuthProfile;
+  authParams?: Record<string, string>;
+};
+
+// Entries of OIDC_PROVIDERS, e.g. [{"name":"okta","issuer":"https://example.okta.com","client_id":"...","client_secret":"...","redirect_uri":"..."}]
+const oidcProviderSchema = z.object({
+  name: z.string().regex(/^[a-z0-9-]+$/),
+  issuer: z.string().url(),
+  client_id: z.string().min(1),
+  client_secret: z.string().min(1),
+  redirect_uri: z.string().url(),
+  scopes: z.array(z.string()).default(['openid', 'email', 'profile']),
+});
+
+type GitHubUser = { id: number; login: string; name: string | null; avatar_url: string };
+type GitHubEmail = { email: string; primary: boolean; verified: boolean };
+
+const fetchGitHubProfile = async (accessToken: string): Promise<OAuthProfile> => {
+  const [user, emails] = await Promise.all([
+    fetchWithToken<GitHubUser>('https://api.github.com/user', accessToken),
+    fetchWithToken<GitHubEmail[]>('https://api.github.com/user/emails', accessToken),
+  ]);
+  const primary = emails.find((email) => email.primary) ?? emails.find((email) => email.verified);
+
+  return {
+    subject: String(user.id),
+    email: primary?.email,
+    emailVerified: !!primary?.verified,
+    name: user.name ?? user.login,
+    picture: user.avatar_url,
+  };
+};
+
+// Microsoft lets tenants put any address in `email`, only `xms_edov` says the domain was verified
+const mapMicrosoftClaims = (claims: IdTokenClaims): OAuthProfile => {
+  return {
+    subject: claims.sub,
+    email: claims.email,
+    emailVerified: claims.xms_edov === true,
+    name: claims.name,
+  };
+};
+
+const buildProviders = (): Record<string, OAuthProvider> => {
+  const providers: OAuthProvider[] = [
+    {
+      name: 'google',
+      clientId: env.GOOGLE_CLIENT_ID,
+      clientSecret: env.GOOGLE_CLIENT_SECRET,
+      redirectUri: env.GOOGLE_REDIRECT_URL,
+      scopes: ['openid', 'email', 'profile'],
+      issuer: 'https://accounts.google.com',
+      authParams: { access_type: 'offline', prompt: 'consent' },
+    },
+  ];
+
+  if (env.GITHUB_CLIENT_ID && env.GITHUB_CLIENT_SECRET && env.GITHUB_REDIRECT_URL) {
+    providers.push({
+      name: 'github',
+      clientId: env.GITHUB_CLIENT_ID,
+      clientSecret: env.GITHUB_CLIENT_SECRET,
+      redirectUri: env.GITHUB_REDIRECT_URL,
+      scopes: ['read:user', 'user:email'],
+      authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+      tokenEndpoint: 'https://github.com/login/oauth/access_token',
+      fetchProfile: fetchGitHubProfile,
+    });
+  }
+
+  if (env.MICROSOFT_CLIENT_ID && env.MICROSOFT_CLIENT_SECRET && env.MICROSOFT_REDIRECT_URL) {
+    providers.push({
+      name: 'microsoft',
+      clientId: env.MICROSOFT_CLIENT_ID,
+      clientSecret: env.MICROSOFT_CLIENT_SECRET,
+      redirectUri: env.MICROSOFT_REDIRECT_URL,
+      scopes: ['openid', 'email', 'profile'],
+      issuer: `https://login.microsoftonline.com/${env.MICROSOFT_TENANT}/v2.0`,
+      mapClaims: mapMicrosoftClaims,
+    });
+  }
+
+  const configured = z.array(oidcProviderSchema).parse(JSON.parse(env.OIDC_PROVIDERS));
+  for (const provider of configured) {
+    providers.push({
+      name: provider.name,
+      clientId: provider.client_id,
+      clientSecret: provider.client_secret,
+      redirectUri: provider.redirect_uri,
+      scopes: provider.scopes,
+      issuer: provider.issuer,
+    });
+  }
+
+  return Object.fromEntries(providers.map((provider) => [provider.name, provider]));
+};
+
+const OAUTH_PROVIDERS = buildProviders();
+
+export { OAUTH_PROVIDERS, type OAuthProfile, type OAuthProvider };
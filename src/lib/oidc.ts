@@ -0,0 +1,260 @@
+import crypto from 'crypto';
+
+type DiscoveryDocument = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+};
+
+type TokenResponse = {
+  access_token: string;
+  token_type?: string;
+  id_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+};
+
+type IdTokenClaims = {
+  [key: string]: unknown;
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat?: number;
+  nbf?: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  picture?: string;
+};
+
+type JsonWebKeyWithId = crypto.JsonWebKey & { kid?: string; use?: string };
+
+type IdTokenExpectations = {
+  issuer: string;
+  audience: string;
+  jwksUri: string;
+  nonce: string;
+};
+
+const DISCOVERY_TTL = 60 * 60 * 1000; // 1 hour
+const JWKS_TTL = 60 * 60 * 1000; // 1 hour
+const JWKS_MIN_REFRESH = 60 * 1000; // unknown key ids refetch at most once a minute
+const CLOCK_SKEW = 60; // seconds
+
+// Asymmetric algorithms only, `none` and shared-secret HMAC are never accepted
+const SIGNATURE_ALGORITHMS: Record<
+  string,
+  { hash: string | null; options?: crypto.SigningOptions }
+> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: {
+    hash: 'sha256',
+    options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 },
+  },
+  ES256: { hash: 'sha256', options: { dsaEncoding: 'ieee-p1363' } },
+  ES384: { hash: 'sha384', options: { dsaEncoding: 'ieee-p1363' } },
+  EdDSA: { hash: null },
+};
+
+const discoveryCache = new Map<string, { document: DiscoveryDocument; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: JsonWebKeyWithId[]; fetchedAt: number }>();
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { Accept: 'application/json', ...init?.headers },
+  });
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed with status ${response.status}`);
+  }
+  return (await response.json()) as T;
+};
+
+const decodeSegment = <T>(segment: string): T => {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+};
+
+/**
+ * Fetches the discovery document of an OpenID Connect issuer, cached for an hour
+ *
+ * @param {string} issuer - The issuer URL, as configured for the provider.
+ * @return {Promise<DiscoveryDocument>} The endpoints advertised by the issuer.
+ */
+const discover = async (issuer: string): Promise<DiscoveryDocument> => {
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL) {
+    return cached.document;
+  }
+
+  const document = await fetchJson<DiscoveryDocument>(
+    `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+  );
+  if (!document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+    throw new Error(`Incomplete discovery document for ${issuer}`);
+  }
+  discoveryCache.set(issuer, { document, fetchedAt: Date.now() });
+  return document;
+};
+
+/**
+ * Generates a PKCE code verifier and its S256 challenge (RFC 7636)
+ *
+ * @return {{ verifier: string, challenge: string }} The verifier to keep and the challenge to send.
+ */
+const createPkce = () => {
+  const verifier = crypto.randomBytes(32).toString('base64url');
+  const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+};
+
+/**
+ * Exchanges an authorization code for tokens at the provider's token endpoint
+ *
+ * @param {string} tokenEndpoint - The provider's token endpoint.
+ * @param {object} params - The code, redirect URI, client credentials and PKCE verifier.
+ * @return {Promise<TokenResponse>} The tokens issued by the provider.
+ */
+const exchangeCode = async (
+  tokenEndpoint: string,
+  params: {
+    code: string;
+    redirectUri: string;
+    clientId: string;
+    clientSecret: string;
+    codeVerifier: string;
+  },
+): Promise<TokenResponse> => {
+  const tokens = await fetchJson<TokenResponse & { error?: string }>(tokenEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      client_id: params.clientId,
+      client_secret: params.clientSecret,
+      code_verifier: params.codeVerifier,
+    }),
+  });
+  // Some providers answer errors with a 200
+  if (tokens.error || !tokens.access_token) {
+    throw new Error(`Token exchange failed: ${tokens.error ?? 'no access token'}`);
+  }
+  return tokens;
+};
+
+/**
+ * Fetches a resource with the user's access token, such as the userinfo endpoint
+ *
+ * @param {string} url - The resource URL.
+ * @param {string} accessToken - The access token from the token exchange.
+ * @return {Promise<T>} The parsed JSON response.
+ */
+const fetchWithToken = async <T>(url: string, accessToken: string): Promise<T> => {
+  return fetchJson<T>(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+};
+
+const getSigningKey = async (jwksUri: string, kid?: string) => {
+  const find = (keys: JsonWebKeyWithId[]) => {
+    const candidates = keys.filter((key) => !key.use || key.use === 'sig');
+    return kid ? candidates.find((key) => key.kid === kid) : candidates[0];
+  };
+
+  const cached = jwksCache.get(jwksUri);
+  const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+  const key = cached && age < JWKS_TTL ? find(cached.keys) : undefined;
+  // A key id we have not seen usually means the provider rotated its keys
+  if (key || age < JWKS_MIN_REFRESH) {
+    return key;
+  }
+
+  const { keys } = await fetchJson<{ keys: JsonWebKeyWithId[] }>(jwksUri);
+  jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+  return find(keys);
+};
+
+/**
+ * Verifies an ID token against the issuer's published keys and checks its claims
+ *
+ * @param {string} idToken - The ID token from the token exchange.
+ * @param {IdTokenExpectations} expected - The issuer, client ID, JWKS URI and nonce it must match.
+ * @return {Promise<IdTokenClaims>} The verified claims.
+ */
+const verifyIdToken = async (
+  idToken: string,
+  expected: IdTokenExpectations,
+): Promise<IdTokenClaims> => {
+  const [headerSegment, payloadSegment, signatureSegment] = idToken.split('.');
+  if (!headerSegment || !payloadSegment || !signatureSegment) {
+    throw new Error('Malformed ID token');
+  }
+
+  const header = decodeSegment<{ alg: string; kid?: string }>(headerSegment);
+  if (!Object.hasOwn(SIGNATURE_ALGORITHMS, header.alg)) {
+    throw new Error(`Unsupported ID token algorithm: ${header.alg}`);
+  }
+  const jwk = await getSigningKey(expected.jwksUri, header.kid);
+  if (!jwk) {
+    throw new Error('No matching signing key for ID token');
+  }
+
+  const { hash, options } = SIGNATURE_ALGORITHMS[header.alg];
+  const key = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+  const isValid = crypto.verify(
+    hash,
+    Buffer.from(`${headerSegment}.${payloadSegment}`),
+    { ...options, key },
+    Buffer.from(signatureSegment, 'base64url'),
+  );
+  if (!isValid) {
+    throw new Error('Invalid ID token signature');
+  }
+
+  const claims = decodeSegment<IdTokenClaims>(payloadSegment);
+  // Multi-tenant issuers such as Microsoft's advertise a template filled in per tenant
+  const issuer =
+    typeof claims.tid === 'string'
+      ? expected.issuer.replace('{tenantid}', claims.tid)
+      : expected.issuer;
+  if (claims.iss !== issuer) {
+    throw new Error('ID token issuer mismatch');
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(expected.audience)) {
+    throw new Error('ID token audience mismatch');
+  }
+  if (audiences.length > 1 && claims.azp !== expected.audience) {
+    throw new Error('ID token authorized party mismatch');
+  }
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW <= now) {
+    throw new Error('ID token expired');
+  }
+  if ((claims.iat ?? 0) - CLOCK_SKEW > now || (claims.nbf ?? 0) - CLOCK_SKEW > now) {
+    throw new Error('ID token not yet valid');
+  }
+  if (claims.nonce !== expected.nonce) {
+    throw new Error('ID token nonce mismatch');
+  }
+
+  return claims;
+};
+
+export {
+  createPkce,
+  discover,
+  type DiscoveryDocument,
+  exchangeCode,
+  fetchWithToken,
+  type IdTokenClaims,
+  type TokenResponse,
+  verifyIdToken,
+};
@@ -0,0 +1,152 @@
+import crypto from 'crypto';
+
+import { verify as verifyEncrypted } from './encryption.js';
+
+type ScryptParams = {
+  N: number;
+  r: number;
+  p: number;
+  keyLength: number;
+};
+
+const ALGORITHM = 'scrypt';
+const SALT_LENGTH = 16;
+
+// Bump the version whenever the parameters change so stored hashes get upgraded on next login
+const CURRENT_VERSION = 1;
+const PARAMS: Record<number, ScryptParams> = {
+  1: { N: 2 ** 15, r: 8, p: 1, keyLength: 64 },
+};
+
+// Hashes created by the old AES-256-CBC scheme are stored as `iv:ciphertext` in hex
+const LEGACY_FORMAT = /^[0-9a-f]{32}:[0-9a-f]+$/;
+
+const derive = (password: string, salt: Buffer, params: ScryptParams): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      password,
+      salt,
+      params.keyLength,
+      // scrypt needs roughly 128 * N * r bytes, leave headroom over the node default of 32MB
+      { N: params.N, r: params.r, p: params.p, maxmem: 256 * params.N * params.r },
+      (err, key) => (err ? reject(err) : resolve(key)),
+    );
+  });
+};
+
+const parse = (stored: string) => {
+  // Format: $scrypt$v=1$N=32768,r=8,p=1$<salt>$<hash>
+  const [, algorithm, version, params, salt, hash] = stored.split('$');
+  if (algorithm !== ALGORITHM || !version || !params || !salt || !hash) {
+    return null;
+  }
+
+  const values = Object.fromEntries(
+    params.split(',').map((pair) => {
+      const [key, value] = pair.split('=');
+      return [key, Number.parseInt(value)];
+    }),
+  );
+  const key = Buffer.from(hash, 'base64');
+
+  return {
+    version: Number.parseInt(version.replace('v=', '')),
+    params: { N: values.N, r: values.r, p: values.p, keyLength: key.length },
+    salt: Buffer.from(salt, 'base64'),
+    key,
+  };
+};
+
+/**
+ * Hashes a password with the current scrypt parameters
+ * @param {string} password - The plain text password
+ * @return {Promise<string>} The encoded hash, including algorithm, version, parameters and salt
+ */
+const hashPassword = async (password: string): Promise<string> => {
+  const params = PARAMS[CURRENT_VERSION];
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const key = await derive(password, salt, params);
+
+  return [
+    '',
+    ALGORITHM,
+    `v=${CURRENT_VERSION}`,
+    `N=${params.N},r=${params.r},p=${params.p}`,
+    salt.toString('base64'),
+    key.toString('base64'),
+  ].join('$');
+};
+
+/**
+ * Checks whether a stored password was written by the legacy reversible encryption
+ * @param {string} stored - The stored password value
+ * @return {boolean} True when the value is in the legacy `iv:ciphertext` format
+ */
+const isLegacyHash = (stored: string): boolean => {
+  return LEGACY_FORMAT.test(stored);
+};
+
+/**
+ * Verifies a password against a stored hash, accepting legacy encrypted values
+ * @param {string} password - The plain text password
+ * @param {string} stored - The stored password value
+ * @return {Promise<boolean>} True when the password matches
+ */
+const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  if (isLegacyHash(stored)) {
+    try {
+      return verifyEncrypted(password, stored);
+    } catch {
+      // Decryption fails with a bad pad when SECRET_KEY changed since the value was written
+      return false;
+    }
+  }
+
+  const parsed = parse(stored);
+  if (!parsed) {
+    return false;
+  }
+
+  const key = await derive(password, parsed.salt, parsed.params);
+  return key.length === parsed.key.length && crypto.timingSafeEqual(key, parsed.key);
+};
+
+let dummyHash: Promise<string> | undefined;
+
+/**
+ * Runs a password check against a throwaway hash so requests for unknown accounts
+ * take as long as requests for real ones
+ * @param {string} password - The plain text password
+ * @return {Promise<void>}
+ */
+const verifyDummyPassword = async (password: string): Promise<void> => {
+  dummyHash ??= hashPassword(crypto.randomUUID());
+  await verifyPassword(password, await dummyHash);
+};
+
+/**
+ * Checks whether a stored password should be re-hashed with the current parameters
+ * @param {string} stored - The stored password value
+ * @return {boolean} True when the value is legacy or uses outdated parameters
+ */
+const needsRehash = (stored: string): boolean => {
+  if (isLegacyHash(stored)) {
+    return true;
+  }
+
+  const parsed = parse(stored);
+  if (!parsed) {
+    return true;
+  }
+
+  const current = PARAMS[CURRENT_VERSION];
+  return (
+    parsed.version !== CURRENT_VERSION ||
+    parsed.params.N !== current.N ||
+    parsed.params.r !== current.r ||
+    parsed.params.p !== current.p ||
+    parsed.params.keyLength !== current.keyLength
+  );
+};
+
+export { hashPassword, isLegacyHash, needsRehash, verifyDummyPassword, verifyPassword };
@@ -0,0 +1,59 @@
+import type { User } from '../schema/schema.ts';
+
+type Role = NonNullable<User['role']>;
+
+const PERMISSIONS = [
+  'profile:read',
+  'profile:write',
+  'email:read',
+  'email:write',
+  'notification:read',
+  'notification:write',
+  'asset:read',
+  'asset:write',
+  'user:read',
+  'user:write',
+  'user:ban',
+  'audit:read',
+] as const;
+
+type Permission = (typeof PERMISSIONS)[number];
+
+const USER_PERMISSIONS: Permission[] = [
+  'profile:read',
+  'profile:write',
+  'email:read',
+  'email:write',
+  'notification:read',
+  'notification:write',
+  'asset:read',
+  'asset:write',
+];
+
+// `role` is the support tier, it can look users up but not change them
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  user: USER_PERMISSIONS,
+  role: [...USER_PERMISSIONS, 'user:read'],
+  admin: PERMISSIONS,
+};
+
+/**
+ * Resolves the role of a user, treating a missing role as a regular user
+ * @param {Pick<User, 'role'>} user - The user to check
+ * @return {Role} The effective role
+ */
+const roleOf = (user: Pick<User, 'role'>): Role => {
+  return user.role ?? 'user';
+};
+
+/**
+ * Checks whether a user's role grants a permission
+ * @param {Pick<User, 'role'>} user - The user to check
+ * @param {Permission} permission - The permission required
+ * @return {boolean} True when the role grants the permission
+ */
+const hasPermission = (user: Pick<User, 'role'>, permission: Permission): boolean => {
+  return ROLE_PERMISSIONS[roleOf(user)].includes(permission);
+};
+
+export { hasPermission, type Permission, PERMISSIONS, type Role, ROLE_PERMISSIONS, roleOf };
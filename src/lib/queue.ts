@@ -26,4 +26,10 @@ const defaultQueue = new Queue(QUEUE.default, {
   },
 });
 
-export { connection, defaultQueue, QUEUE };
+// For jobs that call other services, retried after 1, 2, 4 and 8 minutes before giving up
+const RETRY_JOB_OPTIONS = {
+  attempts: 5,
+  backoff: { type: 'exponential', delay: 60 * 1000 },
+};
+
+export { connection, defaultQueue, QUEUE, RETRY_JOB_OPTIONS };
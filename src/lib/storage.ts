@@ -0,0 +1,334 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { createPresignedPost } from '@aws-sdk/s3-presigned-post';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import env from './env.js';
+
+type PresignedUpload = {
+  // The client POSTs a multipart form with every field, then the file as `file`
+  url: string;
+  fields: Record<string, string>;
+  expiresAt: Date;
+};
+
+type PresignUploadOptions = {
+  contentType: string;
+  maxSize: number; // bytes
+  expiresIn: number; // seconds
+};
+
+type PresignDownloadOptions = {
+  expiresIn: number; // seconds
+  fileName?: string;
+};
+
+type StoredObject = { size: number; contentType: string | null };
+
+interface StorageDriver {
+  /** Stores a file under the key and returns the URL it can be fetched from */
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  delete(key: string): Promise<void>;
+  /** The size and type of a stored file, or null when there is nothing under the key */
+  stat(key: string): Promise<StoredObject | null>;
+  /** Lets a client upload one file straight to storage, without it passing through the API */
+  presignUpload(key: string, options: PresignUploadOptions): Promise<PresignedUpload>;
+  /** A temporary URL to download a file that is not public */
+  presignDownload(key: string, options: PresignDownloadOptions): Promise<string>;
+  /** The key of a file stored by this driver, or null for URLs it does not own */
+  keyFromUrl(url: string): string | null;
+}
+
+const keyFromBaseUrl = (baseUrl: string, url: string) => {
+  const prefix = `${baseUrl.replace(/\/$/, '')}/`;
+  return url.startsWith(prefix) ? decodeURIComponent(url.slice(prefix.length)) : null;
+};
+
+const contentDisposition = (fileName: string) => {
+  return `attachment; filename="${fileName.replace(/["\\\r\n]/g, '')}"`;
+};
+
+/**
+ * Keeps files on the local disk, outside of anything served directly. Files stored with
+ * put() get a signed URL on the API, and presigned URLs point at the API too, which checks
+ * their signature, so the S3 upload flow can be used without a bucket.
+ */
+class LocalStorageDriver implements StorageDriver {
+  private root: string;
+  private baseUrl: string;
+  private apiUrl: string;
+  private secret: string;
+
+  constructor(root: string, baseUrl: string, apiUrl: string, secret: string) {
+    this.root = path.resolve(root);
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.apiUrl = apiUrl.replace(/\/$/, '');
+    this.secret = secret;
+  }
+
+  private sign(value: string) {
+    return crypto.createHmac('sha256', this.secret).update(value).digest('base64url');
+  }
+
+  private isValidSignature(value: string, signature: string | undefined, expires: string) {
+    if (!signature || !/^\d+$/.test(expires) || Number(expires) * 1000 < Date.now()) {
+      return false;
+    }
+    const expected = Buffer.from(this.sign(value));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Resolves a key to its path on disk
+   * @param {string} key - The storage key
+   * @returns {string} The absolute path of the file
+   * @throws {Error} When the key would point outside the storage directory
+   */
+  public resolve(key: string) {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(`${this.root}${path.sep}`)) {
+      throw new Error(`Storage key escapes the storage directory: ${key}`);
+    }
+    return file;
+  }
+
+  public async put(key: string, body: Buffer) {
+    const file = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, body);
+    // Only files stored here are public, the signature keeps other keys such as assets private
+    return `${this.baseUrl}/${key}?signature=${this.sign(`public:${key}`)}`;
+  }
+
+  /**
+   * Checks the signature of a public file URL returned by put()
+   * @param {string} key - The key from the URL
+   * @param {string} [signature] - The signature from the URL
+   * @returns {boolean} True when the file was stored as public
+   */
+  public verifyPublic(key: string, signature: string | undefined) {
+    if (!signature) {
+      return false;
+    }
+    const expected = Buffer.from(this.sign(`public:${key}`));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  public async delete(key: string) {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  public async stat(key: string) {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return { size: stats.size, contentType: null };
+    } catch {
+      return null;
+    }
+  }
+
+  public async presignUpload(key: string, options: PresignUploadOptions) {
+    const expires = String(Math.floor(Date.now() / 1000) + options.expiresIn);
+    const maxSize = String(options.maxSize);
+    return {
+      url: `${this.apiUrl}/v1/storage/local`,
+      fields: {
+        key,
+        'Content-Type': options.contentType,
+        max_size: maxSize,
+        expires,
+        signature: this.sign(`upload:${key}:${options.contentType}:${maxSize}:${expires}`),
+      },
+      expiresAt: new Date(Number(expires) * 1000),
+    };
+  }
+
+  /**
+   * Checks the form fields of an upload made with a presigned URL from this driver
+   * @param {Record<string, string>} fields - The form fields, other than the file
+   * @returns {{ key: string, contentType: string, maxSize: number }|null} What may be uploaded, or null when forged or expired
+   */
+  public verifyUpload(fields: Record<string, string | undefined>) {
+    const { key, 'Content-Type': contentType, max_size: maxSize, expires, signature } = fields;
+    if (!key || !contentType || !maxSize || !expires) {
+      return null;
+    }
+    const value = `upload:${key}:${contentType}:${maxSize}:${expires}`;
+    return this.isValidSignature(value, signature, expires)
+      ? { key, contentType, maxSize: Number(maxSize) }
+      : null;
+  }
+
+  public async presignDownload(key: string, options: PresignDownloadOptions) {
+    const expires = String(Math.floor(Date.now() / 1000) + options.expiresIn);
+    const name = options.fileName ?? path.basename(key);
+    const params = new URLSearchParams({
+      key,
+      name,
+      expires,
+      signature: this.sign(`download:${key}:${name}:${expires}`),
+    });
+    return `${this.apiUrl}/v1/storage/local?${params.toString()}`;
+  }
+
+  /**
+   * Checks the query of a download URL presigned by this driver
+   * @param {Record<string, string>} query - The query parameters of the request
+   * @returns {{ key: string, fileName: string, contentDisposition: string }|null} The file to send, or null when forged or expired
+   */
+  public verifyDownload(query: Record<string, string | undefined>) {
+    const { key, name, expires, signature } = query;
+    if (!key || !name || !expires) {
+      return null;
+    }
+    return this.isValidSignature(`download:${key}:${name}:${expires}`, signature, expires)
+      ? { key, fileName: name, contentDisposition: contentDisposition(name) }
+      : null;
+  }
+
+  public keyFromUrl(url: string) {
+    return keyFromBaseUrl(this.baseUrl, url.split('?')[0]);
+  }
+}
+
+/**
+ * Keeps files in an S3 bucket, or any S3-compatible service when an endpoint is given
+ */
+class S3StorageDriver implements StorageDriver {
+  private client: S3Client;
+  private bucket: string;
+  private baseUrl: string;
+
+  constructor(options: {
+    bucket: string;
+    region: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    endpoint?: string;
+    publicUrl?: string;
+  }) {
+    const { bucket, region, accessKeyId, secretAccessKey, endpoint, publicUrl } = options;
+    this.client = new S3Client({
+      region,
+      endpoint,
+      // Most S3-compatible services only support path-style bucket addressing
+      forcePathStyle: !!endpoint,
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    });
+    this.bucket = bucket;
+    this.baseUrl = (
+      publicUrl ??
+      (endpoint
+        ? `${endpoint.replace(/\/$/, '')}/${bucket}`
+        : `https://${bucket}.s3.${region}.amazonaws.com`)
+    ).replace(/\/$/, '');
+  }
+
+  public async put(key: string, body: Buffer, contentType: string) {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        CacheControl: 'public, max-age=31536000, immutable',
+      }),
+    );
+    return `${this.baseUrl}/${key}`;
+  }
+
+  public async delete(key: string) {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  public async stat(key: string) {
+    try {
+      const head = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return { size: head.ContentLength ?? 0, contentType: head.ContentType ?? null };
+    } catch (error) {
+      if (error instanceof S3ServiceException && error.$metadata.httpStatusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  public async presignUpload(key: string, options: PresignUploadOptions) {
+    // The policy makes S3 itself refuse files over the size or of another type
+    const { url, fields } = await createPresignedPost(this.client, {
+      Bucket: this.bucket,
+      Key: key,
+      Conditions: [
+        ['content-length-range', 0, options.maxSize],
+        ['eq', '$Content-Type', options.contentType],
+      ],
+      Fields: { 'Content-Type': options.contentType },
+      Expires: options.expiresIn,
+    });
+    return { url, fields, expiresAt: new Date(Date.now() + options.expiresIn * 1000) };
+  }
+
+  public async presignDownload(key: string, options: PresignDownloadOptions) {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        ResponseContentDisposition: options.fileName
+          ? contentDisposition(options.fileName)
+          : undefined,
+      }),
+      { expiresIn: options.expiresIn },
+    );
+  }
+
+  public keyFromUrl(url: string) {
+    return keyFromBaseUrl(this.baseUrl, url);
+  }
+}
+
+const createStorage = (): StorageDriver => {
+  if (env.STORAGE_DRIVER === 's3') {
+    if (!env.S3_BUCKET_NAME) {
+      throw new Error('S3_BUCKET_NAME is required when STORAGE_DRIVER is s3');
+    }
+    return new S3StorageDriver({
+      bucket: env.S3_BUCKET_NAME,
+      region: env.AWS_REGION,
+      accessKeyId: env.AWS_ACCESS_KEY,
+      secretAccessKey: env.AWS_SECRET_KEY,
+      endpoint: env.S3_ENDPOINT,
+      publicUrl: env.S3_PUBLIC_URL,
+    });
+  }
+
+  const apiUrl = env.API_URL.replace(/\/$/, '');
+  return new LocalStorageDriver(
+    env.STORAGE_LOCAL_DIR,
+    `${apiUrl}/v1/storage/local/public`,
+    apiUrl,
+    env.SECRET_KEY,
+  );
+};
+
+const storage = createStorage();
+
+export {
+  LocalStorageDriver,
+  type PresignedUpload,
+  S3StorageDriver,
+  storage,
+  type StorageDriver,
+  type StoredObject,
+};
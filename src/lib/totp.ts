@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const SECRET_LENGTH = 20; // 160 bits, as recommended by RFC 4226
+const DIGITS = 6;
+const PERIOD = 30; // seconds
+const WINDOW = 1; // accept one step of clock drift either side
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generates a random base32 encoded TOTP secret
+ * @return {string} The secret, suitable for authenticator apps
+ */
+const generateSecret = (): string => {
+  return base32Encode(crypto.randomBytes(SECRET_LENGTH));
+};
+
+/**
+ * Returns the time step a timestamp falls into
+ * @param {number} [now] - Timestamp in milliseconds, defaults to the current time
+ * @return {number} The RFC 6238 time step counter
+ */
+const currentStep = (now: number = Date.now()): number => {
+  return Math.floor(now / 1000 / PERIOD);
+};
+
+/**
+ * Computes the HOTP value (RFC 4226) of a secret for a given time step
+ * @param {string} secret - Base32 encoded secret
+ * @param {number} step - The time step counter
+ * @return {string} The zero padded code
+ */
+const generateCode = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+};
+
+/**
+ * Verifies a TOTP code, tolerating a small clock drift
+ * @param {string} secret - Base32 encoded secret
+ * @param {string} code - The code entered by the user
+ * @param {number} [now] - Timestamp in milliseconds, defaults to the current time
+ * @return {number|null} The matched time step, or null when the code is invalid
+ */
+const verifyCode = (secret: string, code: string, now: number = Date.now()): number | null => {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const step = currentStep(now);
+  for (let drift = -WINDOW; drift <= WINDOW; drift++) {
+    const expected = Buffer.from(generateCode(secret, step + drift));
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step + drift;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Builds the otpauth:// URI authenticator apps read from a QR code
+ * @param {string} secret - Base32 encoded secret
+ * @param {string} account - The account label, usually the user's email
+ * @param {string} issuer - The service name shown in the authenticator app
+ * @return {string} The otpauth URI
+ */
+const buildOtpAuthUri = (secret: string, account: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(PERIOD),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+export { buildOtpAuthUri, currentStep, generateCode, generateSecret, verifyCode };
@@ -0,0 +1,129 @@
+import type { PropsWithChildren } from 'hono/jsx';
+
+import env from '../lib/env.ts';
+
+const COLORS = {
+  background: '#f4f5f7',
+  card: '#ffffff',
+  text: '#1f2933',
+  muted: '#616e7c',
+  accent: '#4f46e5',
+};
+
+type BaseLayoutProps = PropsWithChildren<{
+  title: string;
+  // Shown after the subject in most inboxes
+  preheader?: string;
+  footer?: string[];
+  unsubscribeLink?: string;
+}>;
+
+type NoticeLayoutProps = PropsWithChildren<{
+  title: string;
+  subtitle?: string;
+  greeting?: string;
+  buttonText?: string;
+  buttonLink?: string;
+  footer?: string[];
+  unsubscribeLink?: string;
+}>;
+
+/**
+ * The outer shell every email is rendered in
+ */
+export const BaseLayout = ({
+  title,
+  preheader,
+  footer = [],
+  unsubscribeLink,
+  children,
+}: BaseLayoutProps) => (
+  <html lang="en">
+    <head>
+      <meta charset="utf-8" />
+      <meta name="viewport" content="width=device-width, initial-scale=1" />
+      <title>{title}</title>
+    </head>
+    <body
+      style={`margin:0;padding:24px 0;background:${COLORS.background};font-family:Helvetica,Arial,sans-serif;color:${COLORS.text};`}
+    >
+      {preheader && <div style="display:none;max-height:0;overflow:hidden;">{preheader}</div>}
+      <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+        <tr>
+          <td align="center">
+            <table
+              role="presentation"
+              width="600"
+              cellpadding="0"
+              cellspacing="0"
+              style={`max-width:600px;width:100%;background:${COLORS.card};border-radius:8px;`}
+            >
+              <tr>
+                <td style="padding:32px;">{children}</td>
+              </tr>
+            </table>
+            <p style={`margin:16px 0 0;font-size:12px;color:${COLORS.muted};`}>
+              {[env.BRAND_NAME, ...footer].filter(Boolean).join(' · ')}
+            </p>
+            {unsubscribeLink && (
+              <p style={`margin:8px 0 0;font-size:12px;color:${COLORS.muted};`}>
+                <a href={unsubscribeLink} style={`color:${COLORS.muted};`}>
+                  Unsubscribe
+                </a>
+              </p>
+            )}
+          </td>
+        </tr>
+      </table>
+    </body>
+  </html>
+);
+
+/**
+ * A heading, a message and an optional call to action, inside the base layout
+ */
+export const NoticeLayout = ({
+  title,
+  subtitle,
+  greeting,
+  buttonText,
+  buttonLink,
+  footer,
+  unsubscribeLink,
+  children,
+}: NoticeLayoutProps) => (
+  <BaseLayout title={title} preheader={subtitle} footer={footer} unsubscribeLink={unsubscribeLink}>
+    <h1 style="margin:0 0 8px;font-size:22px;">{title}</h1>
+    {subtitle && <p style={`margin:0 0 24px;color:${COLORS.muted};`}>{subtitle}</p>}
+    {greeting && <p style="margin:0 0 16px;">{greeting}</p>}
+    {children}
+    {buttonText && buttonLink && (
+      <p style="margin:24px 0 0;">
+        <a
+          href={buttonLink}
+          style={`display:inline-block;padding:12px 24px;background:${COLORS.accent};color:#ffffff;border-radius:6px;text-decoration:none;`}
+        >
+          {buttonText}
+        </a>
+      </p>
+    )}
+  </BaseLayout>
+);
+
+/**
+ * The plain text counterpart of the layouts, joining the parts that are set
+ * @param {Array<string|undefined|false>} parts - Paragraphs of the message, in order
+ * @param {string[]} [footer] - Extra lines for the footer
+ * @param {string} [unsubscribeLink] - Where the recipient can unsubscribe, for marketing mail
+ * @returns {string} The plain text email
+ */
+export const textLayout = (
+  parts: (string | undefined | false)[],
+  footer: string[] = [],
+  unsubscribeLink?: string,
+) => {
+  const body = parts.filter(Boolean).join('\n\n');
+  const signature = [env.BRAND_NAME, ...footer].filter(Boolean).join('\n');
+  const unsubscribe = unsubscribeLink ? `\n\nUnsubscribe: ${unsubscribeLink}` : '';
+  return `${body}\n\n--\n${signature}${unsubscribe}\n`;
+};
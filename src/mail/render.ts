@@ -0,0 +1,27 @@
+import { type MailTemplate, type TemplateName, TEMPLATES } from './templates.tsx';
+
+type RenderedMail = { subject: string; html: string; text: string };
+
+/**
+ * Renders a template from the registry to HTML and plain text. The params are checked
+ * against the template's schema, and everything interpolated into the HTML is escaped.
+ * @param {TemplateName} name - Name of the template
+ * @param {unknown} params - The template's params, e.g. from a queued job
+ * @returns {Promise<RenderedMail>} The subject and both bodies
+ * @throws {Error} When the template does not exist or the params do not match its schema
+ */
+const renderTemplate = async (name: TemplateName, params: unknown): Promise<RenderedMail> => {
+  if (!Object.hasOwn(TEMPLATES, name)) {
+    throw new Error(`Unknown email template: ${name}`);
+  }
+  const template: MailTemplate = TEMPLATES[name];
+  const parsed = template.schema.parse(params);
+
+  return {
+    subject: template.subject(parsed),
+    html: `<!DOCTYPE html>${await template.html(parsed).toString()}`,
+    text: template.text(parsed),
+  };
+};
+
+export { type RenderedMail, renderTemplate };
@@ -0,0 +1,153 @@
+import type { JSX } from 'hono/jsx/jsx-runtime';
+import { z } from 'zod';
+
+import env from '../lib/env.ts';
+import { NoticeLayout, textLayout } from './layouts.tsx';
+
+// P is what the template renders with, I what callers pass before defaults are applied
+type MailTemplate<P = unknown, I = P> = {
+  description: string;
+  schema: z.ZodType<P, z.ZodTypeDef, I>;
+  // Used to preview the template
+  example: I;
+  subject(params: P): string;
+  html(params: P): JSX.Element;
+  text(params: P): string;
+};
+
+const defineTemplate = <P, I>(template: MailTemplate<P, I>) => template;
+
+const noticeSchema = z.object({
+  subject: z.string().min(1),
+  title: z.string().min(1),
+  subtitle: z.string().default(''),
+  body: z.string().default(''),
+  buttonText: z.string().optional(),
+  buttonLink: z.string().optional(),
+  busname: z.string().optional(),
+  // Set on marketing mail
+  unsubscribeLink: z.string().optional(),
+});
+
+const eventSchema = noticeSchema.extend({
+  username: z.string().default(''),
+  eventname: z.string().default(''),
+  eventdate: z.string().default(''),
+  eventtime: z.string().default(''),
+  eventlink: z.string().default(''),
+  busname: z.string().default(''),
+  busemail: z.string().default(''),
+  busaddress: z.string().default(''),
+});
+
+const businessFooter = (params: z.output<typeof eventSchema>) => {
+  return [params.busname, params.busemail, params.busaddress].filter(Boolean);
+};
+
+const TEMPLATES = {
+  notice: defineTemplate({
+    description: 'Account and security notices with an optional call to action',
+    schema: noticeSchema,
+    example: {
+      subject: 'Reset your password',
+      title: 'Reset your password',
+      subtitle: 'This link expires in one hour',
+      body: 'Someone asked to reset the password of your account. If this was not you, you can safely ignore this email.',
+      buttonText: 'Reset password',
+      buttonLink: `${env.FRONTEND_URL}/reset-password`,
+    },
+    subject: (params) => params.subject,
+    html: (params) => (
+      <NoticeLayout
+        title={params.title}
+        subtitle={params.subtitle}
+        buttonText={params.buttonText}
+        buttonLink={params.buttonLink}
+        footer={params.busname ? [params.busname] : []}
+        unsubscribeLink={params.unsubscribeLink}
+      >
+        {params.body && <p style="margin:0;line-height:1.5;">{params.body}</p>}
+      </NoticeLayout>
+    ),
+    text: (params) =>
+      textLayout(
+        [
+          params.title,
+          params.subtitle,
+          params.body,
+          !!params.buttonText &&
+            !!params.buttonLink &&
+            `${params.buttonText}: ${params.buttonLink}`,
+        ],
+        params.busname ? [params.busname] : [],
+        params.unsubscribeLink,
+      ),
+  }),
+  event: defineTemplate({
+    description: 'Messages from a host to their audience, with the event details when given',
+    schema: eventSchema,
+    example: {
+      subject: 'See you tomorrow',
+      title: 'Your event starts tomorrow',
+      subtitle: 'Here is everything you need to join',
+      body: 'We are looking forward to seeing you. Use the link below to join on the day.',
+      buttonText: 'Join the event',
+      buttonLink: `${env.FRONTEND_URL}/events/1`,
+      username: 'Alex',
+      eventname: 'Product launch',
+      eventdate: 'Friday 12 June',
+      eventtime: '18:00 UTC',
+      eventlink: `${env.FRONTEND_URL}/events/1`,
+      busname: 'Acme Events',
+      busemail: 'hello@acme.test',
+      busaddress: '1 Market Street, London',
+      unsubscribeLink: `${env.FRONTEND_URL}/unsubscribe/example`,
+    },
+    subject: (params) => params.subject,
+    html: (params) => (
+      <NoticeLayout
+        title={params.title}
+        subtitle={params.subtitle}
+        greeting={params.username ? `Hi ${params.username},` : undefined}
+        buttonText={params.buttonText || (params.eventlink ? 'View event' : undefined)}
+        buttonLink={params.buttonLink || params.eventlink}
+        footer={businessFooter(params)}
+        unsubscribeLink={params.unsubscribeLink}
+      >
+        {params.body && <p style="margin:0 0 16px;line-height:1.5;">{params.body}</p>}
+        {params.eventname && (
+          <p style="margin:0;line-height:1.5;">
+            <strong>{params.eventname}</strong>
+            {(params.eventdate || params.eventtime) && <br />}
+            {[params.eventdate, params.eventtime].filter(Boolean).join(' at ')}
+          </p>
+        )}
+      </NoticeLayout>
+    ),
+    text: (params) => {
+      const link = params.buttonLink || params.eventlink;
+      return textLayout(
+        [
+          params.username && `Hi ${params.username},`,
+          params.title,
+          params.subtitle,
+          params.body,
+          params.eventname &&
+            [params.eventname, [params.eventdate, params.eventtime].filter(Boolean).join(' at ')]
+              .filter(Boolean)
+              .join('\n'),
+          !!link && `${params.buttonText || 'View event'}: ${link}`,
+        ],
+        businessFooter(params),
+        params.unsubscribeLink,
+      );
+    },
+  }),
+};
+
+type TemplateName = keyof typeof TEMPLATES;
+type TemplateParams<N extends TemplateName> = z.input<(typeof TEMPLATES)[N]['schema']>;
+
+const TEMPLATE_NAMES = Object.keys(TEMPLATES) as [TemplateName, ...TemplateName[]];
+
+export { type MailTemplate, TEMPLATE_NAMES, type TemplateName, type TemplateParams, TEMPLATES };
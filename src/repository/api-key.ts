@@ -0,0 +1,44 @@
+import { and, desc, eq, isNull } from 'drizzle-orm';
+
+import { db } from '../lib/database.js';
+import type { NewApiKey } from '../schema/schema.js';
+import { apiKeysSchema } from '../schema/schema.js';
+
+export class ApiKeyRepository {
+  public async create(apiKey: NewApiKey) {
+    return db.insert(apiKeysSchema).values(apiKey).$returningId();
+  }
+
+  public async find(id: number) {
+    return db.query.apiKeysSchema.findFirst({
+      where: eq(apiKeysSchema.id, id),
+    });
+  }
+
+  public async findByHash(keyHash: string) {
+    return db.query.apiKeysSchema.findFirst({
+      where: eq(apiKeysSchema.key_hash, keyHash),
+    });
+  }
+
+  public async findActiveByUserId(userId: number) {
+    return db.query.apiKeysSchema.findMany({
+      where: and(eq(apiKeysSchema.user_id, userId), isNull(apiKeysSchema.revoked_at)),
+      orderBy: [desc(apiKeysSchema.created_at)],
+    });
+  }
+
+  public async touch(id: number) {
+    return db
+      .update(apiKeysSchema)
+      .set({ last_used_at: new Date() })
+      .where(eq(apiKeysSchema.id, id));
+  }
+
+  public async revoke(id: number) {
+    return db
+      .update(apiKeysSchema)
+      .set({ revoked_at: new Date() })
+      .where(and(eq(apiKeysSchema.id, id), isNull(apiKeysSchema.revoked_at)));
+  }
+}
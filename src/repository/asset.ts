@@ -0,0 +1,47 @@
+import { and, desc, eq, sum } from 'drizzle-orm';
+
+import { db } from '../lib/database.js';
+import type { Asset, NewAsset } from '../schema/schema.js';
+import { assetsSchema } from '../schema/schema.js';
+
+export class AssetRepository {
+  public async create(asset: NewAsset) {
+    return db.insert(assetsSchema).values(asset).$returningId();
+  }
+
+  public async find(id: number) {
+    return db.query.assetsSchema.findFirst({
+      where: eq(assetsSchema.id, id),
+    });
+  }
+
+  public async findByUserId(userId: number) {
+    return db.query.assetsSchema.findMany({
+      where: and(eq(assetsSchema.user_id, userId), eq(assetsSchema.status, 'ready')),
+      orderBy: [desc(assetsSchema.created_at), desc(assetsSchema.id)],
+    });
+  }
+
+  public async findAllByUserId(userId: number) {
+    return db.query.assetsSchema.findMany({
+      where: eq(assetsSchema.user_id, userId),
+    });
+  }
+
+  // Pending uploads count too, their declared size is reserved until they finish
+  public async getUsage(userId: number) {
+    const [{ total }] = await db
+      .select({ total: sum(assetsSchema.size) })
+      .from(assetsSchema)
+      .where(eq(assetsSchema.user_id, userId));
+    return Number(total ?? 0);
+  }
+
+  public async update(id: number, asset: Partial<Asset>) {
+    return db.update(assetsSchema).set(asset).where(eq(assetsSchema.id, id));
+  }
+
+  public async delete(id: number) {
+    return db.delete(assetsSchema).where(eq(assetsSchema.id, id));
+  }
+}
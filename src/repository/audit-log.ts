@@ -0,0 +1,57 @@
+import { and, count, desc, eq, gte, lte, type SQL } from 'drizzle-orm';
+
+import { db } from '../lib/database.js';
+import type { NewAuditLog } from '../schema/schema.js';
+import { auditLogsSchema } from '../schema/schema.js';
+
+export type AuditLogQuery = {
+  page: number;
+  limit: number;
+  actor_id?: number;
+  action?: string;
+  entity_type?: string;
+  entity_id?: string;
+  from?: Date;
+  to?: Date;
+};
+
+export class AuditLogRepository {
+  public async create(log: NewAuditLog) {
+    return db.insert(auditLogsSchema).values(log).$returningId();
+  }
+
+  public async search(query: AuditLogQuery) {
+    const filters: (SQL | undefined)[] = [];
+    if (query.actor_id) {
+      filters.push(eq(auditLogsSchema.actor_id, query.actor_id));
+    }
+    if (query.action) {
+      filters.push(eq(auditLogsSchema.action, query.action));
+    }
+    if (query.entity_type) {
+      filters.push(eq(auditLogsSchema.entity_type, query.entity_type));
+    }
+    if (query.entity_id) {
+      filters.push(eq(auditLogsSchema.entity_id, query.entity_id));
+    }
+    if (query.from) {
+      filters.push(gte(auditLogsSchema.created_at, query.from));
+    }
+    if (query.to) {
+      filters.push(lte(auditLogsSchema.created_at, query.to));
+    }
+    const where = and(...filters);
+
+    const [logs, [{ total }]] = await Promise.all([
+      db.query.auditLogsSchema.findMany({
+        where,
+        orderBy: [desc(auditLogsSchema.created_at), desc(auditLogsSchema.id)],
+        limit: query.limit,
+        offset: (query.page - 1) * query.limit,
+      }),
+      db.select({ total: count() }).from(auditLogsSchema).where(where),
+    ]);
+
+    return { logs, total };
+  }
+}
@@ -0,0 +1,118 @@
+import { and, asc, count, desc, eq, inArray, lt, ne } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import type { EmailCampaign, NewEmail, NewEmailCampaign } from '../schema/schema.ts';
+import { emailCampaignsSchema, emailsSchema } from '../schema/schema.ts';
+
+// Rows per insert when a campaign's emails are created
+const INSERT_CHUNK_SIZE = 500;
+
+export class EmailCampaignRepository {
+  public async create(data: NewEmailCampaign) {
+    return db.insert(emailCampaignsSchema).values(data).$returningId();
+  }
+
+  public async find(id: number) {
+    return db.query.emailCampaignsSchema.findFirst({
+      where: eq(emailCampaignsSchema.id, id),
+    });
+  }
+
+  public async findByHostId(hostId: number) {
+    return db.query.emailCampaignsSchema.findMany({
+      where: eq(emailCampaignsSchema.host_id, hostId),
+      orderBy: [desc(emailCampaignsSchema.created_at)],
+    });
+  }
+
+  public async update(id: number, data: Partial<EmailCampaign>) {
+    return db.update(emailCampaignsSchema).set(data).where(eq(emailCampaignsSchema.id, id));
+  }
+
+  /**
+   * Updates a campaign unless it has been cancelled
+   * @returns {Promise<boolean>} False when the campaign was cancelled
+   */
+  public async updateUnlessCancelled(id: number, data: Partial<EmailCampaign>) {
+    const [result] = await db
+      .update(emailCampaignsSchema)
+      .set(data)
+      .where(and(eq(emailCampaignsSchema.id, id), ne(emailCampaignsSchema.status, 'cancelled')));
+    return result.affectedRows === 1;
+  }
+
+  public async createEmails(emails: NewEmail[]) {
+    for (let i = 0; i < emails.length; i += INSERT_CHUNK_SIZE) {
+      await db.insert(emailsSchema).values(emails.slice(i, i + INSERT_CHUNK_SIZE));
+    }
+  }
+
+  /**
+   * Finds the next emails of a campaign that have not been queued yet
+   */
+  public async findDraftEmailIds(campaignId: number, limit: number) {
+    const rows = await db
+      .select({ id: emailsSchema.id })
+      .from(emailsSchema)
+      .where(and(eq(emailsSchema.campaign_id, campaignId), eq(emailsSchema.status, 'draft')))
+      .orderBy(asc(emailsSchema.id))
+      .limit(limit);
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Finds emails of a campaign queued before a time that have had no attempt, whose job may
+   * not have been added
+   */
+  public async findStuckEmailIds(campaignId: number, queuedBefore: Date, limit: number) {
+    const rows = await db
+      .select({ id: emailsSchema.id })
+      .from(emailsSchema)
+      .where(
+        and(
+          eq(emailsSchema.campaign_id, campaignId),
+          eq(emailsSchema.status, 'queued'),
+          eq(emailsSchema.attempts, 0),
+          lt(emailsSchema.queued_at, queuedBefore),
+        ),
+      )
+      .orderBy(asc(emailsSchema.id))
+      .limit(limit);
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Queues draft emails, leaving out any cancelled since they were picked
+   */
+  public async queueEmails(ids: number[]) {
+    return db
+      .update(emailsSchema)
+      .set({ status: 'queued', queued_at: new Date() })
+      .where(and(inArray(emailsSchema.id, ids), eq(emailsSchema.status, 'draft')));
+  }
+
+  /**
+   * Cancels the emails of a campaign that have not started sending
+   * @returns {Promise<number>} How many emails were cancelled
+   */
+  public async cancelEmails(campaignId: number) {
+    const [result] = await db
+      .update(emailsSchema)
+      .set({ status: 'cancelled' })
+      .where(
+        and(
+          eq(emailsSchema.campaign_id, campaignId),
+          inArray(emailsSchema.status, ['draft', 'queued']),
+        ),
+      );
+    return result.affectedRows;
+  }
+
+  public async countEmailsByStatus(campaignId: number) {
+    return db
+      .select({ status: emailsSchema.status, count: count() })
+      .from(emailsSchema)
+      .where(eq(emailsSchema.campaign_id, campaignId))
+      .groupBy(emailsSchema.status);
+  }
+}
@@ -0,0 +1,25 @@
+import { asc, eq } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import type { NewEmailEvent } from '../schema/schema.ts';
+import { emailEventsSchema } from '../schema/schema.ts';
+
+export class EmailEventRepository {
+  /**
+   * Records an event, unless the same event has been recorded before
+   * @returns {Promise<boolean>} True when the event is new
+   */
+  public async create(event: NewEmailEvent) {
+    // IGNORE rather than ON DUPLICATE KEY UPDATE, which reports a matched duplicate as a row
+    // affected on connections with FOUND_ROWS
+    const [result] = await db.insert(emailEventsSchema).ignore().values(event);
+    return result.affectedRows === 1;
+  }
+
+  public async findByEmailId(emailId: number) {
+    return db.query.emailEventsSchema.findMany({
+      where: eq(emailEventsSchema.email_id, emailId),
+      orderBy: [asc(emailEventsSchema.occurred_at)],
+    });
+  }
+}
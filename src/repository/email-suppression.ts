@@ -0,0 +1,75 @@
+import { and, desc, eq, inArray, isNull, or } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import type { EmailSuppression, NewEmailSuppression } from '../schema/schema.ts';
+import { emailsSchema, emailSuppressionsSchema } from '../schema/schema.ts';
+
+// Suppressions that apply to a host's mail: their own and those for all mail
+const appliesToHost = (hostId: number | null) => {
+  return hostId === null
+    ? isNull(emailSuppressionsSchema.host_id)
+    : or(isNull(emailSuppressionsSchema.host_id), eq(emailSuppressionsSchema.host_id, hostId));
+};
+
+export class EmailSuppressionRepository {
+  public async create(data: NewEmailSuppression) {
+    return db.insert(emailSuppressionsSchema).values(data).$returningId();
+  }
+
+  public async find(id: number) {
+    return db.query.emailSuppressionsSchema.findFirst({
+      where: eq(emailSuppressionsSchema.id, id),
+    });
+  }
+
+  /**
+   * Finds the suppression of an address by a host, or for all mail when the host is null
+   */
+  public async findOne(hostId: number | null, email: string) {
+    return db.query.emailSuppressionsSchema.findFirst({
+      where: and(
+        hostId === null
+          ? isNull(emailSuppressionsSchema.host_id)
+          : eq(emailSuppressionsSchema.host_id, hostId),
+        eq(emailSuppressionsSchema.email, email),
+      ),
+    });
+  }
+
+  public async findForRecipients(hostId: number | null, emails: string[]) {
+    if (emails.length === 0) {
+      return [];
+    }
+    return db.query.emailSuppressionsSchema.findMany({
+      where: and(inArray(emailSuppressionsSchema.email, emails), appliesToHost(hostId)),
+    });
+  }
+
+  /**
+   * Lists a host's suppressions, with the suppressions for all mail of addresses they have emailed
+   */
+  public async findByHostId(hostId: number) {
+    const recipients = db
+      .selectDistinct({ email: emailsSchema.email })
+      .from(emailsSchema)
+      .where(eq(emailsSchema.host_id, hostId));
+    return db.query.emailSuppressionsSchema.findMany({
+      where: or(
+        eq(emailSuppressionsSchema.host_id, hostId),
+        and(
+          isNull(emailSuppressionsSchema.host_id),
+          inArray(emailSuppressionsSchema.email, recipients),
+        ),
+      ),
+      orderBy: [desc(emailSuppressionsSchema.created_at)],
+    });
+  }
+
+  public async update(id: number, data: Partial<EmailSuppression>) {
+    return db.update(emailSuppressionsSchema).set(data).where(eq(emailSuppressionsSchema.id, id));
+  }
+
+  public async delete(id: number) {
+    return db.delete(emailSuppressionsSchema).where(eq(emailSuppressionsSchema.id, id));
+  }
+}
@@ -19,6 +19,12 @@ export class EmailRepository {
     });
   }
 
+  public async findEmailByProviderMessageId(messageId: string) {
+    return db.query.emailsSchema.findFirst({
+      where: eq(emailsSchema.provider_message_id, messageId),
+    });
+  }
+
   public async findEmailsByHostId(hostId: number) {
     return db.query.emailsSchema.findMany({
       where: eq(emailsSchema.host_id, hostId),
@@ -0,0 +1,108 @@
+import { and, asc, eq } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import type {
+  FollowUpEmail,
+  FollowUpStep,
+  NewFollowUpEmail,
+  NewFollowUpStep,
+} from '../schema/schema.ts';
+import { followUpEmailsSchema, followUpStepsSchema } from '../schema/schema.ts';
+
+export class FollowUpRepository {
+  public async create(data: NewFollowUpEmail) {
+    return db.insert(followUpEmailsSchema).values(data).$returningId();
+  }
+
+  public async find(id: number) {
+    return db.query.followUpEmailsSchema.findFirst({
+      where: eq(followUpEmailsSchema.id, id),
+    });
+  }
+
+  public async findByHostId(hostId: number) {
+    return db.query.followUpEmailsSchema.findMany({
+      where: eq(followUpEmailsSchema.host_id, hostId),
+      orderBy: [asc(followUpEmailsSchema.timeline)],
+    });
+  }
+
+  public async findByTimeline(hostId: number, timeline: number) {
+    return db.query.followUpEmailsSchema.findFirst({
+      where: and(
+        eq(followUpEmailsSchema.host_id, hostId),
+        eq(followUpEmailsSchema.timeline, timeline),
+      ),
+    });
+  }
+
+  public async update(id: number, data: Partial<FollowUpEmail>) {
+    return db.update(followUpEmailsSchema).set(data).where(eq(followUpEmailsSchema.id, id));
+  }
+
+  public async delete(id: number) {
+    return db.delete(followUpEmailsSchema).where(eq(followUpEmailsSchema.id, id));
+  }
+
+  public async createStep(data: NewFollowUpStep) {
+    return db.insert(followUpStepsSchema).values(data).$returningId();
+  }
+
+  public async findStep(id: number) {
+    return db.query.followUpStepsSchema.findFirst({
+      where: eq(followUpStepsSchema.id, id),
+      with: { followUp: true },
+    });
+  }
+
+  /**
+   * Finds a step of a follow-up that is waiting to be sent to a recipient
+   */
+  public async findScheduledStep(followUpId: number, email: string) {
+    return db.query.followUpStepsSchema.findFirst({
+      where: and(
+        eq(followUpStepsSchema.follow_up_id, followUpId),
+        eq(followUpStepsSchema.email, email),
+        eq(followUpStepsSchema.status, 'scheduled'),
+      ),
+    });
+  }
+
+  /**
+   * Moves a step from scheduled to sending, so only one job can send it
+   * @returns {Promise<boolean>} False when the step is no longer scheduled
+   */
+  public async claimStep(id: number) {
+    const [result] = await db
+      .update(followUpStepsSchema)
+      .set({ status: 'sending' })
+      .where(and(eq(followUpStepsSchema.id, id), eq(followUpStepsSchema.status, 'scheduled')));
+    return result.affectedRows > 0;
+  }
+
+  public async updateStep(id: number, data: Partial<FollowUpStep>) {
+    return db.update(followUpStepsSchema).set(data).where(eq(followUpStepsSchema.id, id));
+  }
+
+  /**
+   * Cancels the steps waiting to be sent to a recipient, by one host or by all when it is null
+   * @returns {Promise<number>} How many steps were cancelled
+   */
+  public async cancelSteps(
+    hostId: number | null,
+    email: string,
+    reason: NonNullable<FollowUpStep['cancel_reason']>,
+  ) {
+    const [result] = await db
+      .update(followUpStepsSchema)
+      .set({ status: 'cancelled', cancel_reason: reason })
+      .where(
+        and(
+          eq(followUpStepsSchema.email, email),
+          eq(followUpStepsSchema.status, 'scheduled'),
+          hostId === null ? undefined : eq(followUpStepsSchema.host_id, hostId),
+        ),
+      );
+    return result.affectedRows;
+  }
+}
@@ -0,0 +1,36 @@
+import { and, eq } from 'drizzle-orm';
+
+import { db } from '../lib/database.js';
+import type { NewIdentity } from '../schema/schema.js';
+import { identitiesSchema } from '../schema/schema.js';
+
+export class IdentityRepository {
+  public async create(identity: NewIdentity) {
+    return db.insert(identitiesSchema).values(identity).$returningId();
+  }
+
+  public async findByProviderSubject(provider: string, subject: string) {
+    return db.query.identitiesSchema.findFirst({
+      where: and(eq(identitiesSchema.provider, provider), eq(identitiesSchema.subject, subject)),
+    });
+  }
+
+  public async findByUserId(userId: number) {
+    return db.query.identitiesSchema.findMany({
+      where: eq(identitiesSchema.user_id, userId),
+    });
+  }
+
+  public async touch(id: number) {
+    return db
+      .update(identitiesSchema)
+      .set({ last_used_at: new Date() })
+      .where(eq(identitiesSchema.id, id));
+  }
+
+  public async delete(userId: number, provider: string) {
+    return db
+      .delete(identitiesSchema)
+      .where(and(eq(identitiesSchema.user_id, userId), eq(identitiesSchema.provider, provider)));
+  }
+}
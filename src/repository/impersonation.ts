@@ -0,0 +1,24 @@
+import { and, eq, isNull } from 'drizzle-orm';
+
+import { db } from '../lib/database.js';
+import type { NewImpersonation } from '../schema/schema.js';
+import { impersonationsSchema } from '../schema/schema.js';
+
+export class ImpersonationRepository {
+  public async create(impersonation: NewImpersonation) {
+    return db.insert(impersonationsSchema).values(impersonation).$returningId();
+  }
+
+  public async findBySessionId(sessionId: number) {
+    return db.query.impersonationsSchema.findFirst({
+      where: eq(impersonationsSchema.session_id, sessionId),
+    });
+  }
+
+  public async end(id: number) {
+    return db
+      .update(impersonationsSchema)
+      .set({ ended_at: new Date() })
+      .where(and(eq(impersonationsSchema.id, id), isNull(impersonationsSchema.ended_at)));
+  }
+}
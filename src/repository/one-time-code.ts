@@ -0,0 +1,46 @@
+import { and, desc, eq, isNull, lt, sql } from 'drizzle-orm';
+
+import { db } from '../lib/database.js';
+import type { NewOneTimeCode, OneTimeCodePurpose } from '../schema/schema.js';
+import { oneTimeCodesSchema } from '../schema/schema.js';
+
+export class OneTimeCodeRepository {
+  public async create(code: NewOneTimeCode) {
+    return db.insert(oneTimeCodesSchema).values(code).$returningId();
+  }
+
+  public async findLatest(userId: number, purpose: OneTimeCodePurpose) {
+    return db.query.oneTimeCodesSchema.findFirst({
+      where: and(eq(oneTimeCodesSchema.user_id, userId), eq(oneTimeCodesSchema.purpose, purpose)),
+      orderBy: [desc(oneTimeCodesSchema.created_at), desc(oneTimeCodesSchema.id)],
+    });
+  }
+
+  public async reserveAttempt(id: number, maxAttempts: number) {
+    const [result] = await db
+      .update(oneTimeCodesSchema)
+      .set({ attempts: sql`${oneTimeCodesSchema.attempts} + 1` })
+      .where(
+        and(
+          eq(oneTimeCodesSchema.id, id),
+          isNull(oneTimeCodesSchema.consumed_at),
+          lt(oneTimeCodesSchema.attempts, maxAttempts),
+        ),
+      );
+    return result.affectedRows > 0;
+  }
+
+  public async markConsumed(id: number) {
+    const [result] = await db
+      .update(oneTimeCodesSchema)
+      .set({ consumed_at: new Date() })
+      .where(and(eq(oneTimeCodesSchema.id, id), isNull(oneTimeCodesSchema.consumed_at)));
+    return result.affectedRows > 0;
+  }
+
+  public async deleteByUserId(userId: number, purpose: OneTimeCodePurpose) {
+    return db
+      .delete(oneTimeCodesSchema)
+      .where(and(eq(oneTimeCodesSchema.user_id, userId), eq(oneTimeCodesSchema.purpose, purpose)));
+  }
+}
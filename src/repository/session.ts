@@ -0,0 +1,70 @@
+import { and, desc, eq, gt, isNull, ne } from 'drizzle-orm';
+
+import { db } from '../lib/database.js';
+import type { NewSession, Session } from '../schema/schema.js';
+import { sessionsSchema } from '../schema/schema.js';
+
+export class SessionRepository {
+  public async create(session: NewSession) {
+    return db.insert(sessionsSchema).values(session).$returningId();
+  }
+
+  public async find(id: number) {
+    return db.query.sessionsSchema.findFirst({
+      where: eq(sessionsSchema.id, id),
+    });
+  }
+
+  public async findActiveByUserId(userId: number) {
+    return db.query.sessionsSchema.findMany({
+      where: and(
+        eq(sessionsSchema.user_id, userId),
+        isNull(sessionsSchema.revoked_at),
+        gt(sessionsSchema.expires_at, new Date()),
+      ),
+      orderBy: [desc(sessionsSchema.last_used_at)],
+    });
+  }
+
+  public async update(id: number, session: Partial<Session>) {
+    return db.update(sessionsSchema).set(session).where(eq(sessionsSchema.id, id));
+  }
+
+  /**
+   * Rotates a session's refresh token, unless it was rotated or revoked since it was read
+   * @returns {Promise<boolean>} False when the token being replaced is no longer current
+   */
+  public async rotate(id: number, previousHash: string, session: Partial<Session>) {
+    const [result] = await db
+      .update(sessionsSchema)
+      .set(session)
+      .where(
+        and(
+          eq(sessionsSchema.id, id),
+          eq(sessionsSchema.refresh_token_hash, previousHash),
+          isNull(sessionsSchema.revoked_at),
+        ),
+      );
+    return result.affectedRows === 1;
+  }
+
+  public async revoke(id: number) {
+    return db
+      .update(sessionsSchema)
+      .set({ revoked_at: new Date() })
+      .where(and(eq(sessionsSchema.id, id), isNull(sessionsSchema.revoked_at)));
+  }
+
+  public async revokeByUserId(userId: number, exceptId?: number) {
+    return db
+      .update(sessionsSchema)
+      .set({ revoked_at: new Date() })
+      .where(
+        and(
+          eq(sessionsSchema.user_id, userId),
+          isNull(sessionsSchema.revoked_at),
+          exceptId ? ne(sessionsSchema.id, exceptId) : undefined,
+        ),
+      );
+  }
+}
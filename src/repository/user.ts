@@ -1,7 +1,47 @@
-import { eq } from 'drizzle-orm';
+import {
+  and,
+  count,
+  desc,
+  eq,
+  exists,
+  inArray,
+  isNull,
+  like,
+  lt,
+  or,
+  type SQL,
+  sql,
+} from 'drizzle-orm';
 
 import { db } from '../lib/database.ts';
-import { type NewUser, type User, userSchema } from '../schema/schema.js';
+import {
+  apiKeysSchema,
+  auditLogsSchema,
+  emailCampaignsSchema,
+  emailEventsSchema,
+  emailsSchema,
+  emailSuppressionsSchema,
+  followUpEmailsSchema,
+  followUpStepsSchema,
+  identitiesSchema,
+  type NewUser,
+  notificationsSchema,
+  oneTimeCodesSchema,
+  sessionsSchema,
+  type User,
+  userSchema,
+} from '../schema/schema.js';
+
+export type UserQuery = {
+  page: number;
+  limit: number;
+  search?: string;
+  role?: NonNullable<User['role']>;
+  is_verified?: boolean;
+  is_banned?: boolean;
+  is_deleted?: boolean;
+  auth_provider?: NonNullable<User['auth_provider']>;
+};
 
 export class UserRepository {
   public async create(user: NewUser) {
@@ -14,6 +54,42 @@ export class UserRepository {
     });
   }
 
+  /**
+   * Finds the users with the given ids that are among a host's contacts, i.e. the host has
+   * emailed them or recorded them for follow-ups, and that can still be emailed: verified, and
+   * neither banned nor deleted
+   */
+  public async findMailableContacts(hostId: number, ids: number[]) {
+    if (ids.length === 0) {
+      return [];
+    }
+    const emailed = db
+      .select({ id: emailsSchema.id })
+      .from(emailsSchema)
+      .where(and(eq(emailsSchema.host_id, hostId), eq(emailsSchema.email, userSchema.email)));
+    const followedUp = db
+      .select({ id: followUpStepsSchema.id })
+      .from(followUpStepsSchema)
+      .where(
+        and(
+          eq(followUpStepsSchema.host_id, hostId),
+          eq(followUpStepsSchema.email, userSchema.email),
+        ),
+      );
+    return db
+      .select({ id: userSchema.id, email: userSchema.email, name: userSchema.name })
+      .from(userSchema)
+      .where(
+        and(
+          inArray(userSchema.id, ids),
+          eq(userSchema.is_verified, true),
+          eq(userSchema.is_banned, false),
+          eq(userSchema.is_deleted, false),
+          or(exists(emailed), exists(followedUp)),
+        ),
+      );
+  }
+
   public async findByEmail(email: string) {
     const user = await db.query.userSchema.findFirst({
       where: eq(userSchema.email, email),
@@ -24,11 +100,134 @@ export class UserRepository {
     return user;
   }
 
+  public async search(query: UserQuery) {
+    const filters: (SQL | undefined)[] = [];
+    if (query.search) {
+      const pattern = `%${query.search.replace(/[\\%_]/g, '\\$&')}%`;
+      filters.push(or(like(userSchema.name, pattern), like(userSchema.email, pattern)));
+    }
+    if (query.role) {
+      filters.push(eq(userSchema.role, query.role));
+    }
+    if (query.is_verified !== undefined) {
+      filters.push(eq(userSchema.is_verified, query.is_verified));
+    }
+    if (query.is_banned !== undefined) {
+      filters.push(eq(userSchema.is_banned, query.is_banned));
+    }
+    if (query.is_deleted !== undefined) {
+      filters.push(eq(userSchema.is_deleted, query.is_deleted));
+    }
+    if (query.auth_provider) {
+      filters.push(eq(userSchema.auth_provider, query.auth_provider));
+    }
+    const where = and(...filters);
+
+    const [users, [{ total }]] = await Promise.all([
+      db.query.userSchema.findMany({
+        where,
+        orderBy: [desc(userSchema.createdAt), desc(userSchema.id)],
+        limit: query.limit,
+        offset: (query.page - 1) * query.limit,
+      }),
+      db.select({ total: count() }).from(userSchema).where(where),
+    ]);
+
+    return { users, total };
+  }
+
   public async update(id: number, user: Partial<User>) {
     return db.update(userSchema).set(user).where(eq(userSchema.id, id));
   }
 
+  /**
+   * Records the time step of an accepted TOTP code, unless that step or a later one was
+   * already used
+   * @returns {Promise<boolean>} False when the code was already used, e.g. by a concurrent request
+   */
+  public async claimMfaStep(id: number, step: number) {
+    const [result] = await db
+      .update(userSchema)
+      .set({ mfa_last_used_step: step })
+      .where(
+        and(
+          eq(userSchema.id, id),
+          or(isNull(userSchema.mfa_last_used_step), lt(userSchema.mfa_last_used_step, step)),
+        ),
+      );
+    return result.affectedRows === 1;
+  }
+
+  /**
+   * Removes a hashed recovery code, unless it was already removed
+   * @returns {Promise<boolean>} False when the code was already used, e.g. by a concurrent request
+   */
+  public async removeRecoveryCode(id: number, hash: string) {
+    const [result] = await db
+      .update(userSchema)
+      .set({
+        mfa_recovery_codes: sql`JSON_REMOVE(${userSchema.mfa_recovery_codes}, JSON_UNQUOTE(JSON_SEARCH(${userSchema.mfa_recovery_codes}, 'one', ${hash})))`,
+      })
+      .where(
+        and(
+          eq(userSchema.id, id),
+          sql`JSON_CONTAINS(${userSchema.mfa_recovery_codes}, JSON_QUOTE(${hash}))`,
+        ),
+      );
+    return result.affectedRows === 1;
+  }
+
+  public async incrementFailedLogins(id: number) {
+    return db
+      .update(userSchema)
+      .set({ failed_login_attempts: sql`${userSchema.failed_login_attempts} + 1` })
+      .where(eq(userSchema.id, id));
+  }
+
   public async delete(id: number) {
     return db.delete(userSchema).where(eq(userSchema.id, id));
   }
+
+  /**
+   * Replaces a user's personal data and removes the records they own, in one transaction.
+   * Sessions and audit entries are kept for the security trail, stripped of personal details.
+   */
+  public async anonymise(id: number, user: Partial<User>) {
+    return db.transaction(async (tx) => {
+      await tx.delete(notificationsSchema).where(eq(notificationsSchema.user_id, id));
+      await tx.delete(emailsSchema).where(eq(emailsSchema.host_id, id));
+      await tx.delete(emailCampaignsSchema).where(eq(emailCampaignsSchema.host_id, id));
+      // Their scheduled steps, holding recipients' addresses, are deleted along with them
+      await tx.delete(followUpEmailsSchema).where(eq(followUpEmailsSchema.host_id, id));
+      await tx.delete(identitiesSchema).where(eq(identitiesSchema.user_id, id));
+      await tx.delete(apiKeysSchema).where(eq(apiKeysSchema.user_id, id));
+      await tx.delete(oneTimeCodesSchema).where(eq(oneTimeCodesSchema.user_id, id));
+      await tx
+        .update(sessionsSchema)
+        .set({ device: null, ip_address: null, user_agent: null })
+        .where(eq(sessionsSchema.user_id, id));
+      await tx
+        .update(auditLogsSchema)
+        .set({ ip_address: null, user_agent: null })
+        .where(eq(auditLogsSchema.actor_id, id));
+      // Changes recorded against the account hold its old name, email and phone
+      await tx
+        .update(auditLogsSchema)
+        .set({ changes: null })
+        .where(
+          and(eq(auditLogsSchema.entity_type, 'user'), eq(auditLogsSchema.entity_id, String(id))),
+        );
+      // Delivery events of account emails are only linked to the address they went to
+      const [current] = await tx
+        .select({ email: userSchema.email })
+        .from(userSchema)
+        .where(eq(userSchema.id, id));
+      if (current) {
+        await tx.delete(emailEventsSchema).where(eq(emailEventsSchema.recipient, current.email));
+      }
+      // The host's own list of who not to mail goes with their account
+      await tx.delete(emailSuppressionsSchema).where(eq(emailSuppressionsSchema.host_id, id));
+      await tx.update(userSchema).set(user).where(eq(userSchema.id, id));
+    });
+  }
 }
@@ -0,0 +1,16 @@
+CREATE TABLE `sessions` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`refresh_token_hash` varchar(255) NOT NULL,
+	`device` varchar(255),
+	`ip_address` varchar(45),
+	`user_agent` text,
+	`last_used_at` timestamp DEFAULT (now()),
+	`expires_at` timestamp NOT NULL,
+	`revoked_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `sessions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `sessions` ADD CONSTRAINT `sessions_user_id_user_id_fk` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
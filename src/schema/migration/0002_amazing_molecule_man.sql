@@ -0,0 +1,4 @@
+ALTER TABLE `user` ADD `mfa_enabled` boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE `user` ADD `mfa_secret` varchar(255);--> statement-breakpoint
+ALTER TABLE `user` ADD `mfa_recovery_codes` json;--> statement-breakpoint
+ALTER TABLE `user` ADD `mfa_last_used_step` int;
\ No newline at end of file
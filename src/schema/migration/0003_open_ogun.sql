@@ -0,0 +1,15 @@
+CREATE TABLE `one_time_codes` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`purpose` enum('email_verification','password_reset') NOT NULL,
+	`code_hash` varchar(255) NOT NULL,
+	`attempts` int NOT NULL DEFAULT 0,
+	`expires_at` timestamp NOT NULL,
+	`consumed_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `one_time_codes_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `one_time_codes` ADD CONSTRAINT `one_time_codes_user_id_user_id_fk` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `user` DROP COLUMN `reset_token`;--> statement-breakpoint
+ALTER TABLE `user` DROP COLUMN `email_token`;
\ No newline at end of file
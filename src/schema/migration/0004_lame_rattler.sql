@@ -0,0 +1,4 @@
+ALTER TABLE `one_time_codes` MODIFY COLUMN `purpose` enum('email_verification','password_reset','account_unlock') NOT NULL;--> statement-breakpoint
+ALTER TABLE `user` ADD `failed_login_attempts` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `user` ADD `lockout_count` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `user` ADD `locked_until` timestamp;
\ No newline at end of file
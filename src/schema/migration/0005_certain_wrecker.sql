@@ -0,0 +1,19 @@
+CREATE TABLE `impersonations` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`admin_id` int NOT NULL,
+	`user_id` int NOT NULL,
+	`session_id` int NOT NULL,
+	`reason` varchar(255),
+	`ip_address` varchar(45),
+	`user_agent` text,
+	`started_at` timestamp DEFAULT (now()),
+	`expires_at` timestamp NOT NULL,
+	`ended_at` timestamp,
+	CONSTRAINT `impersonations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `sessions` ADD `impersonator_id` int;--> statement-breakpoint
+ALTER TABLE `impersonations` ADD CONSTRAINT `impersonations_admin_id_user_id_fk` FOREIGN KEY (`admin_id`) REFERENCES `user`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `impersonations` ADD CONSTRAINT `impersonations_user_id_user_id_fk` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `impersonations` ADD CONSTRAINT `impersonations_session_id_sessions_id_fk` FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `sessions` ADD CONSTRAINT `sessions_impersonator_id_user_id_fk` FOREIGN KEY (`impersonator_id`) REFERENCES `user`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `audit_logs` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`actor_id` int,
+	`impersonator_id` int,
+	`action` varchar(100) NOT NULL,
+	`entity_type` varchar(50),
+	`entity_id` varchar(64),
+	`status` int NOT NULL,
+	`changes` json,
+	`ip_address` varchar(45),
+	`user_agent` text,
+	`trace_id` varchar(32),
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `audit_logs_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `audit_logs` ADD CONSTRAINT `audit_logs_actor_id_user_id_fk` FOREIGN KEY (`actor_id`) REFERENCES `user`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `audit_logs` ADD CONSTRAINT `audit_logs_impersonator_id_user_id_fk` FOREIGN KEY (`impersonator_id`) REFERENCES `user`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `one_time_codes` MODIFY COLUMN `purpose` enum('email_verification','password_reset','account_unlock','magic_link') NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `one_time_codes` MODIFY COLUMN `purpose` enum('email_verification','password_reset','account_unlock','magic_link','email_change','email_change_cancel') NOT NULL;--> statement-breakpoint
+ALTER TABLE `user` ADD `pending_email` varchar(100);
\ No newline at end of file
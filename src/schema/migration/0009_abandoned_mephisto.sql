@@ -0,0 +1 @@
+ALTER TABLE `user` MODIFY COLUMN `auth_provider` enum('local','google','oauth') DEFAULT 'local';
\ No newline at end of file
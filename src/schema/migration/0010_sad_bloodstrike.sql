@@ -0,0 +1,13 @@
+CREATE TABLE `identities` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`provider` varchar(50) NOT NULL,
+	`subject` varchar(255) NOT NULL,
+	`email` varchar(255),
+	`created_at` timestamp DEFAULT (now()),
+	`last_used_at` timestamp,
+	CONSTRAINT `identities_id` PRIMARY KEY(`id`),
+	CONSTRAINT `identities_provider_subject_idx` UNIQUE(`provider`,`subject`)
+);
+--> statement-breakpoint
+ALTER TABLE `identities` ADD CONSTRAINT `identities_user_id_user_id_fk` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `one_time_codes` MODIFY COLUMN `purpose` enum('email_verification','password_reset','account_unlock','magic_link','email_change','email_change_cancel','account_restore') NOT NULL;--> statement-breakpoint
+ALTER TABLE `user` ADD `deletion_scheduled_at` timestamp;
\ No newline at end of file
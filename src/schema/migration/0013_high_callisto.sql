@@ -0,0 +1 @@
+ALTER TABLE `user` ADD `profile_picture_sizes` json;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `assets` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`key` varchar(512) NOT NULL,
+	`asset_type` enum('profile_picture','image','video','audio','document') NOT NULL,
+	`content_type` varchar(100) NOT NULL,
+	`size` bigint NOT NULL,
+	`duration` int,
+	`status` enum('pending','ready') NOT NULL DEFAULT 'pending',
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `assets_id` PRIMARY KEY(`id`),
+	CONSTRAINT `assets_key_unique` UNIQUE(`key`)
+);
+--> statement-breakpoint
+ALTER TABLE `assets` ADD CONSTRAINT `assets_user_id_user_id_fk` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE `emails` MODIFY COLUMN `status` enum('draft','queued','sending','sent','failed') DEFAULT 'draft';--> statement-breakpoint
+ALTER TABLE `emails` ADD `provider_message_id` varchar(255);--> statement-breakpoint
+ALTER TABLE `emails` ADD `attempts` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `emails` ADD `last_error` text;--> statement-breakpoint
+ALTER TABLE `emails` ADD `queued_at` timestamp;--> statement-breakpoint
+ALTER TABLE `emails` ADD `last_attempt_at` timestamp;--> statement-breakpoint
+ALTER TABLE `emails` ADD `sent_at` timestamp;--> statement-breakpoint
+ALTER TABLE `emails` ADD `failed_at` timestamp;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `email_events` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`email_id` int,
+	`provider` varchar(50) NOT NULL,
+	`provider_message_id` varchar(255) NOT NULL,
+	`type` enum('delivered','soft_bounce','hard_bounce','complaint','opened','clicked','unsubscribed') NOT NULL,
+	`recipient` varchar(255) NOT NULL,
+	`reason` text,
+	`url` text,
+	`occurred_at` timestamp NOT NULL,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `email_events_id` PRIMARY KEY(`id`),
+	CONSTRAINT `email_events_dedupe_idx` UNIQUE(`provider`,`provider_message_id`,`type`,`occurred_at`)
+);
+--> statement-breakpoint
+ALTER TABLE `emails` MODIFY COLUMN `status` enum('draft','queued','sending','sent','delivered','opened','clicked','bounced','complained','failed') DEFAULT 'draft';--> statement-breakpoint
+ALTER TABLE `email_events` ADD CONSTRAINT `email_events_email_id_emails_id_fk` FOREIGN KEY (`email_id`) REFERENCES `emails`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `emails_provider_message_id_idx` ON `emails` (`provider_message_id`);
\ No newline at end of file
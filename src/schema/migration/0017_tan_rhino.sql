@@ -0,0 +1,18 @@
+CREATE TABLE `email_suppressions` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`host_id` int,
+	`email` varchar(255) NOT NULL,
+	`reason` enum('hard_bounce','complaint','manual','unsubscribed') NOT NULL,
+	`scope` enum('all','marketing') NOT NULL DEFAULT 'all',
+	`note` varchar(255),
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `email_suppressions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `email_suppressions_host_email_idx` UNIQUE(`host_id`,`email`)
+);
+--> statement-breakpoint
+ALTER TABLE `emails` MODIFY COLUMN `status` enum('draft','queued','sending','sent','delivered','opened','clicked','bounced','complained','suppressed','failed') DEFAULT 'draft';--> statement-breakpoint
+ALTER TABLE `emails` ADD `category` enum('transactional','marketing') DEFAULT 'marketing' NOT NULL;--> statement-breakpoint
+ALTER TABLE `emails` ADD `suppression_reason` enum('hard_bounce','complaint','manual','unsubscribed');--> statement-breakpoint
+ALTER TABLE `email_suppressions` ADD CONSTRAINT `email_suppressions_host_id_user_id_fk` FOREIGN KEY (`host_id`) REFERENCES `user`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `email_suppressions_email_idx` ON `email_suppressions` (`email`);
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE `email_campaigns` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`host_id` int NOT NULL,
+	`subject` varchar(255) NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`subtitle` varchar(255) NOT NULL,
+	`body` text NOT NULL,
+	`button_text` varchar(255) NOT NULL,
+	`button_link` varchar(255) NOT NULL,
+	`audience` json NOT NULL,
+	`status` enum('queued','sending','sent','cancelled') NOT NULL DEFAULT 'queued',
+	`recipient_count` int NOT NULL DEFAULT 0,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	`sent_at` timestamp,
+	`cancelled_at` timestamp,
+	CONSTRAINT `email_campaigns_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `emails` MODIFY COLUMN `status` enum('draft','queued','sending','sent','delivered','opened','clicked','bounced','complained','suppressed','cancelled','failed') DEFAULT 'draft';--> statement-breakpoint
+ALTER TABLE `emails` ADD `campaign_id` int;--> statement-breakpoint
+ALTER TABLE `email_campaigns` ADD CONSTRAINT `email_campaigns_host_id_user_id_fk` FOREIGN KEY (`host_id`) REFERENCES `user`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `emails` ADD CONSTRAINT `emails_campaign_id_email_campaigns_id_fk` FOREIGN KEY (`campaign_id`) REFERENCES `email_campaigns`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `emails_campaign_status_idx` ON `emails` (`campaign_id`,`status`);
\ No newline at end of file
@@ -0,0 +1,35 @@
+CREATE TABLE `follow_up_emails` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`host_id` int NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`content` text NOT NULL,
+	`follow_up_who_gets_it` json NOT NULL,
+	`timeline` int NOT NULL,
+	`enabled` boolean NOT NULL DEFAULT true,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `follow_up_emails_id` PRIMARY KEY(`id`),
+	CONSTRAINT `follow_up_emails_host_timeline_idx` UNIQUE(`host_id`,`timeline`)
+);
+--> statement-breakpoint
+CREATE TABLE `follow_up_steps` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`follow_up_id` int NOT NULL,
+	`host_id` int NOT NULL,
+	`email` varchar(255) NOT NULL,
+	`name` varchar(255) NOT NULL DEFAULT '',
+	`trigger` enum('new_lead','call_back','registered_for_event','attended_event') NOT NULL,
+	`status` enum('scheduled','sent','cancelled') NOT NULL DEFAULT 'scheduled',
+	`cancel_reason` enum('converted','suppressed','disabled'),
+	`email_id` int,
+	`send_at` timestamp NOT NULL,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `follow_up_steps_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `follow_up_emails` ADD CONSTRAINT `follow_up_emails_host_id_user_id_fk` FOREIGN KEY (`host_id`) REFERENCES `user`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `follow_up_steps` ADD CONSTRAINT `follow_up_steps_follow_up_id_follow_up_emails_id_fk` FOREIGN KEY (`follow_up_id`) REFERENCES `follow_up_emails`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `follow_up_steps` ADD CONSTRAINT `follow_up_steps_host_id_user_id_fk` FOREIGN KEY (`host_id`) REFERENCES `user`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `follow_up_steps` ADD CONSTRAINT `follow_up_steps_email_id_emails_id_fk` FOREIGN KEY (`email_id`) REFERENCES `emails`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `follow_up_steps_recipient_idx` ON `follow_up_steps` (`host_id`,`email`,`status`);
\ No newline at end of file
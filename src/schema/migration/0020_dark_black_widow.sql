@@ -0,0 +1 @@
+ALTER TABLE `sessions` ADD `rotated_token_hashes` json;
\ No newline at end of file
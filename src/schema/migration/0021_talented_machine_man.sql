@@ -0,0 +1 @@
+ALTER TABLE `follow_up_steps` MODIFY COLUMN `status` enum('scheduled','sending','sent','cancelled') NOT NULL DEFAULT 'scheduled';
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { relations } from 'drizzle-orm';
 import {
+  bigint,
   boolean,
+  index,
   int,
   json,
   mysqlEnum,
@@ -8,6 +10,7 @@ import {
   serial,
   text,
   timestamp,
+  uniqueIndex,
   varchar,
 } from 'drizzle-orm/mysql-core';
 
@@ -18,12 +21,12 @@ export const userSchema = mysqlTable('user', {
   phone: varchar('phone', { length: 100 }).notNull().default(''),
   dial_code: varchar('dial_code', { length: 10 }).notNull().default(''),
   password: varchar('password', { length: 255 }).notNull(),
-  reset_token: varchar('reset_token', { length: 255 }),
-  email_token: varchar('email_token', { length: 255 }),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
   role: mysqlEnum('role', ['user', 'role', 'admin']).default('user'),
   profile_picture: text('profile_picture'),
+  // URLs of the uploaded picture in each avatar size, keyed by size name
+  profile_picture_sizes: json('profile_picture_sizes').$type<Record<string, string>>(),
   bio: varchar('bio', { length: 255 }),
   custom_id: varchar('custom_id', { length: 255 }),
   is_verified: boolean('is_verified').default(false),
@@ -31,7 +34,17 @@ export const userSchema = mysqlTable('user', {
   is_deleted: boolean('is_deleted').default(false),
   google_id: varchar('google_id', { length: 255 }),
   google_access_token: varchar('google_access_token', { length: 255 }),
-  auth_provider: mysqlEnum('auth_provider', ['local', 'google']).default('local'),
+  auth_provider: mysqlEnum('auth_provider', ['local', 'google', 'oauth']).default('local'),
+  mfa_enabled: boolean('mfa_enabled').default(false),
+  mfa_secret: varchar('mfa_secret', { length: 255 }),
+  mfa_recovery_codes: json('mfa_recovery_codes').$type<string[]>(),
+  mfa_last_used_step: int('mfa_last_used_step'),
+  failed_login_attempts: int('failed_login_attempts').notNull().default(0),
+  lockout_count: int('lockout_count').notNull().default(0),
+  locked_until: timestamp('locked_until'),
+  pending_email: varchar('pending_email', { length: 100 }),
+  // Set when the owner deletes the account, personal data is erased once it passes
+  deletion_scheduled_at: timestamp('deletion_scheduled_at'),
 });
 
 export const notificationsSchema = mysqlTable('notifications', {
@@ -57,26 +70,347 @@ export const notificationsSchema = mysqlTable('notifications', {
   updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
 });
 
-export const emailsSchema = mysqlTable('emails', {
+// Who a campaign goes to, as chosen by the host. Resolved to recipients when it is created.
+export type CampaignAudience = {
+  type: 'event' | 'tag' | 'name';
+  filterType: 'everyone' | 'attended' | 'notAttended';
+  recipients: number[];
+  selectedMembership?: number;
+};
+
+export const emailCampaignsSchema = mysqlTable('email_campaigns', {
   id: serial('id').primaryKey(),
-  email: varchar('email', { length: 255 }).notNull(),
+  host_id: int('host_id')
+    .references(() => userSchema.id, { onDelete: 'cascade' })
+    .notNull(),
   subject: varchar('subject', { length: 255 }).notNull(),
   title: varchar('title', { length: 255 }).notNull(),
   subtitle: varchar('subtitle', { length: 255 }).notNull(),
   body: text('body').notNull(),
   button_text: varchar('button_text', { length: 255 }).notNull(),
   button_link: varchar('button_link', { length: 255 }).notNull(),
+  audience: json('audience').$type<CampaignAudience>().notNull(),
+  // queued -> sending while its emails are handed to the queue in batches -> sent, or cancelled
+  status: mysqlEnum('status', ['queued', 'sending', 'sent', 'cancelled'])
+    .notNull()
+    .default('queued'),
+  recipient_count: int('recipient_count').notNull().default(0),
   created_at: timestamp('created_at').defaultNow(),
-  checked: boolean('checked').default(false),
-  starred: boolean('starred').default(false),
-  flagged: boolean('flagged').default(false),
-  host_id: int('host_id')
+  updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+  sent_at: timestamp('sent_at'),
+  cancelled_at: timestamp('cancelled_at'),
+});
+
+export const emailsSchema = mysqlTable(
+  'emails',
+  {
+    id: serial('id').primaryKey(),
+    email: varchar('email', { length: 255 }).notNull(),
+    subject: varchar('subject', { length: 255 }).notNull(),
+    title: varchar('title', { length: 255 }).notNull(),
+    subtitle: varchar('subtitle', { length: 255 }).notNull(),
+    body: text('body').notNull(),
+    button_text: varchar('button_text', { length: 255 }).notNull(),
+    button_link: varchar('button_link', { length: 255 }).notNull(),
+    created_at: timestamp('created_at').defaultNow(),
+    checked: boolean('checked').default(false),
+    starred: boolean('starred').default(false),
+    flagged: boolean('flagged').default(false),
+    host_id: int('host_id')
+      .references(() => userSchema.id)
+      .notNull(),
+    campaign_id: int('campaign_id').references(() => emailCampaignsSchema.id, {
+      onDelete: 'cascade',
+    }),
+    // Marketing emails carry an unsubscribe link and are held back by marketing-only suppressions
+    category: mysqlEnum('category', ['transactional', 'marketing']).notNull().default('marketing'),
+    // queued -> sending -> sent, or back to queued between retries until it has failed. Once
+    // sent, the provider's webhooks move it on to delivered, opened and clicked, or bounced.
+    // Emails to suppressed addresses are never sent. Campaign emails wait as drafts until
+    // their batch is queued, and are cancelled with the campaign if they have not been sent.
+    status: mysqlEnum('status', [
+      'draft',
+      'queued',
+      'sending',
+      'sent',
+      'delivered',
+      'opened',
+      'clicked',
+      'bounced',
+      'complained',
+      'suppressed',
+      'cancelled',
+      'failed',
+    ]).default('draft'),
+    suppression_reason: mysqlEnum('suppression_reason', [
+      'hard_bounce',
+      'complaint',
+      'manual',
+      'unsubscribed',
+    ]),
+    provider_message_id: varchar('provider_message_id', { length: 255 }),
+    attempts: int('attempts').notNull().default(0),
+    last_error: text('last_error'),
+    queued_at: timestamp('queued_at'),
+    last_attempt_at: timestamp('last_attempt_at'),
+    sent_at: timestamp('sent_at'),
+    failed_at: timestamp('failed_at'),
+    updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+  },
+  (table) => [
+    index('emails_provider_message_id_idx').on(table.provider_message_id),
+    index('emails_campaign_status_idx').on(table.campaign_id, table.status),
+  ],
+);
+
+export const sessionsSchema = mysqlTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: int('user_id')
     .references(() => userSchema.id)
     .notNull(),
-  status: mysqlEnum('status', ['draft', 'sent', 'failed']).default('draft'),
+  refresh_token_hash: varchar('refresh_token_hash', { length: 255 }).notNull(),
+  // Hashes of the refresh tokens rotated out, presenting one of them again means it leaked
+  rotated_token_hashes: json('rotated_token_hashes').$type<string[]>(),
+  impersonator_id: int('impersonator_id').references(() => userSchema.id),
+  device: varchar('device', { length: 255 }),
+  ip_address: varchar('ip_address', { length: 45 }),
+  user_agent: text('user_agent'),
+  last_used_at: timestamp('last_used_at').defaultNow(),
+  expires_at: timestamp('expires_at').notNull(),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow(),
   updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
 });
 
+export const impersonationsSchema = mysqlTable('impersonations', {
+  id: serial('id').primaryKey(),
+  admin_id: int('admin_id')
+    .references(() => userSchema.id)
+    .notNull(),
+  user_id: int('user_id')
+    .references(() => userSchema.id)
+    .notNull(),
+  session_id: int('session_id')
+    .references(() => sessionsSchema.id)
+    .notNull(),
+  reason: varchar('reason', { length: 255 }),
+  ip_address: varchar('ip_address', { length: 45 }),
+  user_agent: text('user_agent'),
+  started_at: timestamp('started_at').defaultNow(),
+  expires_at: timestamp('expires_at').notNull(),
+  ended_at: timestamp('ended_at'),
+});
+
+// Accounts at OAuth providers that can sign in as a user, one user can link several
+export const identitiesSchema = mysqlTable(
+  'identities',
+  {
+    id: serial('id').primaryKey(),
+    user_id: int('user_id')
+      .references(() => userSchema.id)
+      .notNull(),
+    provider: varchar('provider', { length: 50 }).notNull(),
+    subject: varchar('subject', { length: 255 }).notNull(),
+    email: varchar('email', { length: 255 }),
+    created_at: timestamp('created_at').defaultNow(),
+    last_used_at: timestamp('last_used_at'),
+  },
+  (table) => [uniqueIndex('identities_provider_subject_idx').on(table.provider, table.subject)],
+);
+
+export const apiKeysSchema = mysqlTable('api_keys', {
+  id: serial('id').primaryKey(),
+  user_id: int('user_id')
+    .references(() => userSchema.id)
+    .notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  prefix: varchar('prefix', { length: 16 }).notNull(),
+  key_hash: varchar('key_hash', { length: 64 }).notNull().unique(),
+  scopes: json('scopes').$type<string[]>().notNull(),
+  last_used_at: timestamp('last_used_at'),
+  expires_at: timestamp('expires_at'),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow(),
+});
+
+// Files uploaded by users, stored through lib/storage.ts under `key`
+export const assetsSchema = mysqlTable('assets', {
+  id: serial('id').primaryKey(),
+  user_id: int('user_id')
+    .references(() => userSchema.id)
+    .notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  key: varchar('key', { length: 512 }).notNull().unique(),
+  asset_type: mysqlEnum('asset_type', [
+    'profile_picture',
+    'image',
+    'video',
+    'audio',
+    'document',
+  ]).notNull(),
+  content_type: varchar('content_type', { length: 100 }).notNull(),
+  // Declared when the upload is presigned, replaced by the stored size once it completes
+  size: bigint('size', { mode: 'number' }).notNull(),
+  duration: int('duration'), // seconds, for video and audio
+  status: mysqlEnum('status', ['pending', 'ready']).notNull().default('pending'),
+  created_at: timestamp('created_at').defaultNow(),
+  updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
+// What happened to sent emails, as reported by the mail provider's webhooks. Events for
+// emails sent outside the emails table, such as account emails, have no email_id.
+export const emailEventsSchema = mysqlTable(
+  'email_events',
+  {
+    id: serial('id').primaryKey(),
+    email_id: int('email_id').references(() => emailsSchema.id, { onDelete: 'cascade' }),
+    provider: varchar('provider', { length: 50 }).notNull(),
+    provider_message_id: varchar('provider_message_id', { length: 255 }).notNull(),
+    type: mysqlEnum('type', [
+      'delivered',
+      'soft_bounce',
+      'hard_bounce',
+      'complaint',
+      'opened',
+      'clicked',
+      'unsubscribed',
+    ]).notNull(),
+    recipient: varchar('recipient', { length: 255 }).notNull(),
+    reason: text('reason'),
+    url: text('url'), // the link, for clicks
+    occurred_at: timestamp('occurred_at').notNull(),
+    created_at: timestamp('created_at').defaultNow(),
+  },
+  // Providers resend events they think were missed
+  (table) => [
+    uniqueIndex('email_events_dedupe_idx').on(
+      table.provider,
+      table.provider_message_id,
+      table.type,
+      table.occurred_at,
+    ),
+  ],
+);
+
+export const emailSuppressionsSchema = mysqlTable(
+  'email_suppressions',
+  {
+    id: serial('id').primaryKey(),
+    // The host whose mail the address is suppressed from, or null for all mail we send, as
+    // after a hard bounce or a spam complaint
+    host_id: int('host_id').references(() => userSchema.id, { onDelete: 'cascade' }),
+    email: varchar('email', { length: 255 }).notNull(),
+    reason: mysqlEnum('reason', ['hard_bounce', 'complaint', 'manual', 'unsubscribed']).notNull(),
+    scope: mysqlEnum('scope', ['all', 'marketing']).notNull().default('all'),
+    note: varchar('note', { length: 255 }),
+    created_at: timestamp('created_at').defaultNow(),
+    updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+  },
+  (table) => [
+    uniqueIndex('email_suppressions_host_email_idx').on(table.host_id, table.email),
+    index('email_suppressions_email_idx').on(table.email),
+  ],
+);
+
+const FOLLOW_UP_TRIGGERS = [
+  'new_lead',
+  'call_back',
+  'registered_for_event',
+  'attended_event',
+] as const;
+
+export const followUpEmailsSchema = mysqlTable(
+  'follow_up_emails',
+  {
+    id: serial('id').primaryKey(),
+    host_id: int('host_id')
+      .references(() => userSchema.id, { onDelete: 'cascade' })
+      .notNull(),
+    title: varchar('title', { length: 255 }).notNull(),
+    content: text('content').notNull(),
+    // The events that start the follow-up for a recipient
+    follow_up_who_gets_it: json('follow_up_who_gets_it')
+      .$type<(typeof FOLLOW_UP_TRIGGERS)[number][]>()
+      .notNull(),
+    // Days after the event that the email is sent
+    timeline: int('timeline').notNull(),
+    enabled: boolean('enabled').notNull().default(true),
+    created_at: timestamp('created_at').defaultNow(),
+    updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+  },
+  (table) => [uniqueIndex('follow_up_emails_host_timeline_idx').on(table.host_id, table.timeline)],
+);
+
+export const followUpStepsSchema = mysqlTable(
+  'follow_up_steps',
+  {
+    id: serial('id').primaryKey(),
+    follow_up_id: int('follow_up_id')
+      .references(() => followUpEmailsSchema.id, { onDelete: 'cascade' })
+      .notNull(),
+    host_id: int('host_id')
+      .references(() => userSchema.id, { onDelete: 'cascade' })
+      .notNull(),
+    email: varchar('email', { length: 255 }).notNull(),
+    name: varchar('name', { length: 255 }).notNull().default(''),
+    trigger: mysqlEnum('trigger', FOLLOW_UP_TRIGGERS).notNull(),
+    // scheduled until its delayed job runs, which claims it as sending, then sent once the
+    // email is queued
+    status: mysqlEnum('status', ['scheduled', 'sending', 'sent', 'cancelled'])
+      .notNull()
+      .default('scheduled'),
+    cancel_reason: mysqlEnum('cancel_reason', ['converted', 'suppressed', 'disabled']),
+    email_id: int('email_id').references(() => emailsSchema.id, { onDelete: 'set null' }),
+    send_at: timestamp('send_at').notNull(),
+    created_at: timestamp('created_at').defaultNow(),
+    updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+  },
+  (table) => [index('follow_up_steps_recipient_idx').on(table.host_id, table.email, table.status)],
+);
+
+export type AuditChanges = {
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+};
+
+export const auditLogsSchema = mysqlTable('audit_logs', {
+  id: serial('id').primaryKey(),
+  actor_id: int('actor_id').references(() => userSchema.id),
+  impersonator_id: int('impersonator_id').references(() => userSchema.id),
+  action: varchar('action', { length: 100 }).notNull(),
+  entity_type: varchar('entity_type', { length: 50 }),
+  entity_id: varchar('entity_id', { length: 64 }),
+  status: int('status').notNull(),
+  changes: json('changes').$type<AuditChanges>(),
+  ip_address: varchar('ip_address', { length: 45 }),
+  user_agent: text('user_agent'),
+  trace_id: varchar('trace_id', { length: 32 }),
+  created_at: timestamp('created_at').defaultNow(),
+});
+
+export const oneTimeCodesSchema = mysqlTable('one_time_codes', {
+  id: serial('id').primaryKey(),
+  user_id: int('user_id')
+    .references(() => userSchema.id)
+    .notNull(),
+  purpose: mysqlEnum('purpose', [
+    'email_verification',
+    'password_reset',
+    'account_unlock',
+    'magic_link',
+    'email_change',
+    'email_change_cancel',
+    'account_restore',
+  ]).notNull(),
+  code_hash: varchar('code_hash', { length: 255 }).notNull(),
+  attempts: int('attempts').notNull().default(0),
+  expires_at: timestamp('expires_at').notNull(),
+  consumed_at: timestamp('consumed_at'),
+  created_at: timestamp('created_at').defaultNow(),
+});
+
+export type EmailCampaign = typeof emailCampaignsSchema.$inferSelect;
+export type NewEmailCampaign = typeof emailCampaignsSchema.$inferInsert;
 export type Email = typeof emailsSchema.$inferSelect;
 export type Notification = typeof notificationsSchema.$inferSelect;
 export type NewNotification = typeof notificationsSchema.$inferInsert;
@@ -84,6 +418,34 @@ export type NewEmail = typeof emailsSchema.$inferInsert;
 export type User = typeof userSchema.$inferSelect;
 
 export type NewUser = typeof userSchema.$inferInsert;
+export type Session = typeof sessionsSchema.$inferSelect;
+export type NewSession = typeof sessionsSchema.$inferInsert;
+export type Impersonation = typeof impersonationsSchema.$inferSelect;
+export type NewImpersonation = typeof impersonationsSchema.$inferInsert;
+export type Identity = typeof identitiesSchema.$inferSelect;
+export type NewIdentity = typeof identitiesSchema.$inferInsert;
+export type ApiKey = typeof apiKeysSchema.$inferSelect;
+export type NewApiKey = typeof apiKeysSchema.$inferInsert;
+export type Asset = typeof assetsSchema.$inferSelect;
+export type NewAsset = typeof assetsSchema.$inferInsert;
+export type AssetType = Asset['asset_type'];
+export type EmailEvent = typeof emailEventsSchema.$inferSelect;
+export type NewEmailEvent = typeof emailEventsSchema.$inferInsert;
+export type EmailEventType = EmailEvent['type'];
+export type EmailSuppression = typeof emailSuppressionsSchema.$inferSelect;
+export type NewEmailSuppression = typeof emailSuppressionsSchema.$inferInsert;
+export type SuppressionReason = EmailSuppression['reason'];
+export type EmailCategory = Email['category'];
+export type FollowUpEmail = typeof followUpEmailsSchema.$inferSelect;
+export type NewFollowUpEmail = typeof followUpEmailsSchema.$inferInsert;
+export type FollowUpTrigger = (typeof FOLLOW_UP_TRIGGERS)[number];
+export type FollowUpStep = typeof followUpStepsSchema.$inferSelect;
+export type NewFollowUpStep = typeof followUpStepsSchema.$inferInsert;
+export type AuditLog = typeof auditLogsSchema.$inferSelect;
+export type NewAuditLog = typeof auditLogsSchema.$inferInsert;
+export type OneTimeCode = typeof oneTimeCodesSchema.$inferSelect;
+export type NewOneTimeCode = typeof oneTimeCodesSchema.$inferInsert;
+export type OneTimeCodePurpose = OneTimeCode['purpose'];
 
 // Define relations
 
@@ -99,6 +461,112 @@ export const mailRelations = relations(emailsSchema, ({ one }) => ({
     fields: [emailsSchema.host_id],
     references: [userSchema.id],
   }),
+  campaign: one(emailCampaignsSchema, {
+    fields: [emailsSchema.campaign_id],
+    references: [emailCampaignsSchema.id],
+  }),
+}));
+
+export const emailCampaignRelations = relations(emailCampaignsSchema, ({ one, many }) => ({
+  host: one(userSchema, {
+    fields: [emailCampaignsSchema.host_id],
+    references: [userSchema.id],
+  }),
+  emails: many(emailsSchema),
+}));
+
+export const sessionRelations = relations(sessionsSchema, ({ one }) => ({
+  user: one(userSchema, {
+    fields: [sessionsSchema.user_id],
+    references: [userSchema.id],
+  }),
+  impersonator: one(userSchema, {
+    fields: [sessionsSchema.impersonator_id],
+    references: [userSchema.id],
+  }),
+}));
+
+export const impersonationRelations = relations(impersonationsSchema, ({ one }) => ({
+  admin: one(userSchema, {
+    fields: [impersonationsSchema.admin_id],
+    references: [userSchema.id],
+  }),
+  user: one(userSchema, {
+    fields: [impersonationsSchema.user_id],
+    references: [userSchema.id],
+  }),
+  session: one(sessionsSchema, {
+    fields: [impersonationsSchema.session_id],
+    references: [sessionsSchema.id],
+  }),
+}));
+
+export const identityRelations = relations(identitiesSchema, ({ one }) => ({
+  user: one(userSchema, {
+    fields: [identitiesSchema.user_id],
+    references: [userSchema.id],
+  }),
+}));
+
+export const apiKeyRelations = relations(apiKeysSchema, ({ one }) => ({
+  user: one(userSchema, {
+    fields: [apiKeysSchema.user_id],
+    references: [userSchema.id],
+  }),
+}));
+
+export const assetRelations = relations(assetsSchema, ({ one }) => ({
+  user: one(userSchema, {
+    fields: [assetsSchema.user_id],
+    references: [userSchema.id],
+  }),
+}));
+
+export const emailEventRelations = relations(emailEventsSchema, ({ one }) => ({
+  email: one(emailsSchema, {
+    fields: [emailEventsSchema.email_id],
+    references: [emailsSchema.id],
+  }),
+}));
+
+export const emailSuppressionRelations = relations(emailSuppressionsSchema, ({ one }) => ({
+  host: one(userSchema, {
+    fields: [emailSuppressionsSchema.host_id],
+    references: [userSchema.id],
+  }),
+}));
+
+export const followUpEmailRelations = relations(followUpEmailsSchema, ({ one, many }) => ({
+  host: one(userSchema, {
+    fields: [followUpEmailsSchema.host_id],
+    references: [userSchema.id],
+  }),
+  steps: many(followUpStepsSchema),
+}));
+
+export const followUpStepRelations = relations(followUpStepsSchema, ({ one }) => ({
+  followUp: one(followUpEmailsSchema, {
+    fields: [followUpStepsSchema.follow_up_id],
+    references: [followUpEmailsSchema.id],
+  }),
+  email: one(emailsSchema, {
+    fields: [followUpStepsSchema.email_id],
+    references: [emailsSchema.id],
+  }),
+}));
+
+export const auditLogRelations = relations(auditLogsSchema, ({ one }) => ({
+  actor: one(userSchema, {
+    fields: [auditLogsSchema.actor_id],
+    references: [userSchema.id],
+  }),
+}));
+
+export const oneTimeCodeRelations = relations(oneTimeCodesSchema, ({ one }) => ({
+  user: one(userSchema, {
+    fields: [oneTimeCodesSchema.user_id],
+    references: [userSchema.id],
+  }),
 }));
 
 // Define relations
@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+
+import env from '../lib/env.ts';
+import { logger } from '../lib/logger.ts';
+import { hashPassword } from '../lib/password.ts';
+import type { UserRepository } from '../repository/user.ts';
+import type { User } from '../schema/schema.ts';
+import scheduleUserAnonymisation from '../task/client/scheduleUserAnonymisation.ts';
+import { sendTransactionalEmail } from '../task/email-processor.ts';
+import type { AssetService } from './asset.ts';
+import type { OneTimeCodeService } from './one-time-code.ts';
+import type { ProfileImageService } from './profile-image.ts';
+import type { SessionService } from './session.ts';
+
+const GRACE_PERIOD = 30 * 24 * 60 * 60 * 1000; // 30 days to change your mind
+
+/**
+ * Service class for accounts deleted by their owner. The account is closed straight away
+ * and can be restored during a grace period, after which its personal data is erased and
+ * the records it owns are removed.
+ */
+export class AccountDeletionService {
+  private repo: UserRepository;
+  private oneTimeCodeService: OneTimeCodeService;
+  private sessionService: SessionService;
+  private profileImageService: ProfileImageService;
+  private assetService: AssetService;
+
+  constructor(
+    userRepository: UserRepository,
+    oneTimeCodeService: OneTimeCodeService,
+    sessionService: SessionService,
+    profileImageService: ProfileImageService,
+    assetService: AssetService,
+  ) {
+    this.repo = userRepository;
+    this.oneTimeCodeService = oneTimeCodeService;
+    this.sessionService = sessionService;
+    this.profileImageService = profileImageService;
+    this.assetService = assetService;
+  }
+
+  /**
+   * Closes the account, signs it out everywhere and schedules the erasure of its data.
+   * The owner is sent a link to restore the account until then.
+   * @param {User} user - The user deleting their account
+   * @returns {Promise<Date>} When the account's data will be erased
+   * @throws {Error} When updating the user or scheduling the erasure fails
+   */
+  public async schedule(user: User): Promise<Date> {
+    try {
+      const deleteAt = new Date(Date.now() + GRACE_PERIOD);
+      await this.repo.update(user.id, { is_deleted: true, deletion_scheduled_at: deleteAt });
+      await this.sessionService.revokeAllForUser(user.id);
+      await scheduleUserAnonymisation(user.id, GRACE_PERIOD);
+
+      const restore = await this.oneTimeCodeService.issue(user.id, 'account_restore');
+      if ('code' in restore) {
+        const link = `${env.FRONTEND_URL}/restore-account?token=${restore.code}&email=${encodeURIComponent(user.email)}`;
+        await sendTransactionalEmail(user.email, user.name, 'notice', {
+          subject: 'Your account has been deleted',
+          title: 'Account deleted',
+          subtitle: `Your data will be erased on ${deleteAt.toUTCString()}`,
+          body: `Your ${env.BRAND_NAME} account has been closed and you have been signed out of all devices. Your personal data will be erased for good in 30 days. If you change your mind, or this was not you, restore your account using the button below before then.`,
+          buttonText: 'Restore my account',
+          buttonLink: link,
+        });
+      }
+
+      return deleteAt;
+    } catch (error) {
+      logger.error('Failed to schedule account deletion:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reopens an account during its grace period with the link sent when it was deleted
+   * @param {User} user - The deleted user
+   * @param {string} token - The restore token from the link
+   * @returns {Promise<boolean>} True when the token was valid and the account restored
+   * @throws {Error} When updating the user fails
+   */
+  public async restore(user: User, token: string): Promise<boolean> {
+    if (!user.is_deleted || !user.deletion_scheduled_at) {
+      return false;
+    }
+
+    try {
+      const isValid = await this.oneTimeCodeService.verify(user.id, 'account_restore', token);
+      if (!isValid) {
+        return false;
+      }
+
+      // The scheduled job finds the account restored and leaves it alone
+      await this.repo.update(user.id, { is_deleted: false, deletion_scheduled_at: null });
+      return true;
+    } catch (error) {
+      logger.error('Failed to restore account:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Erases the personal data of an account whose grace period has ended and removes the
+   * records it owns. The row itself is kept so references from other records stay valid.
+   * @param {number} userId - ID of the deleted user
+   * @returns {Promise<boolean>} True when the account was anonymised, false when it was restored or is not due yet
+   * @throws {Error} When the erasure fails
+   */
+  public async anonymise(userId: number): Promise<boolean> {
+    try {
+      const user = await this.repo.find(userId);
+      if (
+        !user ||
+        !user.is_deleted ||
+        !user.deletion_scheduled_at ||
+        user.deletion_scheduled_at.getTime() > Date.now()
+      ) {
+        return false;
+      }
+
+      await this.profileImageService.deleteFiles(user);
+      await this.assetService.removeAllForUser(userId);
+      await this.repo.anonymise(userId, {
+        name: 'Deleted user',
+        // Kept unique and undeliverable, so the address can be registered again
+        email: `deleted-${userId}@deleted.invalid`,
+        pending_email: null,
+        phone: '',
+        dial_code: '',
+        password: await hashPassword(crypto.randomUUID()),
+        profile_picture: null,
+        profile_picture_sizes: null,
+        bio: null,
+        custom_id: null,
+        google_id: null,
+        google_access_token: null,
+        mfa_enabled: false,
+        mfa_secret: null,
+        mfa_recovery_codes: null,
+        mfa_last_used_step: null,
+        deletion_scheduled_at: null,
+      });
+      return true;
+    } catch (error) {
+      logger.error('Failed to anonymise user:', error);
+      throw error;
+    }
+  }
+}
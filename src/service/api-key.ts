@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+
+import env from '../lib/env.ts';
+import { logger } from '../lib/logger.ts';
+import type { Permission } from '../lib/permissions.ts';
+import type { ApiKeyRepository } from '../repository/api-key.ts';
+import type { ApiKey } from '../schema/schema.ts';
+
+const KEY_PREFIX = 'hk_';
+const DISPLAY_PREFIX_LENGTH = 11; // `hk_` and the first 8 characters of the secret
+const LAST_USED_RESOLUTION = 60 * 1000; // write last_used_at at most once a minute
+
+/**
+ * Service class for personal API keys, which let integrations call the API as a user
+ * with a limited set of permissions. Only a hash of each key is stored.
+ */
+export class ApiKeyService {
+  private repo: ApiKeyRepository;
+
+  constructor(apiKeyRepo: ApiKeyRepository) {
+    this.repo = apiKeyRepo;
+  }
+
+  private hash(key: string) {
+    return crypto.createHmac('sha256', env.SECRET_KEY).update(key).digest('hex');
+  }
+
+  /**
+   * Creates a key. The plain key is only returned here and cannot be retrieved later.
+   * @param {number} userId - ID of the user the key acts as
+   * @param {string} name - Name to tell the key apart, e.g. the integration using it
+   * @param {Permission[]} scopes - Permissions the key is limited to
+   * @param {Date|null} expiresAt - When the key stops working, or null to never expire
+   * @returns {Promise<{key: string, apiKey: ApiKey}>} The plain key and its stored record
+   * @throws {Error} When storing the key fails
+   */
+  public async create(userId: number, name: string, scopes: Permission[], expiresAt: Date | null) {
+    try {
+      const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+      const [{ id }] = await this.repo.create({
+        user_id: userId,
+        name,
+        prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        key_hash: this.hash(key),
+        scopes: [...new Set(scopes)],
+        expires_at: expiresAt,
+      });
+      const apiKey = (await this.repo.find(id)) as ApiKey;
+      return { key, apiKey };
+    } catch (error) {
+      logger.error('Failed to create API key:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the keys of a user that have not been revoked, including expired ones
+   * @param {number} userId - ID of the user
+   * @returns {Promise<ApiKey[]>} The user's keys, newest first
+   * @throws {Error} When the lookup fails
+   */
+  public async findActiveByUserId(userId: number) {
+    try {
+      return await this.repo.findActiveByUserId(userId);
+    } catch (error) {
+      logger.error('Failed to find API keys by user ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revokes one of a user's keys
+   * @param {number} userId - ID of the user who owns the key
+   * @param {number} id - ID of the key
+   * @returns {Promise<ApiKey|undefined>} The revoked key, or undefined when the user has no such key
+   * @throws {Error} When revoking the key fails
+   */
+  public async revoke(userId: number, id: number) {
+    try {
+      const apiKey = await this.repo.find(id);
+      if (!apiKey || apiKey.user_id !== userId || apiKey.revoked_at) {
+        return undefined;
+      }
+
+      await this.repo.revoke(id);
+      return apiKey;
+    } catch (error) {
+      logger.error('Failed to revoke API key:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Looks up the key presented with a request and records that it was used
+   * @param {string} key - The plain key from the Authorization header
+   * @returns {Promise<ApiKey|null>} The key, or null when unknown, revoked or expired
+   * @throws {Error} When the lookup fails
+   */
+  public async authenticate(key: string): Promise<ApiKey | null> {
+    try {
+      if (!key.startsWith(KEY_PREFIX)) {
+        return null;
+      }
+      const apiKey = await this.repo.findByHash(this.hash(key));
+      if (
+        !apiKey ||
+        apiKey.revoked_at ||
+        (apiKey.expires_at && apiKey.expires_at.getTime() <= Date.now())
+      ) {
+        return null;
+      }
+
+      if (
+        !apiKey.last_used_at ||
+        Date.now() - apiKey.last_used_at.getTime() > LAST_USED_RESOLUTION
+      ) {
+        await this.repo.touch(apiKey.id);
+      }
+      return apiKey;
+    } catch (error) {
+      logger.error('Failed to authenticate API key:', error);
+      throw error;
+    }
+  }
+}
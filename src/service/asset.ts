@@ -0,0 +1,291 @@
+import env from '../lib/env.ts';
+import { logger } from '../lib/logger.ts';
+import {
+  type PresignedUpload,
+  storage as defaultStorage,
+  type StorageDriver,
+} from '../lib/storage.ts';
+import type { AssetRepository } from '../repository/asset.ts';
+import type { Asset, AssetType } from '../schema/schema.ts';
+import scheduleAssetCleanup from '../task/client/scheduleAssetCleanup.ts';
+import { generateAssetKey } from '../util/string.ts';
+
+const MB = 1024 * 1024;
+
+const ASSET_RULES: Record<AssetType, { maxSize: number; contentTypes: string[] }> = {
+  profile_picture: {
+    maxSize: 5 * MB,
+    contentTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+  },
+  image: {
+    maxSize: 20 * MB,
+    contentTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif'],
+  },
+  video: {
+    maxSize: 1024 * MB,
+    contentTypes: ['video/mp4', 'video/webm', 'video/quicktime'],
+  },
+  audio: {
+    maxSize: 200 * MB,
+    contentTypes: ['audio/mpeg', 'audio/mp4', 'audio/aac', 'audio/wav', 'audio/ogg', 'audio/webm'],
+  },
+  document: {
+    maxSize: 50 * MB,
+    contentTypes: [
+      'application/pdf',
+      'text/plain',
+      'text/csv',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-powerpoint',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    ],
+  },
+};
+
+const MAX_ASSET_SIZE = Math.max(...Object.values(ASSET_RULES).map((rule) => rule.maxSize));
+const UPLOAD_TTL = 60 * 15; // 15 minutes to start the upload
+const DOWNLOAD_TTL = 60 * 60; // 1 hour
+// Pending assets are dropped once their upload URL has expired, with time for slow uploads
+const PENDING_TTL = UPLOAD_TTL + 60 * 60;
+
+type UploadRequest = {
+  fileName: string;
+  contentType: string;
+  size: number;
+  assetType: AssetType;
+  duration?: number;
+};
+
+type UploadResult =
+  | { asset: Asset; upload: PresignedUpload }
+  | { error: 'unsupported_type' | 'too_large' | 'quota_exceeded' };
+
+type CompleteResult = { asset: Asset } | { error: 'not_uploaded' | 'too_large' };
+
+/**
+ * Service class for the files in a user's asset library. Files go straight from the
+ * client to storage with presigned URLs, and their sizes count against a per-user quota.
+ */
+export class AssetService {
+  private repo: AssetRepository;
+  private storage: StorageDriver;
+
+  /**
+   * Creates an instance of AssetService
+   * @param {AssetRepository} assetRepo - Repository for asset records
+   * @param {StorageDriver} [storage] - Where the files are kept, defaults to the driver configured in env
+   */
+  constructor(assetRepo: AssetRepository, storage = defaultStorage) {
+    this.repo = assetRepo;
+    this.storage = storage;
+  }
+
+  /**
+   * Reports how much of their quota a user has used
+   * @param {number} userId - ID of the user
+   * @returns {Promise<{used: number, quota: number}>} Bytes used, including pending uploads, and the quota
+   * @throws {Error} When the lookup fails
+   */
+  public async getUsage(userId: number) {
+    try {
+      const used = await this.repo.getUsage(userId);
+      return { used, quota: env.ASSET_QUOTA_BYTES };
+    } catch (error) {
+      logger.error('Failed to get asset usage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reserves space for a file and creates a pending asset the client can upload it to
+   * @param {number} userId - ID of the user uploading
+   * @param {UploadRequest} request - The file's name, type and size
+   * @returns {Promise<UploadResult>} The pending asset and where to upload it, or why not
+   * @throws {Error} When the asset cannot be created or the URL signed
+   */
+  public async createUpload(userId: number, request: UploadRequest): Promise<UploadResult> {
+    const rule = ASSET_RULES[request.assetType];
+    if (!rule.contentTypes.includes(request.contentType)) {
+      return { error: 'unsupported_type' };
+    }
+    if (request.size > rule.maxSize) {
+      return { error: 'too_large' };
+    }
+
+    try {
+      const { used, quota } = await this.getUsage(userId);
+      if (used + request.size > quota) {
+        return { error: 'quota_exceeded' };
+      }
+
+      const key = generateAssetKey(request.fileName, request.assetType);
+      const [{ id }] = await this.repo.create({
+        user_id: userId,
+        name: request.fileName,
+        key,
+        asset_type: request.assetType,
+        content_type: request.contentType,
+        size: request.size,
+        duration: request.duration ?? null,
+      });
+      await scheduleAssetCleanup(id, PENDING_TTL * 1000);
+
+      const upload = await this.storage.presignUpload(key, {
+        contentType: request.contentType,
+        maxSize: request.size,
+        expiresIn: UPLOAD_TTL,
+      });
+      const asset = (await this.repo.find(id)) as Asset;
+      return { asset, upload };
+    } catch (error) {
+      logger.error('Failed to create asset upload:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marks a pending asset ready once its file is in storage, recording the stored size
+   * @param {Asset} asset - The pending asset
+   * @param {{name?: string, duration?: number}} details - Optional name and duration to save with it
+   * @returns {Promise<CompleteResult>} The ready asset, or why it could not be completed
+   * @throws {Error} When storage or the database cannot be reached
+   */
+  public async completeUpload(
+    asset: Asset,
+    details: { name?: string; duration?: number },
+  ): Promise<CompleteResult> {
+    try {
+      const stored = await this.storage.stat(asset.key);
+      if (!stored) {
+        return { error: 'not_uploaded' };
+      }
+      // Storage enforces the declared size, this only catches drivers that cannot
+      if (stored.size > asset.size) {
+        await this.remove(asset);
+        return { error: 'too_large' };
+      }
+
+      await this.repo.update(asset.id, {
+        status: 'ready',
+        size: stored.size,
+        content_type: stored.contentType ?? asset.content_type,
+        name: details.name ?? asset.name,
+        duration: details.duration ?? asset.duration,
+      });
+      return { asset: (await this.repo.find(asset.id)) as Asset };
+    } catch (error) {
+      logger.error('Failed to complete asset upload:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists a user's uploaded assets
+   * @param {number} userId - ID of the user
+   * @returns {Promise<Asset[]>} The ready assets, newest first
+   * @throws {Error} When the lookup fails
+   */
+  public async findByUserId(userId: number) {
+    try {
+      return await this.repo.findByUserId(userId);
+    } catch (error) {
+      logger.error('Failed to find assets by user ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds one of a user's assets
+   * @param {number} userId - ID of the user who owns the asset
+   * @param {number} id - ID of the asset
+   * @returns {Promise<Asset|undefined>} The asset, or undefined when the user has no such asset
+   * @throws {Error} When the lookup fails
+   */
+  public async find(userId: number, id: number) {
+    try {
+      const asset = await this.repo.find(id);
+      return asset?.user_id === userId ? asset : undefined;
+    } catch (error) {
+      logger.error('Failed to find asset:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a temporary URL to download an asset
+   * @param {Asset} asset - The asset
+   * @returns {Promise<string>} The download URL, valid for an hour
+   */
+  public async getDownloadUrl(asset: Asset) {
+    return this.storage.presignDownload(asset.key, {
+      expiresIn: DOWNLOAD_TTL,
+      fileName: asset.name,
+    });
+  }
+
+  /**
+   * Renames an asset, which only changes the name it is downloaded as
+   * @param {Asset} asset - The asset
+   * @param {string} name - The new name
+   * @returns {Promise<Asset>} The renamed asset
+   * @throws {Error} When updating the asset fails
+   */
+  public async rename(asset: Asset, name: string) {
+    try {
+      await this.repo.update(asset.id, { name });
+      return { ...asset, name };
+    } catch (error) {
+      logger.error('Failed to rename asset:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes an asset and its file, freeing its space in the quota
+   * @param {Asset} asset - The asset
+   * @returns {Promise<void>}
+   * @throws {Error} When the file or the record cannot be deleted
+   */
+  public async remove(asset: Asset) {
+    try {
+      await this.storage.delete(asset.key);
+      await this.repo.delete(asset.id);
+    } catch (error) {
+      logger.error('Failed to delete asset:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes an asset whose upload was never completed, along with any partial file
+   * @param {number} id - ID of the asset
+   * @returns {Promise<boolean>} True when the asset was still pending and has been deleted
+   * @throws {Error} When the file or the record cannot be deleted
+   */
+  public async removeIfPending(id: number) {
+    const asset = await this.repo.find(id);
+    if (asset?.status !== 'pending') {
+      return false;
+    }
+    await this.remove(asset);
+    return true;
+  }
+
+  /**
+   * Deletes every asset of a user and their files
+   * @param {number} userId - ID of the user
+   * @returns {Promise<void>}
+   * @throws {Error} When a file or record cannot be deleted
+   */
+  public async removeAllForUser(userId: number) {
+    const assets = await this.repo.findAllByUserId(userId);
+    for (const asset of assets) {
+      await this.remove(asset);
+    }
+  }
+}
+
+export { ASSET_RULES, MAX_ASSET_SIZE };
@@ -0,0 +1,140 @@
+import { logger } from '../lib/logger.ts';
+import type { AuditLogQuery, AuditLogRepository } from '../repository/audit-log.ts';
+import type { AuditChanges, AuditLog, NewAuditLog } from '../schema/schema.ts';
+import { toCsvValue } from '../util/csv.ts';
+
+// Never copied into the log, even when they change
+const REDACTED_FIELDS = new Set([
+  'password',
+  'mfa_secret',
+  'mfa_recovery_codes',
+  'google_access_token',
+  'refresh_token_hash',
+  'rotated_token_hashes',
+  'code_hash',
+]);
+
+const EXPORT_BATCH_SIZE = 500;
+const MAX_EXPORT_ROWS = 10000;
+
+const CSV_COLUMNS: (keyof AuditLog)[] = [
+  'id',
+  'created_at',
+  'actor_id',
+  'impersonator_id',
+  'action',
+  'entity_type',
+  'entity_id',
+  'status',
+  'changes',
+  'ip_address',
+  'user_agent',
+  'trace_id',
+];
+
+const redact = (record: Record<string, unknown>) => {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [
+      key,
+      REDACTED_FIELDS.has(key) ? '[REDACTED]' : value,
+    ]),
+  );
+};
+
+/**
+ * Service class for recording and querying the audit trail of security-relevant actions
+ */
+export class AuditService {
+  private repo: AuditLogRepository;
+
+  constructor(auditLogRepo: AuditLogRepository) {
+    this.repo = auditLogRepo;
+  }
+
+  /**
+   * Builds the before/after diff of a change, keeping only the fields that changed.
+   * Passing only `before` records a deletion, passing only `after` a creation.
+   * @param {object} [before] - The entity before the change
+   * @param {object} [after] - The entity after the change
+   * @returns {AuditChanges|undefined} The changed fields, with secrets redacted
+   */
+  public diff(before?: object, after?: object): AuditChanges | undefined {
+    if (!before && !after) {
+      return undefined;
+    }
+    if (!before || !after) {
+      return {
+        before: before ? redact({ ...before }) : undefined,
+        after: after ? redact({ ...after }) : undefined,
+      };
+    }
+
+    const previous = before as Record<string, unknown>;
+    const next = after as Record<string, unknown>;
+    const changed = [...new Set([...Object.keys(previous), ...Object.keys(next)])].filter(
+      (key) => JSON.stringify(previous[key]) !== JSON.stringify(next[key]),
+    );
+    if (!changed.length) {
+      return undefined;
+    }
+
+    return {
+      before: redact(Object.fromEntries(changed.map((key) => [key, previous[key]]))),
+      after: redact(Object.fromEntries(changed.map((key) => [key, next[key]]))),
+    };
+  }
+
+  /**
+   * Writes an entry to the audit log. Failures are logged rather than thrown, so a
+   * problem with the audit table never undoes the action being audited.
+   * @param {NewAuditLog} entry - The action, actor, target and request details
+   * @returns {Promise<void>}
+   */
+  public async record(entry: NewAuditLog): Promise<void> {
+    try {
+      await this.repo.create(entry);
+    } catch (error) {
+      logger.error('Failed to write audit log:', error);
+    }
+  }
+
+  /**
+   * Lists audit log entries page by page, newest first
+   * @param {AuditLogQuery} query - Pagination and filters
+   * @returns {Promise<{logs: AuditLog[], total: number}>} The page of entries and the total matching
+   * @throws {Error} When the query fails
+   */
+  public async search(query: AuditLogQuery) {
+    try {
+      return await this.repo.search(query);
+    } catch (error) {
+      logger.error('Failed to search audit logs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Exports the entries matching the filters as CSV, newest first, up to 10,000 rows
+   * @param {Omit<AuditLogQuery, 'page' | 'limit'>} filters - Filters to apply
+   * @returns {Promise<string>} The CSV document, including a header row
+   * @throws {Error} When the query fails
+   */
+  public async exportCsv(filters: Omit<AuditLogQuery, 'page' | 'limit'>): Promise<string> {
+    try {
+      const rows = [CSV_COLUMNS.join(',')];
+      for (let page = 1; (page - 1) * EXPORT_BATCH_SIZE < MAX_EXPORT_ROWS; page++) {
+        const { logs } = await this.repo.search({ ...filters, page, limit: EXPORT_BATCH_SIZE });
+        rows.push(
+          ...logs.map((log) => CSV_COLUMNS.map((column) => toCsvValue(log[column])).join(',')),
+        );
+        if (logs.length < EXPORT_BATCH_SIZE) {
+          break;
+        }
+      }
+      return rows.join('\r\n');
+    } catch (error) {
+      logger.error('Failed to export audit logs:', error);
+      throw error;
+    }
+  }
+}
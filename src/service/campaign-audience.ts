@@ -0,0 +1,33 @@
+import type { UserRepository } from '../repository/user.ts';
+import type { CampaignAudience } from '../schema/schema.ts';
+import type { AudienceResolver, CampaignRecipient } from './email-campaign.ts';
+
+/**
+ * Resolves campaigns sent to people picked by name, whose ids are those of users of the
+ * platform. Only users among the host's contacts are sent to, so a host cannot mail everyone
+ * on the platform. Leads, tags and events are not stored in this starter, so their audiences
+ * are left to apps that keep them, through their own resolver.
+ */
+export class UserAudienceResolver implements AudienceResolver {
+  public readonly types: CampaignAudience['type'][] = ['name'];
+  private userRepo: UserRepository;
+
+  /**
+   * Creates an instance of UserAudienceResolver
+   * @param {UserRepository} userRepo - Repository for users
+   */
+  constructor(userRepo: UserRepository) {
+    this.userRepo = userRepo;
+  }
+
+  /**
+   * Finds the users picked for a campaign that are the host's contacts
+   * @param {number} hostId - ID of the host sending the campaign
+   * @param {CampaignAudience} audience - The picked user ids
+   * @returns {Promise<CampaignRecipient[]>} The users that can be emailed, unverified, banned and deleted accounts left out
+   */
+  public async resolve(hostId: number, audience: CampaignAudience): Promise<CampaignRecipient[]> {
+    const users = await this.userRepo.findMailableContacts(hostId, audience.recipients);
+    return users.map((user) => ({ email: user.email, name: user.name }));
+  }
+}
@@ -0,0 +1,177 @@
+import archiver from 'archiver';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+
+import env from '../lib/env.ts';
+import { logger } from '../lib/logger.ts';
+import { connection } from '../lib/queue.ts';
+import type { EmailRepository } from '../repository/email.ts';
+import type { NotificationRepository } from '../repository/notification.ts';
+import type { UserRepository } from '../repository/user.ts';
+import type { Email, Notification } from '../schema/schema.ts';
+import exportUserDataAsync from '../task/client/exportUserDataAsync.ts';
+import scheduleExportRemoval from '../task/client/scheduleExportRemoval.ts';
+import { sendTransactionalEmail } from '../task/email-processor.ts';
+import { toCsv } from '../util/csv.ts';
+
+const DOWNLOAD_TTL = 60 * 60 * 24; // 24 hours to download the archive
+const DOWNLOAD_PREFIX = 'export:download:';
+
+// Credentials are never exported, even to their owner
+const SECRET_FIELDS = new Set([
+  'password',
+  'mfa_secret',
+  'mfa_recovery_codes',
+  'mfa_last_used_step',
+  'google_access_token',
+]);
+
+const NOTIFICATION_COLUMNS: (keyof Notification)[] = [
+  'id',
+  'created_at',
+  'notification_type',
+  'title',
+  'message',
+  'link',
+  'is_read',
+  'metadata',
+];
+
+const EMAIL_COLUMNS: (keyof Email)[] = [
+  'id',
+  'created_at',
+  'email',
+  'subject',
+  'title',
+  'subtitle',
+  'body',
+  'button_text',
+  'button_link',
+  'status',
+];
+
+type ExportDownload = { userId: number; file: string };
+
+/**
+ * Service class for GDPR data exports. Archives are built in the background, stored for a
+ * day and handed out through a link emailed to the user.
+ */
+export class DataExportService {
+  private userRepo: UserRepository;
+  private notificationRepo: NotificationRepository;
+  private emailRepo: EmailRepository;
+
+  constructor(
+    userRepo: UserRepository,
+    notificationRepo: NotificationRepository,
+    emailRepo: EmailRepository,
+  ) {
+    this.userRepo = userRepo;
+    this.notificationRepo = notificationRepo;
+    this.emailRepo = emailRepo;
+  }
+
+  private hash(token: string) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Queues an export of a user's data
+   * @param {number} userId - ID of the user
+   * @returns {Promise<void>}
+   * @throws {Error} When the job cannot be queued
+   */
+  public async request(userId: number) {
+    try {
+      await exportUserDataAsync(userId);
+    } catch (error) {
+      logger.error('Failed to request data export:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Builds the archive of a user's profile, notifications and emails, each as JSON and
+   * the lists also as CSV, and emails the user a link to download it
+   * @param {number} userId - ID of the user
+   * @returns {Promise<void>}
+   * @throws {Error} When the user is missing or the archive cannot be written
+   */
+  public async build(userId: number) {
+    try {
+      const user = await this.userRepo.find(userId);
+      if (!user) {
+        throw new Error(`User ${userId} not found for data export`);
+      }
+      const [notifications, emails] = await Promise.all([
+        this.notificationRepo.findByUserId(userId),
+        this.emailRepo.findEmailsByHostId(userId),
+      ]);
+      const profile = Object.fromEntries(
+        Object.entries(user).filter(([key]) => !SECRET_FIELDS.has(key)),
+      );
+
+      await fs.promises.mkdir(env.EXPORT_DIR, { recursive: true });
+      const file = path.join(
+        env.EXPORT_DIR,
+        `${userId}-${crypto.randomBytes(16).toString('hex')}.zip`,
+      );
+      const archive = archiver('zip', { zlib: { level: 9 } });
+      archive.append(JSON.stringify(profile, null, 2), { name: 'profile.json' });
+      archive.append(JSON.stringify(notifications, null, 2), { name: 'notifications.json' });
+      archive.append(toCsv(notifications, NOTIFICATION_COLUMNS), { name: 'notifications.csv' });
+      archive.append(JSON.stringify(emails, null, 2), { name: 'emails.json' });
+      archive.append(toCsv(emails, EMAIL_COLUMNS), { name: 'emails.csv' });
+      const written = pipeline(archive, fs.createWriteStream(file));
+      await archive.finalize();
+      await written;
+
+      const token = crypto.randomBytes(32).toString('base64url');
+      const download: ExportDownload = { userId, file };
+      await connection.set(
+        `${DOWNLOAD_PREFIX}${this.hash(token)}`,
+        JSON.stringify(download),
+        'EX',
+        DOWNLOAD_TTL,
+      );
+      await scheduleExportRemoval(file, DOWNLOAD_TTL * 1000);
+
+      await sendTransactionalEmail(user.email, user.name, 'notice', {
+        subject: 'Your data export is ready',
+        title: 'Your data export is ready',
+        subtitle: 'The download link expires in 24 hours',
+        body: `The copy of your ${env.BRAND_NAME} data you asked for is ready. It contains your profile, notifications and emails. The link below works for 24 hours, after which the archive is deleted. If you did not ask for this export, please reset your password and contact support.`,
+        buttonText: 'Download my data',
+        buttonLink: `${env.API_URL}/v1/user/export/${token}`,
+      });
+    } catch (error) {
+      logger.error('Failed to build data export:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the archive behind a download link
+   * @param {string} token - The token from the emailed link
+   * @returns {Promise<ExportDownload|null>} The user and archive path, or null when unknown or expired
+   */
+  public async findDownload(token: string): Promise<ExportDownload | null> {
+    const stored = await connection.get(`${DOWNLOAD_PREFIX}${this.hash(token)}`);
+    if (!stored) {
+      return null;
+    }
+    const download = JSON.parse(stored) as ExportDownload;
+    return fs.existsSync(download.file) ? download : null;
+  }
+
+  /**
+   * Deletes an archive once its link has expired
+   * @param {string} file - Path of the archive
+   * @returns {Promise<void>}
+   */
+  public async remove(file: string) {
+    await fs.promises.rm(file, { force: true });
+  }
+}
@@ -0,0 +1,253 @@
+import env from '../lib/env.ts';
+import { logger } from '../lib/logger.ts';
+import type { EmailCampaignRepository } from '../repository/email-campaign.ts';
+import type { CampaignAudience, Email, EmailCampaign, NewEmail } from '../schema/schema.ts';
+import processEmailAsync from '../task/client/processEmailAsync.ts';
+import sendCampaignBatch from '../task/client/sendCampaignBatch.ts';
+
+type EmailStatus = NonNullable<Email['status']>;
+
+type CampaignRecipient = { email: string; name: string };
+
+type CampaignInput = Pick<
+  EmailCampaign,
+  'subject' | 'title' | 'subtitle' | 'body' | 'button_text' | 'button_link'
+> & { audience: CampaignAudience };
+
+type CampaignProgress = {
+  total: number;
+  queued: number;
+  sent: number;
+  failed: number;
+  suppressed: number;
+  cancelled: number;
+};
+
+type CreateResult =
+  | { campaign: EmailCampaign }
+  | { error: 'no_recipients' }
+  | { error: 'unsupported_audience' };
+
+interface AudienceResolver {
+  /** The audience types the resolver can find recipients for */
+  readonly types: CampaignAudience['type'][];
+  /** Finds the people a host's campaign goes to */
+  resolve(hostId: number, audience: CampaignAudience): Promise<CampaignRecipient[]>;
+}
+
+// Which count each email status adds to, drafts are waiting for their batch
+const PROGRESS_FOR_STATUS: Record<EmailStatus, keyof Omit<CampaignProgress, 'total'>> = {
+  draft: 'queued',
+  queued: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'sent',
+  opened: 'sent',
+  clicked: 'sent',
+  bounced: 'failed',
+  complained: 'failed',
+  failed: 'failed',
+  suppressed: 'suppressed',
+  cancelled: 'cancelled',
+};
+
+/**
+ * Service class for campaigns, one email from a host to each person in an audience. The
+ * emails are created up front and handed to the queue in throttled batches.
+ */
+export class EmailCampaignService {
+  private repo: EmailCampaignRepository;
+  private audience: AudienceResolver;
+
+  /**
+   * Creates an instance of EmailCampaignService
+   * @param {EmailCampaignRepository} campaignRepo - Repository for campaigns and their emails
+   * @param {AudienceResolver} audience - Finds who a campaign goes to
+   */
+  constructor(campaignRepo: EmailCampaignRepository, audience: AudienceResolver) {
+    this.repo = campaignRepo;
+    this.audience = audience;
+  }
+
+  /**
+   * Creates a campaign with an email to each recipient, and schedules its first batch
+   * @param {number} hostId - ID of the host sending it
+   * @param {CampaignInput} input - The message and who it goes to
+   * @returns {Promise<CreateResult>} The campaign, or why it could not be created
+   * @throws {Error} When the campaign or its emails cannot be created
+   */
+  public async create(hostId: number, input: CampaignInput): Promise<CreateResult> {
+    try {
+      if (!this.audience.types.includes(input.audience.type)) {
+        return { error: 'unsupported_audience' };
+      }
+      const resolved = await this.audience.resolve(hostId, input.audience);
+      // People in more than one of the selected events or tags get the email once
+      const recipients = [
+        ...new Map(
+          resolved.map((recipient) => [recipient.email.toLowerCase(), recipient]),
+        ).values(),
+      ];
+      if (recipients.length === 0) {
+        return { error: 'no_recipients' };
+      }
+
+      const { audience, ...message } = input;
+      const [{ id }] = await this.repo.create({
+        ...message,
+        host_id: hostId,
+        audience,
+        recipient_count: recipients.length,
+      });
+      const emails: NewEmail[] = recipients.map((recipient) => ({
+        ...message,
+        email: recipient.email,
+        host_id: hostId,
+        campaign_id: id,
+        category: 'marketing',
+        status: 'draft',
+      }));
+      await this.repo.createEmails(emails);
+      await sendCampaignBatch(id);
+
+      return { campaign: (await this.repo.find(id)) as EmailCampaign };
+    } catch (error) {
+      logger.error('Failed to create email campaign:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Queues the next batch of a campaign's emails, and schedules the batch after it
+   * @param {number} campaignId - ID of the campaign
+   * @returns {Promise<void>}
+   * @throws {Error} When the emails cannot be queued, so the job is retried
+   */
+  public async sendBatch(campaignId: number) {
+    const campaign = await this.repo.find(campaignId);
+    if (!campaign || campaign.status === 'sent' || campaign.status === 'cancelled') {
+      logger.info(`Skipping batch of campaign ${campaignId}, it is no longer sending`);
+      return;
+    }
+
+    try {
+      const ids = await this.repo.findDraftEmailIds(campaignId, env.CAMPAIGN_BATCH_SIZE);
+      if (ids.length > 0) {
+        const isSending = await this.repo.updateUnlessCancelled(campaignId, { status: 'sending' });
+        if (!isSending) {
+          logger.info(`Skipping batch of campaign ${campaignId}, it has been cancelled`);
+          return;
+        }
+        await this.repo.queueEmails(ids);
+      }
+      // Emails queued by an earlier try of a batch that failed before their jobs were added.
+      // The job IDs are fixed, so an email whose job was added is not queued twice.
+      const stuckIds = await this.repo.findStuckEmailIds(
+        campaignId,
+        new Date(Date.now() - env.CAMPAIGN_BATCH_INTERVAL_MS),
+        env.CAMPAIGN_BATCH_SIZE,
+      );
+      await Promise.all(
+        [...new Set([...ids, ...stuckIds])].map((id) =>
+          processEmailAsync(id, `campaign-email-${id}`),
+        ),
+      );
+
+      if (ids.length === env.CAMPAIGN_BATCH_SIZE) {
+        await sendCampaignBatch(campaignId, env.CAMPAIGN_BATCH_INTERVAL_MS);
+      } else {
+        const isSent = await this.repo.updateUnlessCancelled(campaignId, {
+          status: 'sent',
+          sent_at: new Date(),
+        });
+        if (isSent) {
+          logger.info(`All emails of campaign ${campaignId} have been queued`);
+        }
+      }
+    } catch (error) {
+      logger.error(`Failed to queue batch of campaign ${campaignId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Counts a campaign's emails by how far they have got
+   * @param {number} campaignId - ID of the campaign
+   * @returns {Promise<CampaignProgress>} How many are waiting to be sent, sent, failed, suppressed and cancelled
+   * @throws {Error} When the lookup fails
+   */
+  public async getProgress(campaignId: number): Promise<CampaignProgress> {
+    try {
+      const progress = { total: 0, queued: 0, sent: 0, failed: 0, suppressed: 0, cancelled: 0 };
+      const counts = await this.repo.countEmailsByStatus(campaignId);
+      for (const { status, count } of counts) {
+        progress[PROGRESS_FOR_STATUS[status ?? 'draft']] += count;
+        progress.total += count;
+      }
+      return progress;
+    } catch (error) {
+      logger.error('Failed to get email campaign progress:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists a host's campaigns
+   * @param {number} hostId - ID of the host
+   * @returns {Promise<EmailCampaign[]>} The campaigns, newest first
+   * @throws {Error} When the lookup fails
+   */
+  public async listForHost(hostId: number) {
+    try {
+      return await this.repo.findByHostId(hostId);
+    } catch (error) {
+      logger.error('Failed to list email campaigns:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds one of a host's campaigns
+   * @param {number} hostId - ID of the host
+   * @param {number} id - ID of the campaign
+   * @returns {Promise<EmailCampaign|undefined>} The campaign, or undefined when the host has no such campaign
+   * @throws {Error} When the lookup fails
+   */
+  public async findForHost(hostId: number, id: number) {
+    try {
+      const campaign = await this.repo.find(id);
+      return campaign?.host_id === hostId ? campaign : undefined;
+    } catch (error) {
+      logger.error('Failed to find email campaign:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancels a campaign, so its emails that have not started sending are not sent
+   * @param {EmailCampaign} campaign - The campaign
+   * @returns {Promise<boolean>} False when every email has already started sending, or it was cancelled before
+   * @throws {Error} When the campaign cannot be cancelled
+   */
+  public async cancel(campaign: EmailCampaign) {
+    if (campaign.status === 'cancelled') {
+      return false;
+    }
+
+    try {
+      // Emails already in the queue are skipped when their job runs
+      const cancelled = await this.repo.cancelEmails(campaign.id);
+      // Sent only means every email was queued, some may still be waiting to be sent
+      if (campaign.status === 'sent' && cancelled === 0) {
+        return false;
+      }
+      await this.repo.update(campaign.id, { status: 'cancelled', cancelled_at: new Date() });
+      return true;
+    } catch (error) {
+      logger.error('Failed to cancel email campaign:', error);
+      throw error;
+    }
+  }
+}
+
+export { type AudienceResolver, type CampaignRecipient };
@@ -0,0 +1,147 @@
+import env from '../lib/env.ts';
+import { logger } from '../lib/logger.ts';
+import type { UserRepository } from '../repository/user.ts';
+import type { User } from '../schema/schema.ts';
+import { sendTransactionalEmail } from '../task/email-processor.ts';
+import type { OneTimeCodeService } from './one-time-code.ts';
+import type { SessionService } from './session.ts';
+
+type RequestResult = { pendingEmail: string } | { retryAfter: number };
+
+/**
+ * Service class for changing the email address of an account. The new address only
+ * replaces the old one once a code sent to it has been entered, and the old address is
+ * told about the request with a link to cancel it.
+ */
+export class EmailChangeService {
+  private repo: UserRepository;
+  private oneTimeCodeService: OneTimeCodeService;
+  private sessionService: SessionService;
+
+  constructor(
+    userRepository: UserRepository,
+    oneTimeCodeService: OneTimeCodeService,
+    sessionService: SessionService,
+  ) {
+    this.repo = userRepository;
+    this.oneTimeCodeService = oneTimeCodeService;
+    this.sessionService = sessionService;
+  }
+
+  /**
+   * Starts a change of address, replacing any change already pending
+   * @param {User} user - The user changing their address
+   * @param {string} newEmail - The address to change to
+   * @returns {Promise<RequestResult>} The pending address, or the seconds to wait when a code was sent too recently
+   * @throws {Error} When storing the request or sending the emails fails
+   */
+  public async request(user: User, newEmail: string): Promise<RequestResult> {
+    try {
+      // The code is tied to the address, so it cannot confirm a different one
+      const issued = await this.oneTimeCodeService.issue(user.id, 'email_change', newEmail);
+      if ('retryAfter' in issued) {
+        return issued;
+      }
+      await this.repo.update(user.id, { pending_email: newEmail });
+
+      await sendTransactionalEmail(newEmail, user.name, 'notice', {
+        subject: 'Confirm your new email address',
+        title: 'Confirm your email',
+        subtitle: issued.code,
+        body: `Enter this code in ${env.BRAND_NAME} to start using this address for your account: ${issued.code}. The code expires in 30 minutes.`,
+        buttonText: 'Ok, got it',
+        buttonLink: `${env.FRONTEND_URL}`,
+      });
+
+      const cancel = await this.oneTimeCodeService.issue(user.id, 'email_change_cancel');
+      if ('code' in cancel) {
+        const link = `${env.FRONTEND_URL}/cancel-email-change?token=${cancel.code}&email=${encodeURIComponent(user.email)}`;
+        await sendTransactionalEmail(user.email, user.name, 'notice', {
+          subject: 'Your email address is being changed',
+          title: 'Email change requested',
+          subtitle: `A request was made to change your email to ${newEmail}`,
+          body: `Someone asked to change the email address of your account to ${newEmail}. Nothing changes until the new address is confirmed. If this was not you, cancel the change using the button below and reset your password.`,
+          buttonText: 'Cancel the change',
+          buttonLink: link,
+        });
+      }
+
+      return { pendingEmail: newEmail };
+    } catch (error) {
+      logger.error('Failed to request email change:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Swaps in the pending address once the code sent to it has been entered. Other
+   * sessions are signed out and the old address is told about the change.
+   * @param {User} user - The user confirming the change
+   * @param {string} code - The code sent to the new address
+   * @param {number} [sessionId] - ID of the session to keep signed in
+   * @returns {Promise<boolean>} True when the code was valid and the address changed
+   * @throws {Error} When updating the user fails
+   */
+  public async confirm(user: User, code: string, sessionId?: number): Promise<boolean> {
+    if (!user.pending_email) {
+      return false;
+    }
+
+    try {
+      const isValid = await this.oneTimeCodeService.verify(
+        user.id,
+        'email_change',
+        code,
+        user.pending_email,
+      );
+      if (!isValid) {
+        return false;
+      }
+
+      // Entering the code proves the new mailbox, whatever the state of the old one
+      await this.repo.update(user.id, {
+        email: user.pending_email,
+        pending_email: null,
+        is_verified: true,
+      });
+      await this.sessionService.revokeAllForUser(user.id, sessionId);
+
+      await sendTransactionalEmail(user.email, user.name, 'notice', {
+        subject: 'Your email address has been changed',
+        title: 'Email changed',
+        subtitle: `Your account now uses ${user.pending_email}`,
+        body: `The email address of your account was changed to ${user.pending_email}. If this was not you, please contact our support agents straight away.`,
+        buttonText: 'Ok, got it',
+        buttonLink: `${env.FRONTEND_URL}`,
+      });
+      return true;
+    } catch (error) {
+      logger.error('Failed to confirm email change:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancels a pending change with the link sent to the current address. As the change
+   * may not have been made by the owner, every session is signed out.
+   * @param {User} user - The user whose change is cancelled
+   * @param {string} token - The cancel token from the link
+   * @returns {Promise<boolean>} True when the token was valid and the change cancelled
+   * @throws {Error} When updating the user fails
+   */
+  public async cancel(user: User, token: string): Promise<boolean> {
+    try {
+      const isValid = await this.oneTimeCodeService.verify(user.id, 'email_change_cancel', token);
+      if (!isValid) {
+        return false;
+      }
+
+      await this.repo.update(user.id, { pending_email: null });
+      await this.sessionService.revokeAllForUser(user.id);
+      return true;
+    } catch (error) {
+      logger.error('Failed to cancel email change:', error);
+      throw error;
+    }
+  }
+}
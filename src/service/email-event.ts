@@ -0,0 +1,120 @@
+import { logger } from '../lib/logger.ts';
+import type { MailEvent } from '../lib/mail-webhooks.ts';
+import type { EmailRepository } from '../repository/email.ts';
+import type { EmailEventRepository } from '../repository/email-event.ts';
+import type { Email, EmailEventType } from '../schema/schema.ts';
+import type { EmailSuppressionService } from './email-suppression.ts';
+
+type EmailStatus = NonNullable<Email['status']>;
+
+const STATUS_FOR_EVENT: Partial<Record<EmailEventType, EmailStatus>> = {
+  delivered: 'delivered',
+  opened: 'opened',
+  clicked: 'clicked',
+  hard_bounce: 'bounced',
+  complaint: 'complained',
+};
+
+// Events arrive out of order, so an email only moves forward through these
+const PROGRESS: EmailStatus[] = ['sent', 'delivered', 'opened', 'clicked'];
+
+/**
+ * Works out an email's status after an event
+ * @param {EmailStatus} current - The email's status now
+ * @param {EmailEventType} type - The event that happened
+ * @returns {EmailStatus|null} The new status, or null when it does not change
+ */
+const nextStatus = (current: EmailStatus, type: EmailEventType): EmailStatus | null => {
+  const target = STATUS_FOR_EVENT[type];
+  // Emails being sent again wait for events about their new message
+  if (!target || !PROGRESS.includes(current)) {
+    return null;
+  }
+  if (target === 'bounced' || target === 'complained') {
+    return target;
+  }
+  return PROGRESS.indexOf(target) > PROGRESS.indexOf(current) ? target : null;
+};
+
+/**
+ * Service class for what happens to emails after they are sent, as reported by the mail
+ * provider's webhooks
+ */
+export class EmailEventService {
+  private repo: EmailEventRepository;
+  private emailRepo: EmailRepository;
+  private suppressionService: EmailSuppressionService;
+
+  /**
+   * Creates an instance of EmailEventService
+   * @param {EmailEventRepository} emailEventRepo - Repository for email events
+   * @param {EmailRepository} emailRepo - Repository for the emails the events are about
+   * @param {EmailSuppressionService} suppressionService - Service that suppresses addresses that bounce, complain or unsubscribe
+   */
+  constructor(
+    emailEventRepo: EmailEventRepository,
+    emailRepo: EmailRepository,
+    suppressionService: EmailSuppressionService,
+  ) {
+    this.repo = emailEventRepo;
+    this.emailRepo = emailRepo;
+    this.suppressionService = suppressionService;
+  }
+
+  /**
+   * Records events from a provider, moves the emails they are about to their new status and
+   * suppresses recipients that bounced, complained or unsubscribed
+   * @param {string} provider - Name of the provider that sent the events
+   * @param {MailEvent[]} events - The events, normalised by the provider
+   * @returns {Promise<number>} How many of the events had not been recorded before
+   * @throws {Error} When recording an event fails
+   */
+  public async record(provider: string, events: MailEvent[]) {
+    try {
+      let recorded = 0;
+      for (const event of events) {
+        const email = await this.emailRepo.findEmailByProviderMessageId(event.messageId);
+        const isNew = await this.repo.create({
+          email_id: email?.id ?? null,
+          provider,
+          provider_message_id: event.messageId,
+          type: event.type,
+          recipient: event.recipient,
+          reason: event.reason ?? null,
+          url: event.url ?? null,
+          occurred_at: event.occurredAt,
+        });
+        if (!isNew) {
+          continue;
+        }
+        recorded += 1;
+        // Also for account emails, which have no email record
+        await this.suppressionService.recordEvent(event, email?.host_id ?? null);
+
+        const status = email?.status && nextStatus(email.status, event.type);
+        if (email && status) {
+          await this.emailRepo.updateEmail(email.id, { status });
+        }
+      }
+      return recorded;
+    } catch (error) {
+      logger.error('Failed to record email events:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists what has happened to an email since it was sent
+   * @param {number} emailId - ID of the email
+   * @returns {Promise<EmailEvent[]>} The events, oldest first
+   * @throws {Error} When the lookup fails
+   */
+  public async getTimeline(emailId: number) {
+    try {
+      return await this.repo.findByEmailId(emailId);
+    } catch (error) {
+      logger.error('Failed to get email events:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,322 @@
+import crypto from 'crypto';
+
+import env from '../lib/env.ts';
+import { logger } from '../lib/logger.ts';
+import type { MailEvent } from '../lib/mail-webhooks.ts';
+import type { EmailSuppressionRepository } from '../repository/email-suppression.ts';
+import type { FollowUpRepository } from '../repository/follow-up.ts';
+import type { EmailCategory, EmailSuppression, SuppressionReason } from '../schema/schema.ts';
+
+type SuppressionScope = EmailSuppression['scope'];
+
+type UnsubscribeLinks = {
+  // For the link in the email itself, a page that asks the recipient to confirm
+  url: string;
+  // RFC 8058 one-click unsubscribe, which mail clients call without showing a page
+  headers: Record<string, string>;
+};
+
+const normaliseEmail = (email: string) => email.trim().toLowerCase();
+
+const appliesTo = (suppression: EmailSuppression, category: EmailCategory) => {
+  return suppression.scope === 'all' || category === 'marketing';
+};
+
+/**
+ * Service class for the addresses mail must not be sent to: those that bounced or
+ * complained, for all mail we send, and those a host's recipients unsubscribed or the host
+ * removed, for that host's mail
+ */
+export class EmailSuppressionService {
+  private repo: EmailSuppressionRepository;
+  private followUpRepo: FollowUpRepository;
+
+  /**
+   * Creates an instance of EmailSuppressionService
+   * @param {EmailSuppressionRepository} suppressionRepo - Repository for suppressed addresses
+   * @param {FollowUpRepository} followUpRepo - Repository for the follow-up steps to cancel when an address is suppressed
+   */
+  constructor(suppressionRepo: EmailSuppressionRepository, followUpRepo: FollowUpRepository) {
+    this.repo = suppressionRepo;
+    this.followUpRepo = followUpRepo;
+  }
+
+  private sign(hostId: number, email: string) {
+    return crypto
+      .createHmac('sha256', env.SECRET_KEY)
+      .update(`unsubscribe:${hostId}:${email}`)
+      .digest('base64url');
+  }
+
+  /**
+   * Creates a token that unsubscribes an address from a host's marketing mail. It does not
+   * expire, as the emails it is sent in are kept for years.
+   * @param {number} hostId - ID of the host sending the mail
+   * @param {string} email - The recipient's address
+   * @returns {string} The signed token
+   */
+  public createUnsubscribeToken(hostId: number, email: string) {
+    const address = normaliseEmail(email);
+    const payload = Buffer.from(`${hostId}:${address}`).toString('base64url');
+    return `${payload}.${this.sign(hostId, address)}`;
+  }
+
+  /**
+   * Reads a token created by createUnsubscribeToken
+   * @param {string} token - The token from the unsubscribe link
+   * @returns {{hostId: number, email: string}|null} Who is unsubscribing from whom, or null when the token is not genuine
+   */
+  public verifyUnsubscribeToken(token: string) {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) {
+      return null;
+    }
+    const match = /^(\d+):(.+)$/.exec(Buffer.from(payload, 'base64url').toString());
+    if (!match) {
+      return null;
+    }
+
+    const hostId = Number(match[1]);
+    const email = match[2];
+    const expected = Buffer.from(this.sign(hostId, email));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+    return { hostId, email };
+  }
+
+  /**
+   * Creates the unsubscribe link and headers for a marketing email
+   * @param {number} hostId - ID of the host sending the mail
+   * @param {string} email - The recipient's address
+   * @returns {UnsubscribeLinks} The link for the message body and the List-Unsubscribe headers
+   */
+  public getUnsubscribeLinks(hostId: number, email: string): UnsubscribeLinks {
+    const token = this.createUnsubscribeToken(hostId, email);
+    const apiUrl = env.API_URL.replace(/\/$/, '');
+    return {
+      url: `${env.FRONTEND_URL}/unsubscribe/${token}`,
+      headers: {
+        'List-Unsubscribe': `<${apiUrl}/v1/unsubscribe/${token}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    };
+  }
+
+  /**
+   * Checks whether mail may be sent to an address
+   * @param {number|null} hostId - ID of the host sending the mail, or null for mail from the platform
+   * @param {string} email - The recipient's address
+   * @param {EmailCategory} category - Whether the mail is transactional or marketing
+   * @returns {Promise<EmailSuppression|undefined>} The suppression that stops it, or undefined when it may be sent
+   * @throws {Error} When the lookup fails
+   */
+  public async check(hostId: number | null, email: string, category: EmailCategory) {
+    try {
+      const suppressions = await this.repo.findForRecipients(hostId, [normaliseEmail(email)]);
+      return suppressions.find((suppression) => appliesTo(suppression, category));
+    } catch (error) {
+      logger.error('Failed to check email suppressions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drops the recipients mail may not be sent to
+   * @param {number|null} hostId - ID of the host sending the mail, or null for mail from the platform
+   * @param {EmailCategory} category - Whether the mail is transactional or marketing
+   * @param {T[]} recipients - The recipients, each with an email address
+   * @returns {Promise<T[]>} The recipients that may be mailed, in the order given
+   * @throws {Error} When the lookup fails
+   */
+  public async filterRecipients<T extends { email: string }>(
+    hostId: number | null,
+    category: EmailCategory,
+    recipients: T[],
+  ) {
+    try {
+      const emails = [...new Set(recipients.map((recipient) => normaliseEmail(recipient.email)))];
+      const suppressions = await this.repo.findForRecipients(hostId, emails);
+      const suppressed = new Map(
+        suppressions
+          .filter((suppression) => appliesTo(suppression, category))
+          .map((suppression) => [suppression.email, suppression.reason]),
+      );
+
+      return recipients.filter((recipient) => {
+        const reason = suppressed.get(normaliseEmail(recipient.email));
+        if (reason) {
+          logger.info(`Dropping suppressed recipient ${recipient.email} (${reason})`);
+        }
+        return !reason;
+      });
+    } catch (error) {
+      logger.error('Failed to filter suppressed recipients:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Suppresses an address, widening an existing suppression rather than narrowing it, and
+   * cancels the follow-ups waiting to be sent to it
+   * @param {number|null} hostId - ID of the host to suppress it for, or null for all mail
+   * @param {string} email - The address
+   * @param {SuppressionReason} reason - Why it is suppressed
+   * @param {SuppressionScope} scope - Whether all mail or only marketing is held back
+   * @returns {Promise<void>}
+   * @throws {Error} When the suppression cannot be saved
+   */
+  public async suppress(
+    hostId: number | null,
+    email: string,
+    reason: SuppressionReason,
+    scope: SuppressionScope,
+  ) {
+    try {
+      const address = normaliseEmail(email);
+      const existing = await this.repo.findOne(hostId, address);
+      if (existing) {
+        await this.repo.update(existing.id, {
+          reason,
+          scope: existing.scope === 'all' ? 'all' : scope,
+        });
+      } else {
+        await this.repo.create({ host_id: hostId, email: address, reason, scope });
+      }
+      // Follow-ups are marketing, so any suppression stops them
+      await this.followUpRepo.cancelSteps(hostId, address, 'suppressed');
+    } catch (error) {
+      logger.error('Failed to suppress email address:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Suppresses the recipient of a bounce, complaint or unsubscribe reported by the provider
+   * @param {MailEvent} event - The event
+   * @param {number|null} hostId - ID of the host whose email it is about, or null when it is not one of theirs
+   * @returns {Promise<void>}
+   * @throws {Error} When the suppression cannot be saved
+   */
+  public async recordEvent(event: MailEvent, hostId: number | null) {
+    if (event.type === 'hard_bounce' || event.type === 'complaint') {
+      // The address cannot, or does not want to, receive anything we send
+      await this.suppress(null, event.recipient, event.type, 'all');
+    } else if (event.type === 'unsubscribed' && hostId !== null) {
+      await this.suppress(hostId, event.recipient, 'unsubscribed', 'marketing');
+    }
+  }
+
+  /**
+   * Unsubscribes an address from a host's marketing mail
+   * @param {string} token - The token from the unsubscribe link
+   * @returns {Promise<boolean>} False when the token is not genuine
+   * @throws {Error} When the suppression cannot be saved
+   */
+  public async unsubscribe(token: string) {
+    const recipient = this.verifyUnsubscribeToken(token);
+    if (!recipient) {
+      return false;
+    }
+    await this.suppress(recipient.hostId, recipient.email, 'unsubscribed', 'marketing');
+    logger.info(`${recipient.email} unsubscribed from the mail of host ${recipient.hostId}`);
+    return true;
+  }
+
+  /**
+   * Lists the suppressions that apply to a host's mail
+   * @param {number} hostId - ID of the host
+   * @returns {Promise<EmailSuppression[]>} The host's suppressions, and those for all mail of addresses they have emailed, newest first
+   * @throws {Error} When the lookup fails
+   */
+  public async listForHost(hostId: number) {
+    try {
+      return await this.repo.findByHostId(hostId);
+    } catch (error) {
+      logger.error('Failed to list email suppressions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds one of a host's own suppressions
+   * @param {number} hostId - ID of the host
+   * @param {number} id - ID of the suppression
+   * @returns {Promise<EmailSuppression|undefined>} The suppression, or undefined when the host has no such suppression
+   * @throws {Error} When the lookup fails
+   */
+  public async findForHost(hostId: number, id: number) {
+    try {
+      const suppression = await this.repo.find(id);
+      return suppression?.host_id === hostId ? suppression : undefined;
+    } catch (error) {
+      logger.error('Failed to find email suppression:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Adds an address to a host's suppressions by hand, or updates it when it is already there
+   * @param {number} hostId - ID of the host
+   * @param {{email: string, scope: SuppressionScope, note?: string}} input - The address, scope and an optional note
+   * @returns {Promise<EmailSuppression>} The suppression
+   * @throws {Error} When the suppression cannot be saved
+   */
+  public async addForHost(
+    hostId: number,
+    input: { email: string; scope: SuppressionScope; note?: string },
+  ) {
+    try {
+      const email = normaliseEmail(input.email);
+      const data = { reason: 'manual' as const, scope: input.scope, note: input.note ?? null };
+      const existing = await this.repo.findOne(hostId, email);
+      await this.followUpRepo.cancelSteps(hostId, email, 'suppressed');
+      if (existing) {
+        await this.repo.update(existing.id, data);
+        return { ...existing, ...data };
+      }
+
+      const [{ id }] = await this.repo.create({ host_id: hostId, email, ...data });
+      return (await this.repo.find(id)) as EmailSuppression;
+    } catch (error) {
+      logger.error('Failed to add email suppression:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Changes the scope or note of a host's suppression
+   * @param {EmailSuppression} suppression - The suppression
+   * @param {{scope?: SuppressionScope, note?: string|null}} data - The fields to change
+   * @returns {Promise<EmailSuppression>} The updated suppression
+   * @throws {Error} When the suppression cannot be saved
+   */
+  public async update(
+    suppression: EmailSuppression,
+    data: { scope?: SuppressionScope; note?: string | null },
+  ) {
+    try {
+      await this.repo.update(suppression.id, data);
+      return { ...suppression, ...data };
+    } catch (error) {
+      logger.error('Failed to update email suppression:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a suppression, so mail is sent to the address again
+   * @param {EmailSuppression} suppression - The suppression
+   * @returns {Promise<void>}
+   * @throws {Error} When the suppression cannot be deleted
+   */
+  public async remove(suppression: EmailSuppression) {
+    try {
+      await this.repo.delete(suppression.id);
+    } catch (error) {
+      logger.error('Failed to remove email suppression:', error);
+      throw error;
+    }
+  }
+}
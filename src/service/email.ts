@@ -1,49 +1,52 @@
+import { UnrecoverableError } from 'bullmq';
+
 import env from '../lib/env.ts';
 import { logger } from '../lib/logger.ts';
+import type { TemplateName, TemplateParams } from '../mail/templates.tsx';
 import type { EmailRepository } from '../repository/email.ts';
 import type { Email, NewEmail } from '../schema/schema.ts';
 import processBulkEmailAsync from '../task/client/processBulkEmail.ts';
 import processEmailAsync from '../task/client/processEmailAsync.ts';
+import { sendTemplateEmail } from '../task/email-processor.ts';
+import type { EmailSuppressionService } from './email-suppression.ts';
+
+const MAX_ERROR_LENGTH = 1000;
+
+// Emails that are on their way and cannot be sent again yet
+const IN_FLIGHT_STATUSES: Email['status'][] = ['queued', 'sending'];
+
+type FollowUpEmail = {
+  hostId: number;
+  email: string;
+  name: string;
+  params: Record<string, string>;
+  template: TemplateName;
+};
 
 export class EmailService {
   private repository: EmailRepository;
+  private suppressionService: EmailSuppressionService;
 
-  constructor(repository: EmailRepository) {
+  constructor(repository: EmailRepository, suppressionService: EmailSuppressionService) {
     this.repository = repository;
+    this.suppressionService = suppressionService;
   }
 
   /**
-   * Creates a new email template in the system
+   * Creates a new email and queues it for sending
    * @param {NewEmail} data - The email data to create
    * @returns {Promise<number>} The ID of the created email
    * @throws {Error} When email creation fails
    */
   public async createEmail(data: NewEmail): Promise<number> {
     try {
-      const email = await this.repository.createEmail(data);
-      // Queue the email for processing
-      await processEmailAsync({
-        email: data.email,
-        name: data.email.split('@')[0],
-        templateId: 12,
-        emailData: {
-          subject: data.subject,
-          title: data.title,
-          subtitle: data.subtitle,
-          body: data.body,
-          buttonText: data.button_text,
-          buttonLink: data.button_link,
-          username: data.email.split('@')[0] || 'User',
-          eventname: '',
-          eventdate: '',
-          eventtime: '',
-          eventlink: '',
-          busname: env.BRAND_NAME,
-          busemail: '',
-          busaddress: '',
-        },
+      const [{ id }] = await this.repository.createEmail({
+        ...data,
+        status: 'queued',
+        queued_at: new Date(),
       });
-      return email[0].id;
+      await processEmailAsync(id);
+      return id;
     } catch (error) {
       logger.error(error);
       throw error;
@@ -51,38 +54,161 @@ export class EmailService {
   }
 
   /**
-   * Bulk adds emails to the database
-   * @param {NewEmail[]} data - The email data to bulk add
-   * @returns {Promise<number>} The number of emails added
-   * @throws {Error} When email bulk addition fails
+   * Sends a queued email, recording the attempt and its outcome on the email
+   * @param {number} id - The ID of the email to send
+   * @param {number} attempt - Which attempt this is, starting at 1
+   * @param {number} maxAttempts - How many attempts the queue makes before giving up
+   * @returns {Promise<void>}
+   * @throws {Error} When sending fails, so the queue retries it
+   */
+  public async deliverEmail(id: number, attempt: number, maxAttempts: number): Promise<void> {
+    const email = await this.repository.findEmailById(id);
+    if (!email || !IN_FLIGHT_STATUSES.includes(email.status)) {
+      logger.info(`Skipping email ${id}, it has been deleted or is no longer queued`);
+      return;
+    }
+
+    const suppression = await this.suppressionService.check(
+      email.host_id,
+      email.email,
+      email.category,
+    );
+    if (suppression) {
+      await this.repository.updateEmail(id, {
+        status: 'suppressed',
+        suppression_reason: suppression.reason,
+      });
+      logger.info(`Not sending email ${id}, ${email.email} is suppressed (${suppression.reason})`);
+      return;
+    }
+
+    await this.repository.updateEmail(id, {
+      status: 'sending',
+      attempts: attempt,
+      last_attempt_at: new Date(),
+    });
+    try {
+      const name = email.email.split('@')[0];
+      const unsubscribe =
+        email.category === 'marketing'
+          ? this.suppressionService.getUnsubscribeLinks(email.host_id, email.email)
+          : undefined;
+      const params: TemplateParams<'event'> = {
+        subject: email.subject,
+        title: email.title,
+        subtitle: email.subtitle,
+        body: email.body,
+        buttonText: email.button_text,
+        buttonLink: email.button_link,
+        username: name || 'User',
+        busname: env.BRAND_NAME,
+        unsubscribeLink: unsubscribe?.url,
+      };
+      const { messageId } = await sendTemplateEmail(email.email, name, 'event', params, {
+        headers: unsubscribe?.headers,
+      });
+
+      await this.repository.updateEmail(id, {
+        status: 'sent',
+        provider_message_id: messageId,
+        last_error: null,
+        sent_at: new Date(),
+      });
+    } catch (error) {
+      const isFinal = attempt >= maxAttempts || error instanceof UnrecoverableError;
+      await this.repository.updateEmail(id, {
+        // Back in the queue until the retries run out
+        status: isFinal ? 'failed' : 'queued',
+        last_error: String((error as Error).message ?? error).slice(0, MAX_ERROR_LENGTH),
+        failed_at: isFinal ? new Date() : null,
+      });
+      logger.error(`Failed to send email ${id}, attempt ${attempt} of ${maxAttempts}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Queues an email that was sent, or failed to send, to be sent again
+   * @param {Email} email - The email to send again
+   * @returns {Promise<boolean>} False when the email is already on its way
+   * @throws {Error} When updating or queueing the email fails
    */
+  public async resendEmail(email: Email): Promise<boolean> {
+    if (IN_FLIGHT_STATUSES.includes(email.status)) {
+      return false;
+    }
+
+    try {
+      await this.repository.updateEmail(email.id, {
+        status: 'queued',
+        attempts: 0,
+        last_error: null,
+        suppression_reason: null,
+        queued_at: new Date(),
+        failed_at: null,
+      });
+      await processEmailAsync(email.id);
+      return true;
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
 
+  /**
+   * Queues a host's follow-up emails, leaving out suppressed recipients
+   * @param {number} hostId - The ID of the host sending them
+   * @param {Array<Omit<FollowUpEmail, 'hostId'>>} data - The recipients and what to send them
+   * @returns {Promise<number>} The number of emails queued
+   * @throws {Error} When queueing the emails fails
+   */
   public async bulkSendFollowUpEmails(
-    data: {
-      email: string;
-      name: string;
-      params: Record<string, string>;
-      templateId: number;
-    }[],
+    hostId: number,
+    data: Omit<FollowUpEmail, 'hostId'>[],
   ): Promise<number> {
     try {
+      const recipients = await this.suppressionService.filterRecipients(hostId, 'marketing', data);
       // Queue each email for processing
-      const promises = data.map((item) =>
+      const promises = recipients.map((item) =>
         processBulkEmailAsync({
+          hostId,
           email: item.email,
           name: item.name,
-          templateId: item.templateId, // Use appropriate template ID
+          template: item.template,
           params: item.params,
         }),
       );
       await Promise.all(promises);
-      return data.length;
+      return recipients.length;
     } catch (error) {
       logger.error(error);
       throw error;
     }
   }
 
+  /**
+   * Sends a queued follow-up email, unless the recipient was suppressed after it was queued
+   * @param {FollowUpEmail} data - The host, the recipient and what to send them
+   * @returns {Promise<void>}
+   * @throws {Error} When sending fails, so the queue retries it
+   */
+  public async sendFollowUpEmail(data: FollowUpEmail): Promise<void> {
+    const suppression = await this.suppressionService.check(data.hostId, data.email, 'marketing');
+    if (suppression) {
+      logger.info(`Not sending follow-up to ${data.email}, suppressed (${suppression.reason})`);
+      return;
+    }
+
+    const unsubscribe = this.suppressionService.getUnsubscribeLinks(data.hostId, data.email);
+    await sendTemplateEmail(
+      data.email,
+      data.name,
+      data.template,
+      { ...data.params, unsubscribeLink: unsubscribe.url },
+      { headers: unsubscribe.headers },
+    );
+  }
+
   /**
    * Retrieves a specific email template by its ID
    * @param {number} id - The ID of the email to retrieve
@@ -0,0 +1,255 @@
+import { logger } from '../lib/logger.ts';
+import type { FollowUpRepository } from '../repository/follow-up.ts';
+import type { FollowUpEmail, FollowUpTrigger } from '../schema/schema.ts';
+import scheduleFollowUpStep from '../task/client/scheduleFollowUpStep.ts';
+import type { EmailService } from './email.ts';
+import type { EmailSuppressionService } from './email-suppression.ts';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+type FollowUpInput = Pick<
+  FollowUpEmail,
+  'title' | 'content' | 'follow_up_who_gets_it' | 'timeline'
+>;
+
+type SaveResult = { followUp: FollowUpEmail } | { error: 'timeline_taken' };
+
+const normaliseEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Service class for follow-up sequences, emails a host has sent automatically a number of
+ * days after something happens, e.g. someone registers for an event. Each email a recipient
+ * is due is a step, scheduled as a delayed job and cancelled if they convert or unsubscribe.
+ */
+export class FollowUpService {
+  private repo: FollowUpRepository;
+  private emailService: EmailService;
+  private suppressionService: EmailSuppressionService;
+
+  /**
+   * Creates an instance of FollowUpService
+   * @param {FollowUpRepository} followUpRepo - Repository for follow-up emails and their steps
+   * @param {EmailService} emailService - Service that sends the emails
+   * @param {EmailSuppressionService} suppressionService - Service that knows who has unsubscribed
+   */
+  constructor(
+    followUpRepo: FollowUpRepository,
+    emailService: EmailService,
+    suppressionService: EmailSuppressionService,
+  ) {
+    this.repo = followUpRepo;
+    this.emailService = emailService;
+    this.suppressionService = suppressionService;
+  }
+
+  /**
+   * Lists a host's follow-up emails
+   * @param {number} hostId - ID of the host
+   * @returns {Promise<FollowUpEmail[]>} The follow-up emails, in the order they are sent
+   * @throws {Error} When the lookup fails
+   */
+  public async listForHost(hostId: number) {
+    try {
+      return await this.repo.findByHostId(hostId);
+    } catch (error) {
+      logger.error('Failed to list follow-up emails:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds one of a host's follow-up emails
+   * @param {number} hostId - ID of the host
+   * @param {number} id - ID of the follow-up email
+   * @returns {Promise<FollowUpEmail|undefined>} The follow-up email, or undefined when the host has no such email
+   * @throws {Error} When the lookup fails
+   */
+  public async findForHost(hostId: number, id: number) {
+    try {
+      const followUp = await this.repo.find(id);
+      return followUp?.host_id === hostId ? followUp : undefined;
+    } catch (error) {
+      logger.error('Failed to find follow-up email:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a follow-up email, unless the host already has one for its timeline
+   * @param {number} hostId - ID of the host
+   * @param {FollowUpInput} input - The email, what triggers it and how many days after
+   * @returns {Promise<SaveResult>} The follow-up email, or why it could not be created
+   * @throws {Error} When the follow-up email cannot be created
+   */
+  public async create(hostId: number, input: FollowUpInput): Promise<SaveResult> {
+    try {
+      if (await this.repo.findByTimeline(hostId, input.timeline)) {
+        return { error: 'timeline_taken' };
+      }
+
+      const [{ id }] = await this.repo.create({ ...input, host_id: hostId });
+      return { followUp: (await this.repo.find(id)) as FollowUpEmail };
+    } catch (error) {
+      logger.error('Failed to create follow-up email:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Updates a follow-up email. Steps already scheduled keep their send time.
+   * @param {FollowUpEmail} followUp - The follow-up email
+   * @param {Partial<FollowUpInput & {enabled: boolean}>} data - The fields to change
+   * @returns {Promise<SaveResult>} The updated follow-up email, or why it could not be updated
+   * @throws {Error} When the follow-up email cannot be updated
+   */
+  public async update(
+    followUp: FollowUpEmail,
+    data: Partial<FollowUpInput & { enabled: boolean }>,
+  ): Promise<SaveResult> {
+    try {
+      if (data.timeline !== undefined && data.timeline !== followUp.timeline) {
+        if (await this.repo.findByTimeline(followUp.host_id, data.timeline)) {
+          return { error: 'timeline_taken' };
+        }
+      }
+
+      await this.repo.update(followUp.id, data);
+      return { followUp: { ...followUp, ...data } };
+    } catch (error) {
+      logger.error('Failed to update follow-up email:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a follow-up email along with its steps, so none of them are sent
+   * @param {FollowUpEmail} followUp - The follow-up email
+   * @returns {Promise<void>}
+   * @throws {Error} When the follow-up email cannot be deleted
+   */
+  public async remove(followUp: FollowUpEmail) {
+    try {
+      await this.repo.delete(followUp.id);
+    } catch (error) {
+      logger.error('Failed to delete follow-up email:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Starts a host's follow-ups for a recipient after something happened to them. Called by
+   * whatever records the event, e.g. when a lead is created or attends an event.
+   * @param {number} hostId - ID of the host
+   * @param {FollowUpTrigger} trigger - What happened
+   * @param {{email: string, name?: string}} recipient - Who it happened to
+   * @returns {Promise<number>} How many follow-up emails were scheduled
+   * @throws {Error} When a step cannot be saved or scheduled
+   */
+  public async trigger(
+    hostId: number,
+    trigger: FollowUpTrigger,
+    recipient: { email: string; name?: string },
+  ) {
+    try {
+      const email = normaliseEmail(recipient.email);
+      const followUps = (await this.repo.findByHostId(hostId)).filter(
+        (followUp) => followUp.enabled && followUp.follow_up_who_gets_it.includes(trigger),
+      );
+      if (followUps.length === 0) {
+        return 0;
+      }
+      if (await this.suppressionService.check(hostId, email, 'marketing')) {
+        logger.info(`Not scheduling follow-ups to ${email}, the address is suppressed`);
+        return 0;
+      }
+
+      let scheduled = 0;
+      for (const followUp of followUps) {
+        // Someone already waiting for this email, e.g. from an earlier event, gets it once
+        if (await this.repo.findScheduledStep(followUp.id, email)) {
+          continue;
+        }
+        const delay = followUp.timeline * DAY;
+        const [{ id }] = await this.repo.createStep({
+          follow_up_id: followUp.id,
+          host_id: hostId,
+          email,
+          name: recipient.name ?? '',
+          trigger,
+          send_at: new Date(Date.now() + delay),
+        });
+        await scheduleFollowUpStep(id, delay);
+        scheduled += 1;
+      }
+      return scheduled;
+    } catch (error) {
+      logger.error('Failed to trigger follow-up emails:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stops a host's follow-ups to a recipient who has converted, e.g. bought a membership
+   * @param {number} hostId - ID of the host
+   * @param {string} email - The recipient's address
+   * @returns {Promise<number>} How many scheduled steps were cancelled
+   * @throws {Error} When the steps cannot be cancelled
+   */
+  public async convert(hostId: number, email: string) {
+    try {
+      return await this.repo.cancelSteps(hostId, normaliseEmail(email), 'converted');
+    } catch (error) {
+      logger.error('Failed to cancel follow-up emails:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sends a scheduled step once its delay has passed, unless it was cancelled, its follow-up
+   * was turned off or the recipient was suppressed in the meantime
+   * @param {number} stepId - ID of the step
+   * @returns {Promise<void>}
+   * @throws {Error} When the email cannot be queued, so the job is retried
+   */
+  public async sendStep(stepId: number) {
+    const step = await this.repo.findStep(stepId);
+    if (!step || !(await this.repo.claimStep(step.id))) {
+      logger.info(`Skipping follow-up step ${stepId}, it has been deleted, cancelled or sent`);
+      return;
+    }
+
+    let emailId: number | undefined;
+    try {
+      const { followUp } = step;
+      if (!followUp.enabled) {
+        await this.repo.updateStep(step.id, { status: 'cancelled', cancel_reason: 'disabled' });
+        return;
+      }
+      if (await this.suppressionService.check(step.host_id, step.email, 'marketing')) {
+        await this.repo.updateStep(step.id, { status: 'cancelled', cancel_reason: 'suppressed' });
+        return;
+      }
+
+      // Sent like any other email of the host, so it is retried and tracked the same way
+      emailId = await this.emailService.createEmail({
+        email: step.email,
+        host_id: step.host_id,
+        category: 'marketing',
+        subject: followUp.title,
+        title: followUp.title,
+        subtitle: '',
+        body: followUp.content,
+        button_text: '',
+        button_link: '',
+      });
+      await this.repo.updateStep(step.id, { status: 'sent', email_id: emailId });
+    } catch (error) {
+      logger.error(`Failed to send follow-up step ${stepId}:`, error);
+      // Scheduled again so the job's retry can send it, unless the email was already created
+      if (emailId === undefined) {
+        await this.repo.updateStep(step.id, { status: 'scheduled' });
+      }
+      throw error;
+    }
+  }
+}
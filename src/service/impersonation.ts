@@ -0,0 +1,75 @@
+import { logger } from '../lib/logger.ts';
+import type { ImpersonationRepository } from '../repository/impersonation.ts';
+import type { User } from '../schema/schema.ts';
+import type { RequestMeta } from '../util/request.ts';
+import type { SessionService } from './session.ts';
+
+/**
+ * Service class for admins acting as other users. Every start and stop is written to the
+ * impersonations table, which doubles as the audit trail.
+ */
+export class ImpersonationService {
+  private repo: ImpersonationRepository;
+  private sessionService: SessionService;
+
+  constructor(impersonationRepo: ImpersonationRepository, sessionService: SessionService) {
+    this.repo = impersonationRepo;
+    this.sessionService = sessionService;
+  }
+
+  /**
+   * Starts impersonating a user and records who did it and why
+   * @param {User} admin - The admin doing the impersonation
+   * @param {User} user - The user being impersonated
+   * @param {string|undefined} reason - Why support needs to see the account
+   * @param {RequestMeta} meta - Device, IP and user agent of the admin's request
+   * @returns {Promise<{token: string, expiresAt: Date}>} The access token for the impersonation session
+   * @throws {Error} When the session or audit record cannot be created
+   */
+  public async start(admin: User, user: User, reason: string | undefined, meta: RequestMeta) {
+    try {
+      const { sessionId, token, expiresAt } = await this.sessionService.createImpersonation(
+        user,
+        admin,
+        meta,
+      );
+      await this.repo.create({
+        admin_id: admin.id,
+        user_id: user.id,
+        session_id: sessionId,
+        reason,
+        ip_address: meta.ip,
+        user_agent: meta.userAgent,
+        expires_at: expiresAt,
+      });
+      logger.info(`Admin ${admin.id} started impersonating user ${user.id}`);
+
+      return { token, expiresAt };
+    } catch (error) {
+      logger.error('Failed to start impersonation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ends an impersonation by signing out its session and recording the stop time
+   * @param {number} sessionId - ID of the impersonation session
+   * @returns {Promise<void>}
+   * @throws {Error} When the session or audit record cannot be updated
+   */
+  public async stop(sessionId: number): Promise<void> {
+    try {
+      await this.sessionService.revoke(sessionId);
+      const impersonation = await this.repo.findBySessionId(sessionId);
+      if (impersonation) {
+        await this.repo.end(impersonation.id);
+        logger.info(
+          `Admin ${impersonation.admin_id} stopped impersonating user ${impersonation.user_id}`,
+        );
+      }
+    } catch (error) {
+      logger.error('Failed to stop impersonation:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import env from '../lib/env.ts';
+import { logger } from '../lib/logger.ts';
+import type { UserRepository } from '../repository/user.ts';
+import type { User } from '../schema/schema.ts';
+import { sendTransactionalEmail } from '../task/email-processor.ts';
+import { formatDate } from '../util/string.ts';
+import type { OneTimeCodeService } from './one-time-code.ts';
+
+const MAX_FAILED_ATTEMPTS = 5;
+const BASE_LOCK_DURATION = 15 * 60 * 1000; // 15 minutes
+const MAX_LOCK_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Service class for locking accounts after repeated failed logins.
+ * Each consecutive lockout doubles the lock duration, up to a day.
+ */
+export class AccountLockoutService {
+  private repo: UserRepository;
+  private oneTimeCodeService: OneTimeCodeService;
+
+  constructor(userRepository: UserRepository, oneTimeCodeService: OneTimeCodeService) {
+    this.repo = userRepository;
+    this.oneTimeCodeService = oneTimeCodeService;
+  }
+
+  /**
+   * Checks whether an account is currently locked
+   * @param {User} user - The user to check
+   * @returns {boolean} True while the lock has not expired
+   */
+  public isLocked(user: User): boolean {
+    return !!user.locked_until && user.locked_until.getTime() > Date.now();
+  }
+
+  /**
+   * Records a failed login and locks the account once the failure threshold is reached
+   * @param {User} user - The user whose login failed
+   * @returns {Promise<void>}
+   * @throws {Error} When updating the user fails
+   */
+  public async recordFailure(user: User): Promise<void> {
+    try {
+      await this.repo.incrementFailedLogins(user.id);
+      const updated = await this.repo.find(user.id);
+      if (!updated || updated.failed_login_attempts < MAX_FAILED_ATTEMPTS) {
+        return;
+      }
+
+      const duration = Math.min(BASE_LOCK_DURATION * 2 ** updated.lockout_count, MAX_LOCK_DURATION);
+      const lockedUntil = new Date(Date.now() + duration);
+      await this.repo.update(user.id, {
+        failed_login_attempts: 0,
+        lockout_count: updated.lockout_count + 1,
+        locked_until: lockedUntil,
+      });
+      logger.warn(`Account ${user.id} locked until ${lockedUntil.toISOString()}`);
+
+      await this.sendLockedEmail(updated, lockedUntil);
+    } catch (error) {
+      logger.error('Failed to record failed login:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Clears the failure counters after a successful login
+   * @param {User} user - The user who logged in
+   * @returns {Promise<void>}
+   * @throws {Error} When updating the user fails
+   */
+  public async recordSuccess(user: User): Promise<void> {
+    if (!user.failed_login_attempts && !user.lockout_count && !user.locked_until) {
+      return;
+    }
+
+    try {
+      await this.repo.update(user.id, {
+        failed_login_attempts: 0,
+        lockout_count: 0,
+        locked_until: null,
+      });
+    } catch (error) {
+      logger.error('Failed to reset failed logins:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Unlocks an account with the code sent in the lockout email
+   * @param {User} user - The locked user
+   * @param {string} code - The unlock code
+   * @returns {Promise<boolean>} True when the code was valid and the account unlocked
+   * @throws {Error} When updating the user fails
+   */
+  public async unlock(user: User, code: string): Promise<boolean> {
+    try {
+      const isValid = await this.oneTimeCodeService.verify(user.id, 'account_unlock', code);
+      if (!isValid) {
+        return false;
+      }
+
+      // Keep lockout_count so an attacker who can read the mailbox gains nothing from unlocking
+      await this.repo.update(user.id, { failed_login_attempts: 0, locked_until: null });
+      return true;
+    } catch (error) {
+      logger.error('Failed to unlock account:', error);
+      throw error;
+    }
+  }
+
+  private async sendLockedEmail(user: User, lockedUntil: Date) {
+    const issued = await this.oneTimeCodeService.issue(user.id, 'account_unlock');
+    if ('retryAfter' in issued) {
+      return;
+    }
+
+    const link = `${env.FRONTEND_URL}/unlock-account?token=${issued.code}&email=${encodeURIComponent(user.email)}`;
+    await sendTransactionalEmail(user.email, user.name, 'notice', {
+      subject: 'Your account has been locked',
+      title: 'Account locked',
+      subtitle: 'We noticed several failed sign in attempts',
+      body: `Your account was locked after several failed sign in attempts. It will unlock automatically on ${formatDate(lockedUntil, 'DD MMM YYYY HH:mm')}, or you can unlock it now using the button below. If this was not you, we recommend resetting your password.`,
+      buttonText: 'Unlock my account',
+      buttonLink: link,
+    });
+  }
+}
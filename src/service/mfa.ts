@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+
+import { decrypt, encrypt } from '../lib/encryption.ts';
+import env from '../lib/env.ts';
+import type { MfaTokenPayload } from '../lib/jwt.ts';
+import { logger } from '../lib/logger.ts';
+import { connection } from '../lib/queue.ts';
+import { buildOtpAuthUri, generateSecret, verifyCode } from '../lib/totp.ts';
+import type { UserRepository } from '../repository/user.ts';
+import type { User } from '../schema/schema.ts';
+
+const RECOVERY_CODE_COUNT = 10;
+const USED_TOKEN_PREFIX = 'mfa:used:';
+const TOKEN_ATTEMPTS_PREFIX = 'mfa:attempts:';
+// Codes that can be tried with one pending login before the password has to be entered again
+const MAX_CODE_ATTEMPTS_PER_TOKEN = 3;
+// Unambiguous characters only, recovery codes are usually typed from a printout
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+/**
+ * Service class for TOTP two-factor authentication enrolment and verification
+ */
+export class MfaService {
+  private repo: UserRepository;
+
+  constructor(userRepository: UserRepository) {
+    this.repo = userRepository;
+  }
+
+  // Keys about a token are kept until it expires, after that it is refused anyway
+  private secondsUntilExpiry(token: MfaTokenPayload) {
+    return Math.max(token.expiresAt - Math.floor(Date.now() / 1000), 1);
+  }
+
+  private normalizeRecoveryCode(code: string) {
+    return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
+  private hashRecoveryCode(code: string) {
+    return crypto.createHash('sha256').update(this.normalizeRecoveryCode(code)).digest('hex');
+  }
+
+  private generateRecoveryCodes() {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const chars = Array.from(
+        { length: 10 },
+        () => RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)],
+      ).join('');
+      return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+    });
+  }
+
+  /**
+   * Starts enrolment by generating a new secret. 2FA stays disabled until a first code is confirmed.
+   * @param {User} user - The user enrolling
+   * @returns {Promise<{secret: string, otpauthUrl: string}>} The secret and the URI to render as a QR code
+   * @throws {Error} When storing the secret fails
+   */
+  public async setup(user: User) {
+    try {
+      const secret = generateSecret();
+      await this.repo.update(user.id, {
+        mfa_secret: encrypt(secret),
+        mfa_enabled: false,
+        mfa_recovery_codes: null,
+        mfa_last_used_step: null,
+      });
+
+      return {
+        secret,
+        otpauthUrl: buildOtpAuthUri(secret, user.email, env.BRAND_NAME),
+      };
+    } catch (error) {
+      logger.error('Failed to set up two-factor authentication:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirms enrolment with a code from the authenticator app and issues recovery codes
+   * @param {User} user - The user enrolling
+   * @param {string} code - The TOTP code
+   * @returns {Promise<string[]|null>} The plain recovery codes to show once, or null when the code is invalid
+   * @throws {Error} When enabling fails
+   */
+  public async enable(user: User, code: string) {
+    try {
+      if (!user.mfa_secret) {
+        return null;
+      }
+
+      const step = verifyCode(decrypt(user.mfa_secret), code);
+      if (step === null) {
+        return null;
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+      await this.repo.update(user.id, {
+        mfa_enabled: true,
+        mfa_recovery_codes: recoveryCodes.map((recoveryCode) =>
+          this.hashRecoveryCode(recoveryCode),
+        ),
+        mfa_last_used_step: step,
+      });
+
+      return recoveryCodes;
+    } catch (error) {
+      logger.error('Failed to enable two-factor authentication:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Turns two-factor authentication off and discards the secret and recovery codes
+   * @param {User} user - The user disabling 2FA
+   * @returns {Promise<void>}
+   * @throws {Error} When disabling fails
+   */
+  public async disable(user: User): Promise<void> {
+    try {
+      await this.repo.update(user.id, {
+        mfa_enabled: false,
+        mfa_secret: null,
+        mfa_recovery_codes: null,
+        mfa_last_used_step: null,
+      });
+    } catch (error) {
+      logger.error('Failed to disable two-factor authentication:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Verifies a second factor, either a TOTP code or a single-use recovery code.
+   * TOTP codes can only be used once, recovery codes are removed when used.
+   * @param {User} user - The user logging in
+   * @param {string} code - The TOTP or recovery code
+   * @returns {Promise<boolean>} True when the code is valid
+   * @throws {Error} When updating the user fails
+   */
+  public async verify(user: User, code: string): Promise<boolean> {
+    try {
+      if (!user.mfa_enabled || !user.mfa_secret) {
+        return false;
+      }
+
+      const step = verifyCode(decrypt(user.mfa_secret), code);
+      if (step !== null) {
+        // Reject replays of a code that was already accepted, also by a concurrent request
+        return await this.repo.claimMfaStep(user.id, step);
+      }
+
+      const hashes = user.mfa_recovery_codes ?? [];
+      const hash = Buffer.from(this.hashRecoveryCode(code), 'hex');
+      const match = hashes.find((stored) =>
+        crypto.timingSafeEqual(Buffer.from(stored, 'hex'), hash),
+      );
+      if (!match) {
+        return false;
+      }
+
+      return await this.repo.removeRecoveryCode(user.id, match);
+    } catch (error) {
+      logger.error('Failed to verify two-factor code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces all recovery codes with a fresh set
+   * @param {User} user - The user with 2FA enabled
+   * @returns {Promise<string[]>} The plain recovery codes to show once
+   * @throws {Error} When storing the codes fails
+   */
+  public async regenerateRecoveryCodes(user: User) {
+    try {
+      const recoveryCodes = this.generateRecoveryCodes();
+      await this.repo.update(user.id, {
+        mfa_recovery_codes: recoveryCodes.map((recoveryCode) =>
+          this.hashRecoveryCode(recoveryCode),
+        ),
+      });
+      return recoveryCodes;
+    } catch (error) {
+      logger.error('Failed to regenerate recovery codes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Counts a code tried with the pending token of a two-factor login. Counted before the code
+   * is checked, so concurrent guesses cannot get past the limit.
+   * @param {MfaTokenPayload} token - The decoded MFA token
+   * @returns {Promise<boolean>} False once the token has had all its attempts
+   * @throws {Error} When Redis cannot be reached
+   */
+  public async claimCodeAttempt(token: MfaTokenPayload): Promise<boolean> {
+    try {
+      const key = `${TOKEN_ATTEMPTS_PREFIX}${token.tokenId}`;
+      const attempts = await connection.incr(key);
+      if (attempts === 1) {
+        await connection.expire(key, this.secondsUntilExpiry(token));
+      }
+      return attempts <= MAX_CODE_ATTEMPTS_PER_TOKEN;
+    } catch (error) {
+      logger.error('Failed to count MFA code attempt:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marks the pending token of a two-factor login as used, so it cannot start another session
+   * @param {MfaTokenPayload} token - The decoded MFA token
+   * @returns {Promise<boolean>} False when the token was already used
+   * @throws {Error} When Redis cannot be reached
+   */
+  public async consumeLoginToken(token: MfaTokenPayload): Promise<boolean> {
+    try {
+      const result = await connection.set(
+        `${USED_TOKEN_PREFIX}${token.tokenId}`,
+        '1',
+        'EX',
+        this.secondsUntilExpiry(token),
+        'NX',
+      );
+      return result === 'OK';
+    } catch (error) {
+      logger.error('Failed to mark MFA token as used:', error);
+      throw error;
+    }
+  }
+}
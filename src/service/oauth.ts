@@ -0,0 +1,395 @@
+import crypto from 'crypto';
+
+import env from '../lib/env.ts';
+import { logger } from '../lib/logger.ts';
+import { OAUTH_PROVIDERS, type OAuthProfile, type OAuthProvider } from '../lib/oauth-providers.ts';
+import {
+  createPkce,
+  discover,
+  exchangeCode,
+  fetchWithToken,
+  type IdTokenClaims,
+  verifyIdToken,
+} from '../lib/oidc.ts';
+import { connection } from '../lib/queue.ts';
+import type { IdentityRepository } from '../repository/identity.ts';
+import type { Identity, User } from '../schema/schema.ts';
+import type { UserService } from './user.ts';
+
+const STATE_TTL = 60 * 10; // 10 minutes to finish signing in at the provider
+const STATE_PREFIX = 'oauth:state:';
+
+type PendingAuthorization = {
+  provider: string;
+  codeVerifier: string;
+  nonce: string;
+  // Hash of the value kept in a cookie of the browser that started the flow
+  bindingHash: string;
+  // Set when a signed in user is linking the provider rather than signing in with it
+  userId?: number;
+};
+
+type AuthorizationRequest = {
+  url: string;
+  // For a cookie, the callback is only accepted from the browser that holds it
+  binding: string;
+};
+
+type CallbackResult =
+  | { user: User; linked: boolean }
+  // An unverified account already uses the email, its owner has to sign in and link
+  | { error: 'link_required' }
+  // The provider account belongs to another user, or the user already linked a different one
+  | { error: 'identity_in_use' };
+
+type UnlinkResult = 'unlinked' | 'not_linked' | 'last_sign_in_method';
+
+/**
+ * Service class for signing in with OAuth2 and OpenID Connect providers. Each provider
+ * runs the authorization code flow with PKCE, and ID tokens are checked against the
+ * issuer's published keys.
+ */
+export class OAuthService {
+  private userService: UserService;
+  private identityRepo: IdentityRepository;
+  private providers: Record<string, OAuthProvider>;
+
+  /**
+   * Creates an instance of OAuthService
+   * @param {UserService} userService - Service for managing users
+   * @param {IdentityRepository} identityRepo - Repository for linked provider accounts
+   * @param {Record<string, OAuthProvider>} [providers] - Providers by name, defaults to those configured in env
+   */
+  constructor(
+    userService: UserService,
+    identityRepo: IdentityRepository,
+    providers = OAUTH_PROVIDERS,
+  ) {
+    this.userService = userService;
+    this.identityRepo = identityRepo;
+    this.providers = providers;
+  }
+
+  private hashBinding(binding: string) {
+    return crypto.createHash('sha256').update(binding).digest('hex');
+  }
+
+  private signState(provider: string, value: string) {
+    return crypto
+      .createHmac('sha256', env.SECRET_KEY)
+      .update(`oauth:${provider}:${value}`)
+      .digest('base64url');
+  }
+
+  /**
+   * Checks whether a provider is configured
+   * @param {string} name - Name of the provider, as used in the route
+   * @returns {boolean} True when the provider can be used
+   */
+  public isSupported(name: string): boolean {
+    return Object.hasOwn(this.providers, name);
+  }
+
+  /**
+   * Lists the names of the configured providers
+   * @returns {string[]} The provider names
+   */
+  public listProviders(): string[] {
+    return Object.keys(this.providers);
+  }
+
+  /**
+   * Generates the URL to send the user to, remembering the state, PKCE verifier and
+   * nonce until the provider redirects back
+   * @param {string} name - Name of the provider
+   * @param {number} [userId] - ID of the signed in user, when linking the provider to their account
+   * @returns {Promise<AuthorizationRequest>} The authorization URL, and the binding to keep in the browser
+   * @throws {Error} When the provider cannot be reached or the state cannot be stored
+   */
+  public async getAuthUrl(name: string, userId?: number): Promise<AuthorizationRequest> {
+    try {
+      const provider = this.providers[name];
+      const { authorizationEndpoint } = await this.resolveEndpoints(provider);
+
+      const key = crypto.randomBytes(32).toString('base64url');
+      // Signed so forged states are turned away before they reach Redis
+      const state = `${key}.${this.signState(name, key)}`;
+      const nonce = crypto.randomBytes(16).toString('base64url');
+      const pkce = createPkce();
+      // Without it, a callback URL started by someone else could be completed in this browser
+      const binding = crypto.randomBytes(32).toString('base64url');
+      const pending: PendingAuthorization = {
+        provider: name,
+        codeVerifier: pkce.verifier,
+        nonce,
+        bindingHash: this.hashBinding(binding),
+        userId,
+      };
+      await connection.set(`${STATE_PREFIX}${key}`, JSON.stringify(pending), 'EX', STATE_TTL);
+
+      const url = new URL(authorizationEndpoint);
+      url.search = new URLSearchParams({
+        response_type: 'code',
+        client_id: provider.clientId,
+        redirect_uri: provider.redirectUri,
+        scope: provider.scopes.join(' '),
+        state,
+        nonce,
+        code_challenge: pkce.challenge,
+        code_challenge_method: 'S256',
+        ...provider.authParams,
+      }).toString();
+      return { url: url.toString(), binding };
+    } catch (error) {
+      logger.error('Failed to create authorization URL:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Takes the pending authorization for a state returned by the provider. Each state
+   * can only be used once, and only by the browser that started the flow.
+   * @param {string} provider - Name of the provider the callback came from
+   * @param {string} state - The state parameter from the callback
+   * @param {string} binding - The binding from the cookie of the browser making the callback
+   * @returns {Promise<PendingAuthorization|null>} The pending authorization, or null when forged, unknown, expired or from another browser
+   */
+  public async consumeState(
+    provider: string,
+    state: string,
+    binding: string,
+  ): Promise<PendingAuthorization | null> {
+    const [key, signature] = state.split('.');
+    if (!key || !signature) {
+      return null;
+    }
+    const expected = Buffer.from(this.signState(provider, key));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    const stored = await connection.getdel(`${STATE_PREFIX}${key}`);
+    const pending = stored ? (JSON.parse(stored) as PendingAuthorization) : null;
+    // States stored before browsers were bound have no binding to check against
+    if (!pending || pending.provider !== provider || !pending.bindingHash) {
+      return null;
+    }
+    const expectedBinding = Buffer.from(pending.bindingHash, 'hex');
+    const actualBinding = Buffer.from(this.hashBinding(binding), 'hex');
+    return crypto.timingSafeEqual(expectedBinding, actualBinding) ? pending : null;
+  }
+
+  /**
+   * Completes the authorization code flow. When linking, the provider account is added to
+   * the user who started the flow. Otherwise the user it is linked to is signed in, and a
+   * new user is created for an unknown account with a verified email.
+   * @param {PendingAuthorization} pending - The authorization started by getAuthUrl
+   * @param {string} code - The authorization code from the provider
+   * @returns {Promise<CallbackResult>} The user, or why the provider account could not be used
+   * @throws {Error} When the code exchange or ID token validation fails, or the provider has no verified email
+   */
+  public async handleCallback(
+    pending: PendingAuthorization,
+    code: string,
+  ): Promise<CallbackResult> {
+    try {
+      const provider = this.providers[pending.provider];
+      const endpoints = await this.resolveEndpoints(provider);
+      const tokens = await exchangeCode(endpoints.tokenEndpoint, {
+        code,
+        redirectUri: provider.redirectUri,
+        clientId: provider.clientId,
+        clientSecret: provider.clientSecret,
+        codeVerifier: pending.codeVerifier,
+      });
+
+      let profile: OAuthProfile;
+      if (provider.fetchProfile) {
+        profile = await provider.fetchProfile(tokens.access_token);
+      } else {
+        if (!tokens.id_token || !endpoints.jwksUri || !endpoints.issuer) {
+          throw new Error(`No ID token returned by ${provider.name}`);
+        }
+        const claims = await verifyIdToken(tokens.id_token, {
+          issuer: endpoints.issuer,
+          audience: provider.clientId,
+          jwksUri: endpoints.jwksUri,
+          nonce: pending.nonce,
+        });
+        profile = provider.mapClaims
+          ? provider.mapClaims(claims)
+          : {
+              subject: claims.sub,
+              email: claims.email,
+              emailVerified: claims.email_verified === true,
+              name: claims.name,
+              picture: claims.picture,
+            };
+        // Some issuers leave the profile out of the ID token
+        if (!profile.email && endpoints.userinfoEndpoint) {
+          const info = await fetchWithToken<Partial<IdTokenClaims>>(
+            endpoints.userinfoEndpoint,
+            tokens.access_token,
+          );
+          if (info.sub === claims.sub) {
+            profile = {
+              ...profile,
+              email: info.email,
+              emailVerified: info.email_verified === true,
+              name: profile.name ?? info.name,
+              picture: profile.picture ?? info.picture,
+            };
+          }
+        }
+      }
+
+      if (pending.userId) {
+        return await this.link(pending.userId, provider, profile);
+      }
+      return await this.signIn(provider, profile);
+    } catch (error) {
+      logger.error(`${pending.provider} authentication failed:`, error);
+      throw error;
+    }
+  }
+
+  private async resolveEndpoints(provider: OAuthProvider) {
+    if (!provider.issuer) {
+      if (!provider.authorizationEndpoint || !provider.tokenEndpoint) {
+        throw new Error(`No endpoints configured for ${provider.name}`);
+      }
+      return {
+        authorizationEndpoint: provider.authorizationEndpoint,
+        tokenEndpoint: provider.tokenEndpoint,
+      };
+    }
+
+    const document = await discover(provider.issuer);
+    return {
+      issuer: document.issuer,
+      authorizationEndpoint: document.authorization_endpoint,
+      tokenEndpoint: document.token_endpoint,
+      userinfoEndpoint: document.userinfo_endpoint,
+      jwksUri: document.jwks_uri,
+    };
+  }
+
+  private async link(
+    userId: number,
+    provider: OAuthProvider,
+    profile: OAuthProfile,
+  ): Promise<CallbackResult> {
+    const user = await this.userService.find(userId);
+    if (!user) {
+      throw new Error(`User ${userId} not found while linking ${provider.name}`);
+    }
+
+    const identity = await this.identityRepo.findByProviderSubject(provider.name, profile.subject);
+    if (identity) {
+      return identity.user_id === userId ? { user, linked: true } : { error: 'identity_in_use' };
+    }
+    const identities = await this.identityRepo.findByUserId(userId);
+    if (identities.some((linked) => linked.provider === provider.name)) {
+      return { error: 'identity_in_use' };
+    }
+
+    await this.identityRepo.create({
+      user_id: userId,
+      provider: provider.name,
+      subject: profile.subject,
+      email: profile.email ?? null,
+    });
+    return { user, linked: true };
+  }
+
+  private async signIn(provider: OAuthProvider, profile: OAuthProfile): Promise<CallbackResult> {
+    const identity = await this.identityRepo.findByProviderSubject(provider.name, profile.subject);
+    if (identity) {
+      await this.identityRepo.touch(identity.id);
+      const user = await this.userService.find(identity.user_id);
+      if (!user) {
+        throw new Error(`User ${identity.user_id} of ${provider.name} identity not found`);
+      }
+      return { user, linked: false };
+    }
+
+    if (!profile.email || !profile.emailVerified) {
+      throw new Error(`Verified email not provided by ${provider.name}`);
+    }
+
+    let user = await this.userService.findByEmail(profile.email);
+    if (user && !user.is_verified) {
+      // Whoever registered the address may not own it, so only its owner may link it
+      return { error: 'link_required' };
+    }
+    if (!user) {
+      await this.userService.create(
+        (profile.name || `${provider.name} user`).slice(0, 50),
+        profile.email,
+        crypto.randomUUID(),
+        'user',
+        '',
+        {
+          auth_provider: provider.name === 'google' ? 'google' : 'oauth',
+          is_verified: true,
+          profile_picture: profile.picture || null,
+        },
+      );
+      user = await this.userService.findByEmail(profile.email);
+      if (!user) {
+        throw new Error(`Failed to create user for ${provider.name} sign in`);
+      }
+    }
+
+    await this.identityRepo.create({
+      user_id: user.id,
+      provider: provider.name,
+      subject: profile.subject,
+      email: profile.email,
+      last_used_at: new Date(),
+    });
+    return { user, linked: false };
+  }
+
+  /**
+   * Lists the provider accounts linked to a user
+   * @param {number} userId - ID of the user
+   * @returns {Promise<Identity[]>} The linked identities
+   * @throws {Error} When the lookup fails
+   */
+  public async listIdentities(userId: number): Promise<Identity[]> {
+    try {
+      return await this.identityRepo.findByUserId(userId);
+    } catch (error) {
+      logger.error('Failed to list identities:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a provider from a user's account, unless it is the only way they can sign in
+   * @param {User} user - The user unlinking the provider
+   * @param {string} provider - Name of the provider
+   * @returns {Promise<UnlinkResult>} Whether the provider was unlinked, and why not
+   * @throws {Error} When deleting the identity fails
+   */
+  public async unlink(user: User, provider: string): Promise<UnlinkResult> {
+    try {
+      const identities = await this.identityRepo.findByUserId(user.id);
+      if (!identities.some((identity) => identity.provider === provider)) {
+        return 'not_linked';
+      }
+      // Accounts created through a provider have a random password nobody knows
+      if ((user.auth_provider ?? 'local') !== 'local' && identities.length === 1) {
+        return 'last_sign_in_method';
+      }
+
+      await this.identityRepo.delete(user.id, provider);
+      return 'unlinked';
+    } catch (error) {
+      logger.error('Failed to unlink identity:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+
+import env from '../lib/env.ts';
+import { logger } from '../lib/logger.ts';
+import type { OneTimeCodeRepository } from '../repository/one-time-code.ts';
+import type { OneTimeCodePurpose } from '../schema/schema.ts';
+
+type CodePolicy = {
+  format: 'digits' | 'token'; // 6 digits to type in, or a long token to put in a link
+  ttl: number; // seconds the code stays valid
+  maxAttempts: number; // wrong guesses before the code is burnt
+  cooldown: number; // seconds before another code can be sent
+};
+
+const CODE_POLICIES: Record<OneTimeCodePurpose, CodePolicy> = {
+  email_verification: { format: 'digits', ttl: 60 * 30, maxAttempts: 5, cooldown: 60 },
+  password_reset: { format: 'digits', ttl: 60 * 15, maxAttempts: 5, cooldown: 60 },
+  account_unlock: { format: 'digits', ttl: 60 * 60 * 24, maxAttempts: 5, cooldown: 60 },
+  magic_link: { format: 'token', ttl: 60 * 15, maxAttempts: 3, cooldown: 60 },
+  email_change: { format: 'digits', ttl: 60 * 30, maxAttempts: 5, cooldown: 60 },
+  // Sent alongside email_change, which already enforces the cooldown
+  email_change_cancel: { format: 'token', ttl: 60 * 60 * 24, maxAttempts: 3, cooldown: 0 },
+  // Valid for the whole grace period before a deleted account is erased
+  account_restore: { format: 'token', ttl: 60 * 60 * 24 * 30, maxAttempts: 3, cooldown: 0 },
+};
+
+type IssueResult = { code: string } | { retryAfter: number };
+
+/**
+ * Service class for short-lived, single-use codes sent to users by email
+ */
+export class OneTimeCodeService {
+  private repo: OneTimeCodeRepository;
+
+  constructor(oneTimeCodeRepo: OneTimeCodeRepository) {
+    this.repo = oneTimeCodeRepo;
+  }
+
+  private hash(userId: number, purpose: OneTimeCodePurpose, code: string, binding?: string) {
+    // Binding the user and purpose stops a code issued for one flow being replayed in another
+    const value = binding
+      ? `${purpose}:${userId}:${code}:${binding}`
+      : `${purpose}:${userId}:${code}`;
+    return crypto.createHmac('sha256', env.SECRET_KEY).update(value).digest('hex');
+  }
+
+  private generate(format: CodePolicy['format']) {
+    return format === 'token'
+      ? crypto.randomBytes(32).toString('base64url')
+      : crypto.randomInt(100000, 1000000).toString();
+  }
+
+  /**
+   * Issues a new code, replacing any outstanding code for the same purpose
+   * @param {number} userId - ID of the user the code is for
+   * @param {OneTimeCodePurpose} purpose - The flow the code can be used in
+   * @param {string} [binding] - Secret the code is tied to, which must be presented again to use it
+   * @returns {Promise<IssueResult>} The plain code, or the seconds to wait when a code was sent too recently
+   * @throws {Error} When storing the code fails
+   */
+  public async issue(
+    userId: number,
+    purpose: OneTimeCodePurpose,
+    binding?: string,
+  ): Promise<IssueResult> {
+    try {
+      const policy = CODE_POLICIES[purpose];
+
+      const latest = await this.repo.findLatest(userId, purpose);
+      if (latest?.created_at) {
+        const elapsed = (Date.now() - latest.created_at.getTime()) / 1000;
+        if (elapsed < policy.cooldown) {
+          return { retryAfter: Math.ceil(policy.cooldown - elapsed) };
+        }
+      }
+
+      const code = this.generate(policy.format);
+      await this.repo.deleteByUserId(userId, purpose);
+      await this.repo.create({
+        user_id: userId,
+        purpose,
+        code_hash: this.hash(userId, purpose, code, binding),
+        expires_at: new Date(Date.now() + policy.ttl * 1000),
+      });
+
+      return { code };
+    } catch (error) {
+      logger.error('Failed to issue one-time code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Verifies and consumes a code. Every call counts as an attempt, and the code stops
+   * working once it has been used, has expired or has run out of attempts.
+   * @param {number} userId - ID of the user the code was issued to
+   * @param {OneTimeCodePurpose} purpose - The flow the code is being used in
+   * @param {string} code - The code entered by the user
+   * @param {string} [binding] - The secret the code was issued with, if any
+   * @returns {Promise<boolean>} True when the code is valid
+   * @throws {Error} When the code lookup or update fails
+   */
+  public async verify(
+    userId: number,
+    purpose: OneTimeCodePurpose,
+    code: string,
+    binding?: string,
+  ): Promise<boolean> {
+    try {
+      const latest = await this.repo.findLatest(userId, purpose);
+      if (!latest || latest.consumed_at || latest.expires_at.getTime() <= Date.now()) {
+        return false;
+      }
+
+      // Reserve the attempt atomically so parallel guesses cannot exceed the limit
+      const reserved = await this.repo.reserveAttempt(
+        latest.id,
+        CODE_POLICIES[purpose].maxAttempts,
+      );
+      if (!reserved) {
+        return false;
+      }
+
+      const expected = Buffer.from(latest.code_hash, 'hex');
+      const actual = Buffer.from(this.hash(userId, purpose, code.trim(), binding), 'hex');
+      if (!crypto.timingSafeEqual(expected, actual)) {
+        return false;
+      }
+
+      return await this.repo.markConsumed(latest.id);
+    } catch (error) {
+      logger.error('Failed to verify one-time code:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+
+import { AVATAR_SIZES, renderAvatars, sniffImageType } from '../lib/image.ts';
+import { logger } from '../lib/logger.ts';
+import { storage as defaultStorage, type StorageDriver } from '../lib/storage.ts';
+import type { User } from '../schema/schema.ts';
+import type { UserService } from './user.ts';
+
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // 5 MB
+
+type UploadResult =
+  | { profilePicture: string; sizes: Record<string, string> }
+  | { error: 'too_large' | 'invalid_image' };
+
+/**
+ * Service class for profile pictures. Uploads are checked to be real images, resized to
+ * the standard avatar sizes and kept in the configured storage, and the files of the
+ * picture they replace are deleted.
+ */
+export class ProfileImageService {
+  private userService: UserService;
+  private storage: StorageDriver;
+
+  /**
+   * Creates an instance of ProfileImageService
+   * @param {UserService} userService - Service for managing users
+   * @param {StorageDriver} [storage] - Where the images are kept, defaults to the driver configured in env
+   */
+  constructor(userService: UserService, storage = defaultStorage) {
+    this.userService = userService;
+    this.storage = storage;
+  }
+
+  /**
+   * Replaces a user's profile picture
+   * @param {User} user - The user uploading the picture
+   * @param {Buffer} image - The uploaded file
+   * @returns {Promise<UploadResult>} The URLs of the new picture, or why it was refused
+   * @throws {Error} When storing the picture or updating the user fails
+   */
+  public async upload(user: User, image: Buffer): Promise<UploadResult> {
+    if (image.length > MAX_IMAGE_SIZE) {
+      return { error: 'too_large' };
+    }
+    if (!sniffImageType(image)) {
+      return { error: 'invalid_image' };
+    }
+
+    let avatars: Awaited<ReturnType<typeof renderAvatars>>;
+    try {
+      avatars = await renderAvatars(image);
+    } catch (error) {
+      // Truncated or corrupt files pass the signature check but cannot be decoded
+      logger.warn('Failed to decode profile picture:', error);
+      return { error: 'invalid_image' };
+    }
+
+    try {
+      const id = crypto.randomUUID();
+      const sizes: Record<string, string> = {};
+      for (const [name, avatar] of Object.entries(avatars)) {
+        sizes[name] = await this.storage.put(
+          `avatars/${user.id}/${id}-${AVATAR_SIZES[name as keyof typeof AVATAR_SIZES]}.webp`,
+          avatar,
+          'image/webp',
+        );
+      }
+
+      await this.userService.updateProfileImage(user.id, sizes.medium, sizes);
+      await this.deleteFiles(user);
+      return { profilePicture: sizes.medium, sizes };
+    } catch (error) {
+      logger.error('Failed to upload profile picture:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a user's profile picture and deletes its files
+   * @param {User} user - The user whose picture is removed
+   * @returns {Promise<void>}
+   * @throws {Error} When updating the user fails
+   */
+  public async remove(user: User) {
+    try {
+      await this.userService.updateProfileImage(user.id, null);
+      await this.deleteFiles(user);
+    } catch (error) {
+      logger.error('Failed to remove profile picture:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes the stored files of a user's current picture. Pictures hosted elsewhere, such
+   * as those from sign in providers, are left alone.
+   * @param {User} user - The user as loaded before the picture changed
+   * @returns {Promise<void>}
+   */
+  public async deleteFiles(user: User) {
+    const urls = new Set([
+      ...Object.values(user.profile_picture_sizes ?? {}),
+      ...(user.profile_picture ? [user.profile_picture] : []),
+    ]);
+    for (const url of urls) {
+      const key = this.storage.keyFromUrl(url);
+      if (!key) {
+        continue;
+      }
+      try {
+        await this.storage.delete(key);
+      } catch (error) {
+        // The new picture is already in place, a stray file is not worth failing over
+        logger.error(`Failed to delete old profile picture ${key}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,260 @@
+import crypto from 'crypto';
+
+import {
+  encode,
+  encodeImpersonation,
+  IMPERSONATION_TOKEN_TTL,
+  REFRESH_TOKEN_TTL,
+} from '../lib/jwt.ts';
+import { logger } from '../lib/logger.ts';
+import type { SessionRepository } from '../repository/session.ts';
+import type { UserRepository } from '../repository/user.ts';
+import type { Session, User } from '../schema/schema.ts';
+import type { RequestMeta } from '../util/request.ts';
+
+// Reuse of older tokens than this is not detected, they are simply rejected
+const MAX_ROTATED_TOKEN_HASHES = 50;
+
+type SessionTokens = {
+  sessionId: number;
+  token: string;
+  refreshToken: string;
+};
+
+/**
+ * Service class for managing login sessions, refresh token rotation and revocation
+ */
+export class SessionService {
+  private repo: SessionRepository;
+  private userRepo: UserRepository;
+
+  constructor(sessionRepo: SessionRepository, userRepo: UserRepository) {
+    this.repo = sessionRepo;
+    this.userRepo = userRepo;
+  }
+
+  private hashSecret(secret: string) {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  private newSecret() {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  private expiry() {
+    return new Date(Date.now() + REFRESH_TOKEN_TTL * 1000);
+  }
+
+  /**
+   * Starts a new session for a user and issues its first token pair
+   * @param {Pick<User, 'id' | 'email'>} user - The user logging in
+   * @param {RequestMeta} meta - Device, IP and user agent of the request
+   * @returns {Promise<SessionTokens>} The session id, access token and refresh token
+   * @throws {Error} When session creation fails
+   */
+  public async create(user: Pick<User, 'id' | 'email'>, meta: RequestMeta): Promise<SessionTokens> {
+    try {
+      const secret = this.newSecret();
+      const [{ id }] = await this.repo.create({
+        user_id: user.id,
+        refresh_token_hash: this.hashSecret(secret),
+        device: meta.device,
+        ip_address: meta.ip,
+        user_agent: meta.userAgent,
+        last_used_at: new Date(),
+        expires_at: this.expiry(),
+      });
+
+      return {
+        sessionId: id,
+        token: await encode(user.id, user.email, id),
+        refreshToken: `${id}.${secret}`,
+      };
+    } catch (error) {
+      logger.error('Failed to create session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Starts a short-lived session that lets an admin act as another user. No refresh token is
+   * issued, so the session ends when its access token expires.
+   * @param {Pick<User, 'id' | 'email'>} user - The user being impersonated
+   * @param {Pick<User, 'id'>} impersonator - The admin doing the impersonation
+   * @param {RequestMeta} meta - Device, IP and user agent of the admin's request
+   * @returns {Promise<{sessionId: number, token: string, expiresAt: Date}>} The session and its access token
+   * @throws {Error} When session creation fails
+   */
+  public async createImpersonation(
+    user: Pick<User, 'id' | 'email'>,
+    impersonator: Pick<User, 'id'>,
+    meta: RequestMeta,
+  ) {
+    try {
+      const expiresAt = new Date(Date.now() + IMPERSONATION_TOKEN_TTL * 1000);
+      const [{ id }] = await this.repo.create({
+        user_id: user.id,
+        impersonator_id: impersonator.id,
+        // Nobody holds the secret, the session cannot be refreshed
+        refresh_token_hash: this.hashSecret(this.newSecret()),
+        device: meta.device,
+        ip_address: meta.ip,
+        user_agent: meta.userAgent,
+        last_used_at: new Date(),
+        expires_at: expiresAt,
+      });
+
+      return {
+        sessionId: id,
+        token: await encodeImpersonation(user.id, user.email, id, impersonator.id),
+        expiresAt,
+      };
+    } catch (error) {
+      logger.error('Failed to create impersonation session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Exchanges a refresh token for a new token pair, rotating the refresh token.
+   * Presenting an already rotated refresh token revokes the session, since it means the token leaked.
+   * Any other wrong secret is only rejected, so guessing a session id cannot sign its user out.
+   * @param {string} refreshToken - The refresh token issued with the previous pair
+   * @param {RequestMeta} meta - Device, IP and user agent of the request
+   * @returns {Promise<SessionTokens|null>} The new tokens, or null when the refresh token is not valid
+   * @throws {Error} When the session lookup or update fails
+   */
+  public async refresh(refreshToken: string, meta: RequestMeta): Promise<SessionTokens | null> {
+    try {
+      const [id, secret] = refreshToken.split('.');
+      const sessionId = Number.parseInt(id);
+      if (!sessionId || !secret) {
+        return null;
+      }
+
+      const session = await this.repo.find(sessionId);
+      if (!session || !this.isUsable(session) || session.impersonator_id) {
+        return null;
+      }
+
+      const hash = this.hashSecret(secret);
+      if (!this.hashMatches(session.refresh_token_hash, hash)) {
+        // A wrong secret alone proves nothing, session ids are easy to guess
+        const rotated = session.rotated_token_hashes ?? [];
+        if (rotated.some((previous) => this.hashMatches(previous, hash))) {
+          logger.warn(`Refresh token reuse detected for session ${session.id}, revoking`);
+          await this.repo.revoke(session.id);
+        }
+        return null;
+      }
+
+      const user = await this.userRepo.find(session.user_id);
+      if (!user || user.is_banned || user.is_deleted) {
+        return null;
+      }
+
+      const nextSecret = this.newSecret();
+      const isRotated = await this.repo.rotate(session.id, session.refresh_token_hash, {
+        refresh_token_hash: this.hashSecret(nextSecret),
+        rotated_token_hashes: [
+          ...(session.rotated_token_hashes ?? []),
+          session.refresh_token_hash,
+        ].slice(-MAX_ROTATED_TOKEN_HASHES),
+        ip_address: meta.ip,
+        user_agent: meta.userAgent,
+        device: meta.device,
+        last_used_at: new Date(),
+        expires_at: this.expiry(),
+      });
+      if (!isRotated) {
+        // Another request refreshed with the same token first, one of them holds a stolen copy
+        logger.warn(`Concurrent refresh token use detected for session ${session.id}, revoking`);
+        await this.repo.revoke(session.id);
+        return null;
+      }
+
+      return {
+        sessionId: session.id,
+        token: await encode(user.id, user.email, session.id),
+        refreshToken: `${session.id}.${nextSecret}`,
+      };
+    } catch (error) {
+      logger.error('Failed to refresh session:', error);
+      throw error;
+    }
+  }
+
+  private hashMatches(expected: string, actual: string) {
+    return crypto.timingSafeEqual(Buffer.from(expected, 'hex'), Buffer.from(actual, 'hex'));
+  }
+
+  private isUsable(session: Session) {
+    return !session.revoked_at && session.expires_at.getTime() > Date.now();
+  }
+
+  /**
+   * Checks that a session exists, belongs to the user and has not been revoked or expired
+   * @param {number} sessionId - ID of the session
+   * @param {number} userId - ID of the user the token was issued to
+   * @returns {Promise<boolean>} True when the session is still active
+   */
+  public async isActive(sessionId: number, userId: number): Promise<boolean> {
+    const session = await this.repo.find(sessionId);
+    return !!session && session.user_id === userId && this.isUsable(session);
+  }
+
+  /**
+   * Finds a session by its ID
+   * @param {number} id - ID of the session
+   * @returns {Promise<Session|undefined>} The session if found
+   */
+  public async find(id: number) {
+    return this.repo.find(id);
+  }
+
+  /**
+   * Lists the active sessions of a user, most recently used first
+   * @param {number} userId - ID of the user
+   * @returns {Promise<Session[]>} The active sessions
+   * @throws {Error} When session retrieval fails
+   */
+  public async findActiveByUserId(userId: number) {
+    try {
+      return await this.repo.findActiveByUserId(userId);
+    } catch (error) {
+      logger.error('Failed to find sessions by user ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revokes a single session
+   * @param {number} id - ID of the session to revoke
+   * @returns {Promise<void>}
+   * @throws {Error} When session revocation fails
+   */
+  public async revoke(id: number): Promise<void> {
+    try {
+      await this.repo.revoke(id);
+    } catch (error) {
+      logger.error('Failed to revoke session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revokes all sessions of a user, optionally keeping the current one
+   * @param {number} userId - ID of the user
+   * @param {number} [exceptId] - ID of a session to keep active
+   * @returns {Promise<void>}
+   * @throws {Error} When session revocation fails
+   */
+  public async revokeAllForUser(userId: number, exceptId?: number): Promise<void> {
+    try {
+      await this.repo.revokeByUserId(userId, exceptId);
+    } catch (error) {
+      logger.error('Failed to revoke sessions by user ID:', error);
+      throw error;
+    }
+  }
+}
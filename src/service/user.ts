@@ -1,7 +1,7 @@
-import { encrypt } from '../lib/encryption.ts';
 import env from '../lib/env.ts';
 import { logger } from '../lib/logger.ts';
-import type { UserRepository } from '../repository/user.ts';
+import { hashPassword, needsRehash, verifyPassword } from '../lib/password.ts';
+import type { UserQuery, UserRepository } from '../repository/user.ts';
 import type { User } from '../schema/schema.ts';
 import { sendTransactionalEmail } from '../task/email-processor.ts';
 
@@ -25,7 +25,7 @@ export class UserService {
    * Creates a new user
    * @param {string} name - User's name
    * @param {string} email - User's email address
-   * @param {string} password - User's password (will be encrypted)
+   * @param {string} password - User's password (will be hashed)
    * @param {'user'|'role'|'admin'} role - User's role
    * @param {string} phone - User's phone number
    * @param {Partial<User>} [additionalFields={}] - Optional additional user fields
@@ -41,7 +41,7 @@ export class UserService {
     additionalFields: Partial<User> = {},
   ) {
     try {
-      const hashedPassword = encrypt(password);
+      const hashedPassword = await hashPassword(password);
 
       // Create user with all fields
       const user = await this.repo.create({
@@ -79,6 +79,45 @@ export class UserService {
     return this.repo.find(id);
   }
 
+  /**
+   * Lists users page by page, optionally filtered by search term, role and account state
+   * @param {UserQuery} query - Pagination and filters
+   * @returns {Promise<{users: User[], total: number}>} The page of users and the total matching
+   * @throws {Error} When the query fails
+   */
+  public async search(query: UserQuery) {
+    try {
+      return await this.repo.search(query);
+    } catch (error) {
+      logger.error('Failed to search users:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Bans or unbans a user. Banned users are rejected on their next request.
+   * @param {number} id - ID of the user
+   * @param {boolean} banned - Whether the user should be banned
+   * @returns {Promise<void>}
+   */
+  public async setBanned(id: number, banned: boolean) {
+    await this.repo.update(id, { is_banned: banned });
+  }
+
+  /**
+   * Soft-deletes or restores a user. The row is kept so the account can be restored, and
+   * restoring also cancels an erasure the owner scheduled by deleting their account.
+   * @param {number} id - ID of the user
+   * @param {boolean} deleted - Whether the user should be marked deleted
+   * @returns {Promise<void>}
+   */
+  public async setDeleted(id: number, deleted: boolean) {
+    await this.repo.update(
+      id,
+      deleted ? { is_deleted: true } : { is_deleted: false, deletion_scheduled_at: null },
+    );
+  }
+
   /**
    * Updates a user's information
    * @param {number} id - ID of the user to update
@@ -89,15 +128,51 @@ export class UserService {
     return this.repo.update(id, user);
   }
 
+  /**
+   * Verifies a user's password, upgrading legacy or outdated hashes in place on success
+   * @param {User} user - The user whose password is being checked
+   * @param {string} password - The plain text password
+   * @returns {Promise<boolean>} True when the password matches
+   */
+  public async verifyPassword(user: User, password: string) {
+    const isValid = await verifyPassword(password, user.password);
+    if (isValid && needsRehash(user.password)) {
+      try {
+        await this.updatePassword(user.id, password);
+      } catch (error) {
+        // The login itself succeeded, the upgrade will be retried next time
+        logger.error('Failed to rehash password:', error);
+      }
+    }
+    return isValid;
+  }
+
+  /**
+   * Hashes and stores a new password for a user
+   * @param {number} id - ID of the user to update
+   * @param {string} password - The new plain text password
+   * @returns {Promise<void>}
+   */
+  public async updatePassword(id: number, password: string) {
+    const hashedPassword = await hashPassword(password);
+    await this.repo.update(id, { password: hashedPassword });
+  }
+
   /**
    * Updates a user's profile image
    * @param {number} id - ID of the user to update
-   * @param {string} imageUrl - URL of the new profile image
+   * @param {string|null} imageUrl - URL of the new profile image, or null to remove it
+   * @param {Record<string, string>|null} [sizes=null] - URLs of the image in each avatar size
    * @returns {Promise<User>} The updated user
    */
-  public async updateProfileImage(id: number, imageUrl: string) {
+  public async updateProfileImage(
+    id: number,
+    imageUrl: string | null,
+    sizes: Record<string, string> | null = null,
+  ) {
     return this.repo.update(id, {
       profile_picture: imageUrl,
+      profile_picture_sizes: sizes,
     });
   }
 
@@ -123,7 +198,7 @@ export class UserService {
         throw new Error('User not found');
       }
 
-      await sendTransactionalEmail(user.email, user.name, 12, {
+      await sendTransactionalEmail(user.email, user.name, 'notice', {
         subject: `Welcome to ${env.BRAND_NAME}`,
         title: `Welcome to ${env.BRAND_NAME}`,
         subtitle: 'Your subscription is now active',
@@ -0,0 +1,12 @@
+import { logger } from '../../lib/logger.js';
+import { defaultQueue } from '../../lib/queue.js';
+import { TASK } from '../tasker.js';
+
+const exportUserDataAsync = async (userId: number) => {
+  const job = await defaultQueue.add(TASK.ExportUserData, { userId });
+  logger.info(
+    `Job ${job.id} added to queue. Task scheduled for ${TASK.ExportUserData}, user: ${userId}`,
+  );
+};
+
+export default exportUserDataAsync;
@@ -1,14 +1,16 @@
 import { logger } from '../../lib/logger.ts';
-import { defaultQueue } from '../../lib/queue.ts';
+import { defaultQueue, RETRY_JOB_OPTIONS } from '../../lib/queue.ts';
+import type { TemplateName } from '../../mail/templates.tsx';
 import { TASK } from '../tasker.ts';
 
 const processBulkEmailAsync = async (data: {
+  hostId: number;
   email: string;
   name: string;
   params: Record<string, string>;
-  templateId: number;
+  template: TemplateName;
 }) => {
-  const job = await defaultQueue.add(TASK.BulkSendFollowUpEmails, data);
+  const job = await defaultQueue.add(TASK.BulkSendFollowUpEmails, data, RETRY_JOB_OPTIONS);
   logger.info(
     `Job ${job.id} added to queue. Task scheduled for ${TASK.BulkSendFollowUpEmails}, email: ${data.email}`,
   );
@@ -1,33 +1,20 @@
 import { logger } from '../../lib/logger.js';
-import { defaultQueue } from '../../lib/queue.js';
+import { defaultQueue, RETRY_JOB_OPTIONS } from '../../lib/queue.js';
 import { TASK } from '../tasker.js';
 
-interface EmailData {
-  email: string;
-  name: string;
-  templateId: number;
-  emailData: {
-    subject: string;
-    title: string;
-    subtitle: string;
-    body: string;
-    buttonText: string;
-    buttonLink: string;
-    username: string;
-    eventname: string;
-    eventdate: string;
-    eventtime: string;
-    eventlink: string;
-    busname: string;
-    busemail: string;
-    busaddress: string;
-  };
-}
-
-const processEmailAsync = async (data: EmailData) => {
-  const job = await defaultQueue.add(TASK.ProcessEmail, data);
+/**
+ * Queue an email to be sent
+ * @param emailId - ID of the email
+ * @param jobId - Fixed ID for the job, so adding it again while it is kept in the queue is a no-op
+ */
+const processEmailAsync = async (emailId: number, jobId?: string) => {
+  const job = await defaultQueue.add(
+    TASK.ProcessEmail,
+    { emailId },
+    { ...RETRY_JOB_OPTIONS, jobId },
+  );
   logger.info(
-    `Job ${job.id} added to queue. Task scheduled for ${TASK.ProcessEmail}, email: ${data.email}`,
+    `Job ${job.id} added to queue. Task scheduled for ${TASK.ProcessEmail}, email ID: ${emailId}`,
   );
 };
 
@@ -0,0 +1,13 @@
+import { logger } from '../../lib/logger.js';
+import { defaultQueue } from '../../lib/queue.js';
+import { TASK } from '../tasker.js';
+
+/**
+ * Schedule the removal of an asset whose upload is not completed in time
+ * @param assetId - ID of the pending asset
+ * @param delay - Delay in milliseconds until the asset is removed if still pending
+ */
+export default async function scheduleAssetCleanup(assetId: number, delay: number): Promise<void> {
+  const job = await defaultQueue.add(TASK.RemovePendingAsset, { assetId }, { delay });
+  logger.info(`Pending asset ${assetId} scheduled for cleanup in ${delay}ms. Job ID: ${job.id}`);
+}
@@ -0,0 +1,13 @@
+import { logger } from '../../lib/logger.js';
+import { defaultQueue } from '../../lib/queue.js';
+import { TASK } from '../tasker.js';
+
+/**
+ * Schedule the removal of a data export file once its download link expires
+ * @param file - Path of the export file
+ * @param delay - Delay in milliseconds until the file is removed
+ */
+export default async function scheduleExportRemoval(file: string, delay: number): Promise<void> {
+  const job = await defaultQueue.add(TASK.RemoveUserExport, { file }, { delay });
+  logger.info(`Export ${file} scheduled for removal in ${delay}ms. Job ID: ${job.id}`);
+}
@@ -0,0 +1,17 @@
+import { logger } from '../../lib/logger.js';
+import { defaultQueue, RETRY_JOB_OPTIONS } from '../../lib/queue.js';
+import { TASK } from '../tasker.js';
+
+/**
+ * Schedule a step of a follow-up sequence to be sent
+ * @param stepId - ID of the follow-up step
+ * @param delay - Delay in milliseconds until the email is sent
+ */
+export default async function scheduleFollowUpStep(stepId: number, delay: number): Promise<void> {
+  const job = await defaultQueue.add(
+    TASK.SendFollowUpStep,
+    { stepId },
+    { ...RETRY_JOB_OPTIONS, delay },
+  );
+  logger.info(`Follow-up step ${stepId} scheduled in ${delay}ms. Job ID: ${job.id}`);
+}
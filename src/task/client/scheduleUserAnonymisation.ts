@@ -0,0 +1,16 @@
+import { logger } from '../../lib/logger.js';
+import { defaultQueue } from '../../lib/queue.js';
+import { TASK } from '../tasker.js';
+
+/**
+ * Schedule the erasure of a deleted account's personal data once its grace period ends
+ * @param userId - ID of the deleted user
+ * @param delay - Delay in milliseconds until the data is erased
+ */
+export default async function scheduleUserAnonymisation(
+  userId: number,
+  delay: number,
+): Promise<void> {
+  const job = await defaultQueue.add(TASK.AnonymiseUser, { userId }, { delay });
+  logger.info(`User ${userId} scheduled for anonymisation in ${delay}ms. Job ID: ${job.id}`);
+}
@@ -0,0 +1,17 @@
+import { logger } from '../../lib/logger.js';
+import { defaultQueue, RETRY_JOB_OPTIONS } from '../../lib/queue.js';
+import { TASK } from '../tasker.js';
+
+/**
+ * Schedule the next batch of a campaign's emails to be queued
+ * @param campaignId - ID of the campaign
+ * @param delay - Delay in milliseconds before the batch is queued
+ */
+export default async function sendCampaignBatch(campaignId: number, delay = 0): Promise<void> {
+  const job = await defaultQueue.add(
+    TASK.SendCampaignBatch,
+    { campaignId },
+    { ...RETRY_JOB_OPTIONS, delay },
+  );
+  logger.info(`Batch of campaign ${campaignId} scheduled in ${delay}ms. Job ID: ${job.id}`);
+}
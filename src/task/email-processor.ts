@@ -1,101 +1,59 @@
-import env from '../lib/env.ts';
+import { UnrecoverableError } from 'bullmq';
+
 import { logger } from '../lib/logger.ts';
+import { type MailAttachment, mailer } from '../lib/mail.ts';
+import { type RenderedMail, renderTemplate } from '../mail/render.ts';
+import type { TemplateName, TemplateParams } from '../mail/templates.tsx';
 
-const BREVO_API_URL = 'https://api.brevo.com/v3/smtp/email';
+type SendOptions = {
+  attachments?: MailAttachment[];
+  headers?: Record<string, string>;
+};
 
-const sendTransactionalEmail = async (
-  email: string,
-  name: string,
-  templateId: number,
-  params: {
-    subject: string;
-    title: string;
-    subtitle: string;
-    body: string;
-    buttonText: string;
-    buttonLink: string;
-    busname?: string;
-  },
+const send = async (
+  to: { email: string; name: string },
+  template: TemplateName,
+  params: unknown,
+  options: SendOptions = {},
 ) => {
+  let rendered: RenderedMail;
   try {
-    const response = await fetch(BREVO_API_URL, {
-      method: 'POST',
-      headers: {
-        Accept: 'application/json',
-        'Content-Type': 'application/json',
-        'api-key': env.BREVO_API_KEY,
-      },
-      body: JSON.stringify({
-        templateId: templateId,
-        to: [
-          {
-            email: email,
-            name: name,
-          },
-        ],
-        params: params,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-
-      logger.info(`Mailer error to ${email} using template ${templateId}:`, error);
-      throw new Error(`Email API error: ${error.message}`);
-    }
-
-    const result = await response.json();
-    logger.info(`Email sent to ${email} using template ${templateId}`);
-    return result;
+    rendered = await renderTemplate(template, params);
   } catch (error) {
-    logger.error(`Failed to send email to ${email}:`, error);
+    // Retrying cannot fix bad params, so the job fails straight away
+    throw new UnrecoverableError(
+      `Failed to render template ${template}: ${(error as Error).message}`,
+    );
   }
+  const result = await mailer.send({ to, template, ...rendered, ...options });
+  logger.info(`Email sent to ${to.email} using template ${template}`);
+  return result;
 };
 
-const sendTemplateEmail = async (
+// Account emails are best effort, a mail outage should not fail the request that sent them
+const sendTransactionalEmail = async <N extends TemplateName>(
   email: string,
   name: string,
-  templateId: number,
-  params: Record<string, string>,
-  attachment?: {
-    content: string;
-    name: string;
-  }[],
+  template: N,
+  params: TemplateParams<N>,
 ) => {
   try {
-    const response = await fetch(BREVO_API_URL, {
-      method: 'POST',
-      headers: {
-        Accept: 'application/json',
-        'Content-Type': 'application/json',
-        'api-key': env.BREVO_API_KEY,
-      },
-      body: JSON.stringify({
-        templateId: templateId,
-        to: [
-          {
-            email: email,
-            name: name,
-          },
-        ],
-        params: params,
-        attachment,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-
-      logger.info(`Mailer error to ${email} using template ${templateId}:`, error);
-      throw new Error(`Email API error: ${error.message}`);
-    }
-
-    const result = await response.json();
-    logger.info(`Email sent to ${email} using template ${templateId}`);
-    return result;
+    return await send({ email, name }, template, params);
   } catch (error) {
     logger.error(`Failed to send email to ${email}:`, error);
   }
 };
 
+// For params that come from outside the code, such as queued jobs, checked when rendered.
+// Errors are thrown so the job is retried.
+const sendTemplateEmail = async (
+  email: string,
+  name: string,
+  template: TemplateName,
+  params: Record<string, unknown>,
+  options?: SendOptions,
+) => {
+  return send({ email, name }, template, params, options);
+};
+
 export { sendTemplateEmail, sendTransactionalEmail };
@@ -2,24 +2,52 @@ import { type Job, Worker } from 'bullmq';
 
 import { logger } from '../lib/logger.js';
 import { connection, QUEUE } from '../lib/queue.js';
+import type { AccountDeletionService } from '../service/account-deletion.ts';
+import type { AssetService } from '../service/asset.ts';
+import type { DataExportService } from '../service/data-export.ts';
 import type { EmailService } from '../service/email.js';
+import type { EmailCampaignService } from '../service/email-campaign.ts';
+import type { FollowUpService } from '../service/follow-up.ts';
 import type { UserService } from '../service/user.js';
-import { sendTemplateEmail } from './email-processor.ts';
 
 const TASK = {
   SendWelcomeEmail: 'send_code_completion',
   ProcessEmail: 'process_email',
   BulkSendFollowUpEmails: 'bulk_send_follow_up_emails',
   EventEndNotification: 'event_end_notification',
+  ExportUserData: 'export_user_data',
+  RemoveUserExport: 'remove_user_export',
+  AnonymiseUser: 'anonymise_user',
+  RemovePendingAsset: 'remove_pending_asset',
+  SendCampaignBatch: 'send_campaign_batch',
+  SendFollowUpStep: 'send_follow_up_step',
 };
 
 class Tasker {
   private readonly userService: UserService;
   private readonly emailService: EmailService;
+  private readonly dataExportService: DataExportService;
+  private readonly accountDeletionService: AccountDeletionService;
+  private readonly assetService: AssetService;
+  private readonly campaignService: EmailCampaignService;
+  private readonly followUpService: FollowUpService;
 
-  constructor(userService: UserService, emailService: EmailService) {
+  constructor(
+    userService: UserService,
+    emailService: EmailService,
+    dataExportService: DataExportService,
+    accountDeletionService: AccountDeletionService,
+    assetService: AssetService,
+    campaignService: EmailCampaignService,
+    followUpService: FollowUpService,
+  ) {
     this.userService = userService;
     this.emailService = emailService;
+    this.dataExportService = dataExportService;
+    this.accountDeletionService = accountDeletionService;
+    this.assetService = assetService;
+    this.campaignService = campaignService;
+    this.followUpService = followUpService;
 
     this.setup = this.setup.bind(this);
     this.processor = this.processor.bind(this);
@@ -54,14 +82,13 @@ class Tasker {
         break;
       }
       case TASK.ProcessEmail: {
-        const { email, name, templateId, emailData } = job.data;
+        const { emailId } = job.data;
 
-        await sendTemplateEmail(email, name, templateId, emailData);
+        await this.emailService.deliverEmail(emailId, job.attemptsMade + 1, job.opts.attempts ?? 1);
         break;
       }
       case TASK.BulkSendFollowUpEmails: {
-        const { email, name, templateId, params } = job.data;
-        await sendTemplateEmail(email, name, templateId, params);
+        await this.emailService.sendFollowUpEmail(job.data);
         break;
       }
       case TASK.EventEndNotification: {
@@ -77,11 +104,56 @@ class Tasker {
           button_text: 'Download Chat Logs',
           button_link: `${process.env.FRONTEND_URL}/concepts/event/event-edit/${eventId}?action=download-chat-logs`,
           host_id: hostId,
+          category: 'transactional',
         });
 
         logger.info(`Event end notification sent to host ${hostEmail} for event ${eventId}`);
         break;
       }
+      case TASK.ExportUserData: {
+        const { userId } = job.data;
+
+        await this.dataExportService.build(userId);
+        break;
+      }
+      case TASK.RemoveUserExport: {
+        const { file } = job.data;
+
+        await this.dataExportService.remove(file);
+        break;
+      }
+      case TASK.AnonymiseUser: {
+        const { userId } = job.data;
+
+        // Restored accounts, and jobs left over from an earlier deletion, are skipped
+        const isAnonymised = await this.accountDeletionService.anonymise(userId);
+        if (isAnonymised) {
+          logger.info(`Personal data of user ${userId} erased`);
+        }
+        break;
+      }
+      case TASK.RemovePendingAsset: {
+        const { assetId } = job.data;
+
+        // Completed uploads are ready by now and kept
+        const isRemoved = await this.assetService.removeIfPending(assetId);
+        if (isRemoved) {
+          logger.info(`Abandoned upload of asset ${assetId} removed`);
+        }
+        break;
+      }
+      case TASK.SendCampaignBatch: {
+        const { campaignId } = job.data;
+
+        await this.campaignService.sendBatch(campaignId);
+        break;
+      }
+      case TASK.SendFollowUpStep: {
+        const { stepId } = job.data;
+
+        await this.followUpService.sendStep(stepId);
+        break;
+      }
     }
   }
 }
@@ -0,0 +1,21 @@
+export const toCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+  // Quote everything that could break the row, and defuse spreadsheet formulas
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) || safe !== text ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toCsv = <T>(rows: T[], columns: (keyof T & string)[]): string => {
+  return [
+    columns.join(','),
+    ...rows.map((row) => columns.map((column) => toCsvValue(row[column])).join(',')),
+  ].join('\r\n');
+};
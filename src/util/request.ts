@@ -0,0 +1,98 @@
+import { getConnInfo } from '@hono/node-server/conninfo';
+import type { Context } from 'hono';
+import net from 'net';
+
+import env from '../lib/env.ts';
+
+export type RequestMeta = {
+  ip: string | null;
+  userAgent: string | null;
+  device: string | null;
+};
+
+// IPv4 clients of a dual-stack socket show up as ::ffff:1.2.3.4
+const normaliseIp = (ip: string) => ip.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '');
+
+const ipFamily = (ip: string) => (net.isIPv6(ip) ? 'ipv6' : 'ipv4');
+
+const parseTrustedProxies = (value: string) => {
+  const list = new net.BlockList();
+  for (const entry of value.split(',').map((item) => item.trim())) {
+    if (!entry) {
+      continue;
+    }
+    const [address, prefix] = entry.split('/');
+    if (prefix) {
+      list.addSubnet(address, Number(prefix), ipFamily(address));
+    } else {
+      list.addAddress(address, ipFamily(address));
+    }
+  }
+  return list;
+};
+
+const trustedProxies = env.TRUSTED_PROXIES.trim() ? parseTrustedProxies(env.TRUSTED_PROXIES) : null;
+
+const isTrustedProxy = (ip: string) => {
+  return !!trustedProxies && net.isIP(ip) !== 0 && trustedProxies.check(ip, ipFamily(ip));
+};
+
+export const getClientIp = (c: Context): string | null => {
+  let remote: string | null;
+  try {
+    const { address } = getConnInfo(c).remote;
+    remote = address ? normaliseIp(address) : null;
+  } catch {
+    remote = null;
+  }
+  // Clients can send any forwarding headers they like, they only count from our own proxies
+  if (!remote || !isTrustedProxy(remote)) {
+    return remote;
+  }
+
+  const forwarded = c.req.header('x-forwarded-for');
+  if (forwarded) {
+    // Each proxy appends the address it got the request from, so the right-most address
+    // that is not one of ours is the client. Anything left of it could be made up.
+    const hops = forwarded.split(',').map(normaliseIp).filter(Boolean);
+    const client = [...hops].reverse().find((hop) => !isTrustedProxy(hop));
+    // Every hop is one of ours when the client is on the internal network too
+    return client ?? hops[0] ?? remote;
+  }
+
+  return c.req.header('x-real-ip')?.trim() || remote;
+};
+
+export const getDeviceName = (userAgent: string): string => {
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\//, 'Opera'],
+    [/Chrome\//, 'Chrome'],
+    [/Firefox\//, 'Firefox'],
+    [/Safari\//, 'Safari'],
+  ];
+  const systems: [RegExp, string][] = [
+    [/Windows/, 'Windows'],
+    [/iPhone|iPad/, 'iOS'],
+    [/Mac OS X/, 'macOS'],
+    [/Android/, 'Android'],
+    [/Linux/, 'Linux'],
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) {
+    return `${browser} on ${system}`;
+  }
+  return browser || system || 'Unknown device';
+};
+
+export const getRequestMeta = (c: Context): RequestMeta => {
+  const userAgent = c.req.header('user-agent') ?? null;
+  return {
+    ip: getClientIp(c),
+    userAgent,
+    device: userAgent ? getDeviceName(userAgent) : null,
+  };
+};
@@ -0,0 +1,141 @@
+import fs from 'fs';
+import type { Context } from 'hono';
+import { StatusCodes } from 'http-status-codes';
+import { Readable } from 'stream';
+
+import { logger } from '../../lib/logger.js';
+import type { AccountDeletionService } from '../../service/account-deletion.js';
+import type { DataExportService } from '../../service/data-export.js';
+import type { UserService } from '../../service/user.js';
+import type { DeleteAccountBody, RestoreAccountBody } from '../validator/account.js';
+import { ERRORS, serveBadRequest, serveInternalServerError, serveNotFound } from './resp/error.js';
+import { serveData } from './resp/resp.js';
+
+export class AccountController {
+  private service: UserService;
+  private accountDeletionService: AccountDeletionService;
+  private dataExportService: DataExportService;
+
+  constructor(
+    userService: UserService,
+    accountDeletionService: AccountDeletionService,
+    dataExportService: DataExportService,
+  ) {
+    this.service = userService;
+    this.accountDeletionService = accountDeletionService;
+    this.dataExportService = dataExportService;
+  }
+
+  /**
+   * Queues an export of the current user's data, which is emailed to them when ready
+   * @param {Context} c - The Hono context containing user information
+   * @returns {Promise<Response>} Response confirming the export was queued
+   * @throws {Error} When queueing the export fails
+   */
+  public requestExport = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      await this.dataExportService.request(user.id);
+      c.set('audit', { entityId: user.id });
+
+      return c.json(
+        {
+          data: {
+            success: true,
+            message: 'Your export is being prepared, we will email you a download link',
+          },
+        },
+        StatusCodes.ACCEPTED,
+      );
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Downloads a data export with the token from the emailed link
+   * @param {Context} c - The Hono context containing the token
+   * @returns {Promise<Response>} ZIP attachment
+   * @throws {Error} When reading the archive fails
+   */
+  public downloadExport = async (c: Context) => {
+    try {
+      const download = await this.dataExportService.findDownload(c.req.param('token'));
+      if (!download) {
+        return serveNotFound(c, ERRORS.EXPORT_NOT_FOUND);
+      }
+      c.set('audit', { actorId: download.userId, entityId: download.userId });
+
+      const date = new Date().toISOString().slice(0, 10);
+      c.header('Content-Type', 'application/zip');
+      c.header('Content-Disposition', `attachment; filename="data-export-${date}.zip"`);
+      c.header('Cache-Control', 'no-store');
+      return c.body(Readable.toWeb(fs.createReadStream(download.file)) as ReadableStream);
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Deletes the current user's account. It is closed straight away and its data erased
+   * after a grace period, during which it can be restored from an emailed link.
+   * @param {Context} c - The Hono context containing the password, for local accounts
+   * @returns {Promise<Response>} Response containing when the data will be erased
+   * @throws {Error} When scheduling the deletion fails
+   */
+  public deleteAccount = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const body: DeleteAccountBody = await c.req.json();
+      if ((user.auth_provider ?? 'local') === 'local') {
+        const isValid = body.password && (await this.service.verifyPassword(user, body.password));
+        if (!isValid) {
+          return serveBadRequest(c, ERRORS.INVALID_PASSWORD);
+        }
+      }
+
+      const deleteAt = await this.accountDeletionService.schedule(user);
+      c.set('audit', { entityId: user.id });
+
+      return serveData(c, {
+        success: true,
+        message: 'Your account has been deleted, you have been signed out of all devices',
+        deletion_scheduled_at: deleteAt,
+      });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Restores an account deleted by its owner with the link emailed at the time
+   * @param {Context} c - The Hono context containing the email and restore token
+   * @returns {Promise<Response>} Response confirming the account was restored
+   * @throws {Error} When restoring the account fails
+   */
+  public restoreAccount = async (c: Context) => {
+    try {
+      const body: RestoreAccountBody = await c.req.json();
+      const user = await this.service.findByEmail(body.email);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.INVALID_RESTORE_LINK);
+      }
+      const isRestored = await this.accountDeletionService.restore(user, body.token);
+      if (!isRestored) {
+        return serveBadRequest(c, ERRORS.INVALID_RESTORE_LINK);
+      }
+      c.set('audit', { actorId: user.id, entityId: user.id });
+
+      return serveData(c, {
+        success: true,
+        message: 'Your account has been restored, you can sign in again',
+      });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+}
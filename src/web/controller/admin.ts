@@ -0,0 +1,350 @@
+import crypto from 'crypto';
+import type { Context } from 'hono';
+import { StatusCodes } from 'http-status-codes';
+import { isValidPhoneNumber } from 'libphonenumber-js';
+
+import env from '../../lib/env.js';
+import { logger } from '../../lib/logger.js';
+import type { UserQuery } from '../../repository/user.js';
+import type { OneTimeCodeService } from '../../service/one-time-code.js';
+import type { SessionService } from '../../service/session.js';
+import type { UserService } from '../../service/user.js';
+import { sendTransactionalEmail } from '../../task/email-processor.ts';
+import type { CreateUserBody, UpdateUserBody } from '../validator/admin.js';
+import {
+  ERRORS,
+  serveBadRequest,
+  serveError,
+  serveInternalServerError,
+  serveNotFound,
+  serveTooManyRequests,
+} from './resp/error.js';
+import { serveData } from './resp/resp.js';
+import { serializeUser } from './serializer/user.js';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+const parseFlag = (value?: string) => {
+  return value === undefined ? undefined : value === 'true';
+};
+
+export class AdminController {
+  private userService: UserService;
+  private sessionService: SessionService;
+  private oneTimeCodeService: OneTimeCodeService;
+
+  constructor(
+    userService: UserService,
+    sessionService: SessionService,
+    oneTimeCodeService: OneTimeCodeService,
+  ) {
+    this.userService = userService;
+    this.sessionService = sessionService;
+    this.oneTimeCodeService = oneTimeCodeService;
+  }
+
+  /**
+   * Loads the user named by the `id` route parameter
+   * @private
+   * @param {Context} c - The Hono context containing the user ID
+   * @returns {Promise<User|undefined>} The user if found
+   */
+  private findTarget = async (c: Context) => {
+    const id = Number.parseInt(c.req.param('id'));
+    if (!id) {
+      return undefined;
+    }
+    return this.userService.find(id);
+  };
+
+  /**
+   * Checks whether the target of an admin action is the admin themselves
+   * @private
+   * @param {Context} c - The Hono context of the admin request
+   * @param {number} id - ID of the target user
+   * @returns {boolean} True when the admin is acting on their own account
+   */
+  private isSelf = (c: Context, id: number) => {
+    return c.get('user').id === id;
+  };
+
+  /**
+   * Lists users with pagination, search by name or email, and filters
+   * @param {Context} c - The Hono context containing the query parameters
+   * @returns {Promise<Response>} Response containing the page of users and pagination info
+   * @throws {Error} When fetching users fails
+   */
+  public getUsers = async (c: Context) => {
+    try {
+      const params = c.req.query();
+      const query: UserQuery = {
+        page: Number(params.page) || 1,
+        limit: Number(params.limit) || DEFAULT_PAGE_SIZE,
+        search: params.search?.trim() || undefined,
+        role: params.role as UserQuery['role'],
+        is_verified: parseFlag(params.is_verified),
+        is_banned: parseFlag(params.is_banned),
+        is_deleted: parseFlag(params.is_deleted),
+        auth_provider: params.auth_provider as UserQuery['auth_provider'],
+      };
+
+      const { users, total } = await this.userService.search(query);
+      return serveData(c, {
+        users: await Promise.all(users.map(serializeUser)),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          pages: Math.ceil(total / query.limit),
+        },
+      });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Retrieves a single user
+   * @param {Context} c - The Hono context containing the user ID
+   * @returns {Promise<Response>} Response containing the user
+   * @throws {Error} When fetching the user fails
+   */
+  public getUser = async (c: Context) => {
+    try {
+      const user = await this.findTarget(c);
+      if (!user) {
+        return serveNotFound(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      return serveData(c, { user: await serializeUser(user) });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Creates a local account on behalf of a user
+   * @param {Context} c - The Hono context containing the new user's details
+   * @returns {Promise<Response>} Response containing the created user
+   * @throws {Error} When user creation fails
+   */
+  public createUser = async (c: Context) => {
+    try {
+      const body: CreateUserBody = await c.req.json();
+      const phone = body.phone ? (body.dial_code ?? '') + body.phone : '';
+      if (phone && !isValidPhoneNumber(phone)) {
+        return serveBadRequest(c, ERRORS.INVALID_PHONE_NUMBER);
+      }
+      const existingUser = await this.userService.findByEmail(body.email);
+      if (existingUser) {
+        return serveBadRequest(c, ERRORS.USER_EXISTS);
+      }
+
+      await this.userService.create(
+        body.name,
+        body.email,
+        body.password,
+        body.role ?? 'user',
+        phone,
+        {
+          dial_code: body.dial_code ?? '',
+          is_verified: body.is_verified ?? false,
+        },
+      );
+      const user = await this.userService.findByEmail(body.email);
+      if (!user) {
+        return serveInternalServerError(c, new Error(ERRORS.USER_NOT_FOUND));
+      }
+
+      c.set('audit', { entityId: user.id, after: user });
+      return c.json({ data: { user: await serializeUser(user) } }, StatusCodes.CREATED);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Updates a user's role and profile fields
+   * @param {Context} c - The Hono context containing the user ID and fields to change
+   * @returns {Promise<Response>} Response containing the updated user
+   * @throws {Error} When the update fails
+   */
+  public updateUser = async (c: Context) => {
+    try {
+      const user = await this.findTarget(c);
+      if (!user) {
+        return serveNotFound(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const body: UpdateUserBody = await c.req.json();
+      if (body.role && body.role !== user.role && this.isSelf(c, user.id)) {
+        return serveError(c, StatusCodes.FORBIDDEN, ERRORS.CANNOT_MODIFY_SELF);
+      }
+      if (body.email && body.email !== user.email) {
+        const existingUser = await this.userService.findByEmail(body.email);
+        if (existingUser) {
+          return serveBadRequest(c, ERRORS.USER_EXISTS);
+        }
+      }
+
+      const { name, email, dial_code, phone, bio, role, is_verified } = body;
+      const changes = { name, email, dial_code, phone, bio, role, is_verified };
+      // Drizzle refuses an update with nothing to set
+      if (Object.values(changes).some((value) => value !== undefined)) {
+        await this.userService.update(user.id, changes);
+      }
+
+      const updatedUser = await this.userService.find(user.id);
+      if (!updatedUser) {
+        return serveInternalServerError(c, new Error(ERRORS.USER_NOT_FOUND));
+      }
+      c.set('audit', { before: user, after: updatedUser });
+
+      return serveData(c, { user: await serializeUser(updatedUser) });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Bans a user and signs out all of their sessions
+   * @param {Context} c - The Hono context containing the user ID
+   * @returns {Promise<Response>} Response indicating ban status
+   * @throws {Error} When the ban fails
+   */
+  public banUser = async (c: Context) => {
+    try {
+      const user = await this.findTarget(c);
+      if (!user) {
+        return serveNotFound(c, ERRORS.USER_NOT_FOUND);
+      }
+      if (this.isSelf(c, user.id)) {
+        return serveError(c, StatusCodes.FORBIDDEN, ERRORS.CANNOT_MODIFY_SELF);
+      }
+
+      await this.userService.setBanned(user.id, true);
+      await this.sessionService.revokeAllForUser(user.id);
+
+      return serveData(c, { success: true, message: 'User banned successfully' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Lifts a ban on a user
+   * @param {Context} c - The Hono context containing the user ID
+   * @returns {Promise<Response>} Response indicating unban status
+   * @throws {Error} When the unban fails
+   */
+  public unbanUser = async (c: Context) => {
+    try {
+      const user = await this.findTarget(c);
+      if (!user) {
+        return serveNotFound(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      await this.userService.setBanned(user.id, false);
+
+      return serveData(c, { success: true, message: 'User unbanned successfully' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Soft-deletes a user and signs out all of their sessions
+   * @param {Context} c - The Hono context containing the user ID
+   * @returns {Promise<Response>} Response indicating deletion status
+   * @throws {Error} When the deletion fails
+   */
+  public deleteUser = async (c: Context) => {
+    try {
+      const user = await this.findTarget(c);
+      if (!user) {
+        return serveNotFound(c, ERRORS.USER_NOT_FOUND);
+      }
+      if (this.isSelf(c, user.id)) {
+        return serveError(c, StatusCodes.FORBIDDEN, ERRORS.CANNOT_MODIFY_SELF);
+      }
+
+      await this.userService.setDeleted(user.id, true);
+      await this.sessionService.revokeAllForUser(user.id);
+
+      return serveData(c, { success: true, message: 'User deleted successfully' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Restores a soft-deleted user
+   * @param {Context} c - The Hono context containing the user ID
+   * @returns {Promise<Response>} Response indicating restore status
+   * @throws {Error} When the restore fails
+   */
+  public restoreUser = async (c: Context) => {
+    try {
+      const user = await this.findTarget(c);
+      if (!user) {
+        return serveNotFound(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      await this.userService.setDeleted(user.id, false);
+
+      return serveData(c, { success: true, message: 'User restored successfully' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Forces a user to choose a new password. The current password stops working, all
+   * sessions are signed out and a reset link is emailed to the user.
+   * @param {Context} c - The Hono context containing the user ID
+   * @returns {Promise<Response>} Response indicating reset status
+   * @throws {Error} When the reset fails
+   */
+  public forcePasswordReset = async (c: Context) => {
+    try {
+      const user = await this.findTarget(c);
+      if (!user) {
+        return serveNotFound(c, ERRORS.USER_NOT_FOUND);
+      }
+      if ((user.auth_provider ?? 'local') !== 'local') {
+        return serveBadRequest(c, ERRORS.LOCAL_ACCOUNTS_ONLY);
+      }
+
+      const issued = await this.oneTimeCodeService.issue(user.id, 'password_reset');
+      if ('retryAfter' in issued) {
+        return serveTooManyRequests(c, ERRORS.CODE_RECENTLY_SENT, issued.retryAfter);
+      }
+
+      await this.userService.updatePassword(user.id, crypto.randomBytes(32).toString('hex'));
+      await this.sessionService.revokeAllForUser(user.id);
+
+      const link = `${env.FRONTEND_URL}/reset-password?token=${issued.code}&email=${encodeURIComponent(user.email)}`;
+      await sendTransactionalEmail(user.email, user.name, 'notice', {
+        subject: 'Please reset your password',
+        title: 'Reset password',
+        subtitle: 'Your password needs to be changed',
+        body: `An administrator has required you to choose a new password, you have been signed out of all devices. Please click this link to set a new password: ${link}`,
+        buttonText: 'Reset password',
+        buttonLink: link,
+      });
+
+      return serveData(c, { success: true, message: 'Password reset link sent successfully' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+}
@@ -0,0 +1,112 @@
+import type { Context } from 'hono';
+import { StatusCodes } from 'http-status-codes';
+
+import { logger } from '../../lib/logger.js';
+import { hasPermission } from '../../lib/permissions.js';
+import type { ApiKeyService } from '../../service/api-key.js';
+import type { CreateApiKeyBody } from '../validator/api-key.js';
+import {
+  ERRORS,
+  serveBadRequest,
+  serveError,
+  serveInternalServerError,
+  serveNotFound,
+} from './resp/error.js';
+import { serveData } from './resp/resp.js';
+import { serializeApiKey } from './serializer/api-key.js';
+
+const MAX_API_KEYS = 25;
+
+export class ApiKeyController {
+  private service: ApiKeyService;
+
+  constructor(apiKeyService: ApiKeyService) {
+    this.service = apiKeyService;
+  }
+
+  /**
+   * Lists the current user's API keys, without the keys themselves
+   * @param {Context} c - The Hono context containing user information
+   * @returns {Promise<Response>} Response containing the keys
+   * @throws {Error} When fetching keys fails
+   */
+  public getApiKeys = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const apiKeys = await this.service.findActiveByUserId(user.id);
+
+      return serveData(c, { api_keys: apiKeys.map(serializeApiKey) });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Creates an API key for the current user. The key is only shown in this response.
+   * @param {Context} c - The Hono context containing the key's name, scopes and expiry
+   * @returns {Promise<Response>} Response containing the plain key and its details
+   * @throws {Error} When creating the key fails
+   */
+  public createApiKey = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const body: CreateApiKeyBody = await c.req.json();
+      // A key can never do more than its owner
+      if (!body.scopes.every((scope) => hasPermission(user, scope))) {
+        return serveError(c, StatusCodes.FORBIDDEN, ERRORS.NOT_ALLOWED);
+      }
+      const existing = await this.service.findActiveByUserId(user.id);
+      if (existing.length >= MAX_API_KEYS) {
+        return serveBadRequest(c, ERRORS.TOO_MANY_API_KEYS);
+      }
+
+      const { key, apiKey } = await this.service.create(
+        user.id,
+        body.name,
+        body.scopes,
+        body.expires_at ? new Date(body.expires_at) : null,
+      );
+      c.set('audit', { entityId: apiKey.id, after: serializeApiKey(apiKey) });
+
+      return c.json(
+        {
+          data: {
+            key,
+            api_key: serializeApiKey(apiKey),
+            message: 'Copy this key now, it will not be shown again',
+          },
+        },
+        StatusCodes.CREATED,
+      );
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Revokes one of the current user's API keys
+   * @param {Context} c - The Hono context containing the key ID
+   * @returns {Promise<Response>} Response indicating revocation status
+   * @throws {Error} When revoking the key fails
+   */
+  public revokeApiKey = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const id = parseInt(c.req.param('id'));
+      const apiKey = await this.service.revoke(user.id, id);
+      if (!apiKey) {
+        return serveNotFound(c, ERRORS.API_KEY_NOT_FOUND);
+      }
+
+      return serveData(c, {
+        success: true,
+        message: 'API key revoked successfully',
+      });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+}
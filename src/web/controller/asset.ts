@@ -0,0 +1,194 @@
+import type { Context } from 'hono';
+import { StatusCodes } from 'http-status-codes';
+
+import { logger } from '../../lib/logger.js';
+import type { AssetService } from '../../service/asset.js';
+import type { CreateAssetBody, PresignedUrlBody, RenameAssetBody } from '../validator/asset.js';
+import {
+  ERRORS,
+  serveBadRequest,
+  serveError,
+  serveInternalServerError,
+  serveNotFound,
+} from './resp/error.js';
+import { serve, serveData } from './resp/resp.js';
+import { serializeAsset } from './serializer/asset.js';
+
+const UPLOAD_ERRORS = {
+  unsupported_type: [StatusCodes.UNSUPPORTED_MEDIA_TYPE, ERRORS.ASSET_TYPE_NOT_ALLOWED],
+  too_large: [StatusCodes.REQUEST_TOO_LONG, ERRORS.ASSET_TOO_LARGE],
+  quota_exceeded: [StatusCodes.FORBIDDEN, ERRORS.ASSET_QUOTA_EXCEEDED],
+  not_uploaded: [StatusCodes.CONFLICT, ERRORS.ASSET_NOT_UPLOADED],
+} as const;
+
+export class AssetController {
+  private service: AssetService;
+
+  constructor(assetService: AssetService) {
+    this.service = assetService;
+  }
+
+  /**
+   * Creates a pending asset and a presigned URL the client uploads the file to
+   * @param {Context} c - The Hono context containing the file's name, type and size
+   * @returns {Promise<Response>} Response containing the upload URL, its form fields and the pending asset
+   * @throws {Error} When creating the upload fails
+   */
+  public createPresignedUrl = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const body: PresignedUrlBody = await c.req.json();
+      const result = await this.service.createUpload(user.id, body);
+      if ('error' in result) {
+        const [status, message] = UPLOAD_ERRORS[result.error];
+        return serveError(c, status, message);
+      }
+
+      return serveData(c, {
+        url: result.upload.url,
+        fields: result.upload.fields,
+        expires_at: result.upload.expiresAt,
+        asset: serializeAsset(result.asset),
+      });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Adds an uploaded file to the library once the client has finished uploading it
+   * @param {Context} c - The Hono context containing the asset ID from the presigned URL
+   * @returns {Promise<Response>} Response containing the new asset
+   * @throws {Error} When completing the upload fails
+   */
+  public createAsset = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const body: CreateAssetBody = await c.req.json();
+      const asset = await this.service.find(user.id, body.asset_id);
+      if (!asset) {
+        return serveNotFound(c, ERRORS.ASSET_NOT_IN_LIBRARY);
+      }
+      if (asset.status !== 'pending') {
+        return serveBadRequest(c, ERRORS.ASSET_ALREADY_UPLOADED);
+      }
+
+      const result = await this.service.completeUpload(asset, body);
+      if ('error' in result) {
+        const [status, message] = UPLOAD_ERRORS[result.error];
+        return serveError(c, status, message);
+      }
+      const url = await this.service.getDownloadUrl(result.asset);
+      c.set('audit', { entityId: asset.id, after: serializeAsset(result.asset) });
+
+      return serve(c, StatusCodes.CREATED, serializeAsset(result.asset, url));
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Lists the current user's assets with how much of their quota they use
+   * @param {Context} c - The Hono context containing user information
+   * @returns {Promise<Response>} Response containing the assets and the storage usage
+   * @throws {Error} When fetching assets fails
+   */
+  public getAssets = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const [assets, usage] = await Promise.all([
+        this.service.findByUserId(user.id),
+        this.service.getUsage(user.id),
+      ]);
+      const serialized = await Promise.all(
+        assets.map(async (asset) =>
+          serializeAsset(asset, await this.service.getDownloadUrl(asset)),
+        ),
+      );
+
+      return serveData(c, { assets: serialized, usage });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Gets one of the current user's assets with a temporary download URL
+   * @param {Context} c - The Hono context containing the asset ID
+   * @returns {Promise<Response>} Response containing the asset
+   * @throws {Error} When fetching the asset fails
+   */
+  public getAsset = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const id = parseInt(c.req.param('id'));
+      const asset = await this.service.find(user.id, id);
+      if (!asset) {
+        return serveNotFound(c, ERRORS.ASSET_NOT_IN_LIBRARY);
+      }
+      const url = asset.status === 'ready' ? await this.service.getDownloadUrl(asset) : null;
+
+      return serveData(c, serializeAsset(asset, url));
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Renames one of the current user's assets
+   * @param {Context} c - The Hono context containing the asset ID and new name
+   * @returns {Promise<Response>} Response containing the renamed asset
+   * @throws {Error} When renaming the asset fails
+   */
+  public renameAsset = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const id = parseInt(c.req.param('id'));
+      const body: RenameAssetBody = await c.req.json();
+      const asset = await this.service.find(user.id, id);
+      if (!asset) {
+        return serveNotFound(c, ERRORS.ASSET_NOT_IN_LIBRARY);
+      }
+
+      const renamed = await this.service.rename(asset, body.name);
+      c.set('audit', { entityId: id, before: { name: asset.name }, after: { name: renamed.name } });
+
+      return serveData(c, serializeAsset(renamed, await this.service.getDownloadUrl(renamed)));
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Deletes one of the current user's assets and its file
+   * @param {Context} c - The Hono context containing the asset ID
+   * @returns {Promise<Response>} Response indicating deletion status
+   * @throws {Error} When deleting the asset fails
+   */
+  public deleteAsset = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const id = parseInt(c.req.param('id'));
+      const asset = await this.service.find(user.id, id);
+      if (!asset) {
+        return serveNotFound(c, ERRORS.ASSET_NOT_IN_LIBRARY);
+      }
+
+      await this.service.remove(asset);
+      c.set('audit', { entityId: id, before: serializeAsset(asset) });
+
+      return serveData(c, {
+        success: true,
+        message: 'Asset deleted successfully',
+      });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+}
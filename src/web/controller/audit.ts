@@ -0,0 +1,85 @@
+import type { Context } from 'hono';
+
+import { logger } from '../../lib/logger.js';
+import type { AuditLogQuery } from '../../repository/audit-log.js';
+import type { AuditService } from '../../service/audit.js';
+import { serveInternalServerError } from './resp/error.js';
+import { serveData } from './resp/resp.js';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+export class AuditController {
+  private service: AuditService;
+
+  constructor(auditService: AuditService) {
+    this.service = auditService;
+  }
+
+  /**
+   * Reads the audit log filters from the query string
+   * @private
+   * @param {Context} c - The Hono context containing the query parameters
+   * @returns {Omit<AuditLogQuery, 'page' | 'limit'>} The filters to apply
+   */
+  private getFilters = (c: Context) => {
+    const params = c.req.query();
+    return {
+      actor_id: Number(params.actor_id) || undefined,
+      action: params.action || undefined,
+      entity_type: params.entity_type || undefined,
+      entity_id: params.entity_id || undefined,
+      from: params.from ? new Date(params.from) : undefined,
+      to: params.to ? new Date(params.to) : undefined,
+    };
+  };
+
+  /**
+   * Lists audit log entries, filtered by actor, action, entity and date range
+   * @param {Context} c - The Hono context containing the query parameters
+   * @returns {Promise<Response>} Response containing the page of entries and pagination info
+   * @throws {Error} When fetching the entries fails
+   */
+  public getLogs = async (c: Context) => {
+    try {
+      const query: AuditLogQuery = {
+        ...this.getFilters(c),
+        page: Number(c.req.query('page')) || 1,
+        limit: Number(c.req.query('limit')) || DEFAULT_PAGE_SIZE,
+      };
+
+      const { logs, total } = await this.service.search(query);
+      return serveData(c, {
+        logs,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          pages: Math.ceil(total / query.limit),
+        },
+      });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Downloads the audit log entries matching the filters as a CSV file
+   * @param {Context} c - The Hono context containing the query parameters
+   * @returns {Promise<Response>} CSV attachment
+   * @throws {Error} When the export fails
+   */
+  public exportLogs = async (c: Context) => {
+    try {
+      const csv = await this.service.exportCsv(this.getFilters(c));
+      const date = new Date().toISOString().slice(0, 10);
+
+      c.header('Content-Type', 'text/csv; charset=utf-8');
+      c.header('Content-Disposition', `attachment; filename="audit-log-${date}.csv"`);
+      return c.body(csv);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+}
@@ -1,40 +1,126 @@
-import { eq } from 'drizzle-orm';
+import crypto from 'crypto';
 import type { Context } from 'hono';
+import { deleteCookie, getCookie, setCookie } from 'hono/cookie';
+import { StatusCodes } from 'http-status-codes';
 import { isValidPhoneNumber } from 'libphonenumber-js';
 
-import { db } from '../../lib/database.js';
-import { encrypt, verify } from '../../lib/encryption.js';
+import { NODE_ENVIRONMENTS } from '../../lib/constants.js';
 import env from '../../lib/env.js';
-import { encode, type JWTPayload } from '../../lib/jwt.js';
+import { encodeMfaToken, type JWTPayload } from '../../lib/jwt.js';
 import { logger } from '../../lib/logger.ts';
+import { verifyDummyPassword } from '../../lib/password.ts';
 import type { UserRepository } from '../../repository/user.js';
-import { userSchema } from '../../schema/schema.ts';
+import type { User } from '../../schema/schema.ts';
+import type { EmailChangeService } from '../../service/email-change.ts';
+import type { AccountLockoutService } from '../../service/lockout.ts';
+import type { OneTimeCodeService } from '../../service/one-time-code.js';
+import type { SessionService } from '../../service/session.js';
 import type { UserService } from '../../service/user.js';
 import sendWelcomeEmailAsync from '../../task/client/sendWelcomeEmailAsync.js';
 import { sendTransactionalEmail } from '../../task/email-processor.ts';
+import { getRequestMeta } from '../../util/request.js';
 import type {
+  CancelEmailChangeBody,
+  ConfirmEmailChangeBody,
   EmailVerificationBody,
   InAppResetPasswordBody,
   LoginBody,
+  MagicLinkBody,
+  MagicLinkVerifyBody,
   RegisterTokenBody,
   RegistrationBody,
   RequestResetPasswordBody,
   ResetPasswordBody,
+  UnlockAccountBody,
   UpdateUserDetailsBody,
 } from '../validator/user.js';
-import { ERRORS, MAIL_CONTENT, serveBadRequest, serveInternalServerError } from './resp/error.js';
+import {
+  ERRORS,
+  MAIL_CONTENT,
+  serveBadRequest,
+  serveError,
+  serveInternalServerError,
+  serveTooManyRequests,
+} from './resp/error.js';
 import { serveData } from './resp/resp.js';
 import { serializeUser } from './serializer/user.js';
 
+// Holds the secret a browser-bound magic link was issued with
+const MAGIC_LINK_COOKIE = 'magic_link_binding';
+
 export class AuthController {
   private service: UserService;
   private userRepository: UserRepository;
-
-  constructor(userService: UserService, userRepository: UserRepository) {
+  private sessionService: SessionService;
+  private oneTimeCodeService: OneTimeCodeService;
+  private lockoutService: AccountLockoutService;
+  private emailChangeService: EmailChangeService;
+
+  constructor(
+    userService: UserService,
+    userRepository: UserRepository,
+    sessionService: SessionService,
+    oneTimeCodeService: OneTimeCodeService,
+    lockoutService: AccountLockoutService,
+    emailChangeService: EmailChangeService,
+  ) {
     this.service = userService;
     this.userRepository = userRepository;
+    this.sessionService = sessionService;
+    this.oneTimeCodeService = oneTimeCodeService;
+    this.lockoutService = lockoutService;
+    this.emailChangeService = emailChangeService;
   }
 
+  /**
+   * Responds to a failed login without revealing whether the account exists or is locked
+   * @private
+   * @param {Context} c - The Hono context of the login request
+   * @returns {Response} 401 response with a generic message
+   */
+  private serveInvalidCredentials = (c: Context) => {
+    return c.json(
+      {
+        success: false,
+        message: ERRORS.INVALID_CREDENTIALS,
+        code: 'AUTH_INVALID_CREDENTIALS',
+      },
+      401,
+    );
+  };
+
+  /**
+   * Starts a new session for the user and responds with the token pair and user data
+   * @private
+   * @param {Context} c - The Hono context of the login request
+   * @param {User} user - The authenticated user
+   * @returns {Promise<Response>} Response containing access token, refresh token and user data
+   */
+  private issueTokens = async (c: Context, user: User) => {
+    c.set('audit', { actorId: user.id, entityId: user.id });
+    const { token, refreshToken } = await this.sessionService.create(user, getRequestMeta(c));
+    const serializedUser = await serializeUser(user);
+    return serveData(c, { token, refreshToken, user: serializedUser });
+  };
+
+  /**
+   * Finishes a login once the first factor has been checked, asking for the second
+   * factor first when the account has 2FA enabled
+   * @private
+   * @param {Context} c - The Hono context of the login request
+   * @param {User} user - The user who passed the first factor
+   * @returns {Promise<Response>} Response containing either the tokens or a pending MFA token
+   */
+  private completeLogin = async (c: Context, user: User) => {
+    // Accounts with 2FA finish logging in at /login/mfa
+    if (user.mfa_enabled) {
+      const mfaToken = await encodeMfaToken(user.id);
+      return serveData(c, { mfa_required: true, mfaToken });
+    }
+
+    return this.issueTokens(c, user);
+  };
+
   /**
    * Authenticates a user with email and password
    * @param {Context} c - The Hono context containing login credentials
@@ -46,30 +132,137 @@ export class AuthController {
       const body: LoginBody = await c.req.json();
       const user = await this.service.findByEmail(body.email);
       if (!user) {
-        return c.json(
-          {
-            success: false,
-            message: 'Invalid email, please try again',
-            code: 'AUTH_INVALID_CREDENTIALS',
-          },
-          401,
-        );
+        // Spend the same time hashing as a real account would
+        await verifyDummyPassword(body.password);
+        return this.serveInvalidCredentials(c);
+      }
+      c.set('audit', { entityId: user.id });
+      // Locked accounts get the same answer as a wrong password, the owner is told by email
+      if (this.lockoutService.isLocked(user)) {
+        await verifyDummyPassword(body.password);
+        return this.serveInvalidCredentials(c);
       }
-      const isVerified = verify(body.password, user.password);
+      const isVerified = await this.service.verifyPassword(user, body.password);
       if (!isVerified) {
-        return c.json(
-          {
-            success: false,
-            message: 'Invalid password, please try again',
-            code: 'AUTH_INVALID_CREDENTIALS',
-          },
-          401,
-        );
+        await this.lockoutService.recordFailure(user);
+        return this.serveInvalidCredentials(c);
+      }
+      // With 2FA the failures are only cleared once the code is accepted, so logging in again
+      // does not reset the count of wrong codes
+      if (!user.mfa_enabled) {
+        await this.lockoutService.recordSuccess(user);
+      }
+      if (user.is_deleted) {
+        return this.serveInvalidCredentials(c);
+      }
+      if (user.is_banned) {
+        return serveError(c, StatusCodes.FORBIDDEN, ERRORS.ACCOUNT_BANNED);
       }
 
-      const token = await encode(user.id, user.email);
-      const serializedUser = await serializeUser(user);
-      return serveData(c, { token, user: serializedUser });
+      return await this.completeLogin(c, user);
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Emails a single-use sign in link. The response is the same whether or not the
+   * account exists. When `bind_browser` is set, the link only works in the browser that
+   * asked for it, through a cookie holding the secret the link was issued with.
+   * @param {Context} c - The Hono context containing the email address
+   * @returns {Promise<Response>} Response indicating the link was sent
+   * @throws {Error} When issuing the link or sending the email fails
+   */
+  public requestMagicLink = async (c: Context) => {
+    try {
+      const body: MagicLinkBody = await c.req.json();
+      const response = {
+        success: true,
+        message: 'If an account exists for this email, a sign in link is on its way',
+      };
+
+      const user = await this.service.findByEmail(body.email);
+      if (!user || user.is_banned || user.is_deleted) {
+        return serveData(c, response);
+      }
+
+      const binding = body.bind_browser ? crypto.randomBytes(32).toString('base64url') : undefined;
+      const issued = await this.oneTimeCodeService.issue(user.id, 'magic_link', binding);
+      if ('retryAfter' in issued) {
+        return serveData(c, response);
+      }
+
+      if (binding) {
+        setCookie(c, MAGIC_LINK_COOKIE, binding, {
+          httpOnly: true,
+          secure: env.NODE_ENV === NODE_ENVIRONMENTS.production,
+          sameSite: 'Lax',
+          path: '/',
+          maxAge: 60 * 15,
+        });
+      }
+
+      const link = `${env.FRONTEND_URL}/login/magic?token=${issued.code}&email=${encodeURIComponent(user.email)}${binding ? '&bound=1' : ''}`;
+      await sendTransactionalEmail(user.email, user.name, 'notice', {
+        subject: `Sign in to ${env.BRAND_NAME}`,
+        title: 'Your sign in link',
+        subtitle: 'This link expires in 15 minutes and can only be used once',
+        body: `Click the button below to sign in to ${env.BRAND_NAME}. If you did not ask for this link, you can safely ignore this email.`,
+        buttonText: 'Sign in',
+        buttonLink: link,
+      });
+
+      return serveData(c, response);
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Exchanges a magic link token for a session, in the same shape as a password login
+   * @param {Context} c - The Hono context containing the email and link token
+   * @returns {Promise<Response>} Response containing JWT token and user data, or a pending MFA token
+   * @throws {Error} When verification fails
+   */
+  public verifyMagicLink = async (c: Context) => {
+    try {
+      const body: MagicLinkVerifyBody = await c.req.json();
+      const user = await this.service.findByEmail(body.email);
+      if (!user || user.is_deleted) {
+        return serveError(c, StatusCodes.UNAUTHORIZED, ERRORS.INVALID_MAGIC_LINK);
+      }
+      c.set('audit', { entityId: user.id });
+
+      const binding = body.bound ? getCookie(c, MAGIC_LINK_COOKIE) : undefined;
+      if (body.bound && !binding) {
+        return serveError(c, StatusCodes.UNAUTHORIZED, ERRORS.MAGIC_LINK_OTHER_BROWSER);
+      }
+      const isValid = await this.oneTimeCodeService.verify(
+        user.id,
+        'magic_link',
+        body.token,
+        binding,
+      );
+      if (!isValid) {
+        return serveError(c, StatusCodes.UNAUTHORIZED, ERRORS.INVALID_MAGIC_LINK);
+      }
+      if (binding) {
+        deleteCookie(c, MAGIC_LINK_COOKIE, { path: '/' });
+      }
+      if (user.is_banned) {
+        return serveError(c, StatusCodes.FORBIDDEN, ERRORS.ACCOUNT_BANNED);
+      }
+
+      // Following the link proves control of the mailbox, like a password reset does
+      await this.lockoutService.recordSuccess(user);
+      if (!user.is_verified) {
+        await this.service.update(user.id, { is_verified: true });
+        user.is_verified = true;
+      }
+
+      return await this.completeLogin(c, user);
     } catch (err) {
       logger.error(err);
       return serveInternalServerError(c, err);
@@ -104,9 +297,7 @@ export class AuthController {
 
     await sendWelcomeEmailAsync(user.id);
 
-    const token = await encode(user.id, user.email);
-    const serializedUser = await serializeUser(user);
-    return serveData(c, { token, user: serializedUser });
+    return this.issueTokens(c, user);
   };
 
   /**
@@ -129,11 +320,13 @@ export class AuthController {
           401,
         );
       }
-      //6 digint random number
-      const token = Math.floor(100000 + Math.random() * 900000).toString();
-      await db.update(userSchema).set({ email_token: token }).where(eq(userSchema.id, user.id));
+      const issued = await this.oneTimeCodeService.issue(user.id, 'email_verification');
+      if ('retryAfter' in issued) {
+        return serveTooManyRequests(c, ERRORS.CODE_RECENTLY_SENT, issued.retryAfter);
+      }
+      const token = issued.code;
 
-      await sendTransactionalEmail(user.email, user.name, 12, {
+      await sendTransactionalEmail(user.email, user.name, 'notice', {
         subject: 'Your code',
         title: 'Thanks for signing up',
         subtitle: `${token}`,
@@ -172,7 +365,12 @@ export class AuthController {
           401,
         );
       }
-      if (user.email_token !== String(body.token)) {
+      const isValid = await this.oneTimeCodeService.verify(
+        user.id,
+        'email_verification',
+        String(body.token),
+      );
+      if (!isValid) {
         return c.json(
           {
             success: false,
@@ -206,9 +404,12 @@ export class AuthController {
       if (!user) {
         return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
       }
-      const token = Math.floor(100000 + Math.random() * 900000).toString();
-      await db.update(userSchema).set({ reset_token: token }).where(eq(userSchema.id, user.id));
-      await sendTransactionalEmail(user.email, user.name, 12, {
+      const issued = await this.oneTimeCodeService.issue(user.id, 'password_reset');
+      if ('retryAfter' in issued) {
+        return serveTooManyRequests(c, ERRORS.CODE_RECENTLY_SENT, issued.retryAfter);
+      }
+      const token = issued.code;
+      await sendTransactionalEmail(user.email, user.name, 'notice', {
         subject: 'Reset password',
         title: 'Reset password',
         subtitle: `${token}`,
@@ -226,18 +427,6 @@ export class AuthController {
     }
   };
 
-  /**
-   * Retrieves user information from JWT payload
-   * @private
-   * @param {Context} c - The Hono context containing JWT payload
-   * @returns {Promise<User|null>} The user object if found, null otherwise
-   */
-  private getUser = async (c: Context) => {
-    const { email } = c.get('jwtPayload');
-    const user = await this.service.findByEmail(email);
-    return user;
-  };
-
   /**
    * Resets user's password using token sent via email
    * @param {Context} c - The Hono context containing new password and token
@@ -251,13 +440,21 @@ export class AuthController {
       if (!user) {
         return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
       }
-      if (user.reset_token !== String(body.token)) {
+      const isValid = await this.oneTimeCodeService.verify(
+        user.id,
+        'password_reset',
+        String(body.token),
+      );
+      if (!isValid) {
         return serveBadRequest(c, ERRORS.INVALID_TOKEN);
       }
-      const hashedPassword = encrypt(body.password);
-      await this.service.update(user.id, { password: hashedPassword });
-      await db.update(userSchema).set({ reset_token: null }).where(eq(userSchema.id, user.id));
-      await sendTransactionalEmail(user.email, user.name, 12, {
+      await this.service.updatePassword(user.id, body.password);
+      // Whoever requested the reset may not be the only one holding the old password
+      await this.sessionService.revokeAllForUser(user.id);
+      c.set('audit', { actorId: user.id, entityId: user.id });
+      // Proving control of the mailbox is enough to lift a lockout
+      await this.lockoutService.recordSuccess(user);
+      await sendTransactionalEmail(user.email, user.name, 'notice', {
         subject: 'Password reset',
         title: 'Password reset',
         subtitle: `Your password has been reset successfully`,
@@ -275,6 +472,34 @@ export class AuthController {
     }
   };
 
+  /**
+   * Lifts a lockout early using the link sent when the account was locked
+   * @param {Context} c - The Hono context containing email and unlock code
+   * @returns {Promise<Response>} Response indicating unlock status
+   * @throws {Error} When unlocking fails
+   */
+  public unlockAccount = async (c: Context) => {
+    try {
+      const body: UnlockAccountBody = await c.req.json();
+      const user = await this.service.findByEmail(body.email);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.INVALID_UNLOCK_LINK);
+      }
+      const isUnlocked = await this.lockoutService.unlock(user, body.token);
+      if (!isUnlocked) {
+        return serveBadRequest(c, ERRORS.INVALID_UNLOCK_LINK);
+      }
+      c.set('audit', { entityId: user.id });
+      return serveData(c, {
+        success: true,
+        message: 'Account unlocked successfully',
+      });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
   /**
    * Resets user's password while logged in
    * @param {Context} c - The Hono context containing new password
@@ -283,24 +508,29 @@ export class AuthController {
    */
   public resetPasswordInApp = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
 
       const body: InAppResetPasswordBody = await c.req.json();
 
       // Verify old password
-      const isOldPasswordValid = verify(body.oldPassword, user.password);
+      const isOldPasswordValid = await this.service.verifyPassword(user, body.oldPassword);
       if (!isOldPasswordValid) {
         return serveBadRequest(c, ERRORS.AUTH_INVALID_PASSWORD);
       }
-      const hashedPassword = encrypt(body.newPassword);
       // Update password
-      await this.service.update(user.id, { password: hashedPassword });
+      await this.service.updatePassword(user.id, body.newPassword);
+
+      // Sign out every other device, keeping the one that made the change
+      const { sid } = c.get('jwtPayload') as JWTPayload;
+      await this.sessionService.revokeAllForUser(user.id, sid as number);
 
       // Send confirmation email
-      await sendTransactionalEmail(user.email, user.name, 12, MAIL_CONTENT.PASSWORD_CHANGED_IN_APP);
+      await sendTransactionalEmail(
+        user.email,
+        user.name,
+        'notice',
+        MAIL_CONTENT.PASSWORD_CHANGED_IN_APP,
+      );
 
       return serveData(c, {
         success: true,
@@ -315,86 +545,66 @@ export class AuthController {
   /**
    * Retrieves current user's profile information
    * @param {Context} c - The Hono context containing user information
-   * @returns {Promise<Response>} Response containing user profile data
+   * @returns {Promise<Response>} Response containing user profile data and the impersonating admin, if any
    * @throws {Error} When profile retrieval fails
    */
   public me = async (c: Context) => {
-    const payload: JWTPayload = c.get('jwtPayload');
-    const user = await this.service.findByEmail(payload.email as string);
-    if (!user) {
-      return serveInternalServerError(c, new Error(ERRORS.USER_NOT_FOUND));
-    }
-
+    const user = c.get('user');
+    const impersonator = c.get('impersonator');
     const serializedUser = await serializeUser(user);
-    return serveData(c, { user: serializedUser });
+    // Lets the frontend show a banner while support is viewing the account
+    return serveData(c, {
+      user: serializedUser,
+      impersonator: impersonator
+        ? { id: impersonator.id, name: impersonator.name, email: impersonator.email }
+        : null,
+    });
   };
 
   /**
-   * Updates user's profile details
+   * Updates user's profile details. A new email address is not applied straight away,
+   * it is held as pending until confirmed with the code sent to it.
    * @param {Context} c - The Hono context containing updated user information
    * @returns {Promise<Response>} Response containing updated user data
    * @throws {Error} When profile update fails
    */
   public updateUserDetails = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
 
       const body: UpdateUserDetailsBody = await c.req.json();
 
       // If email is being changed, check if it's already taken
-      if (body.email && body.email !== user.email) {
+      const isEmailChange = !!body.email && body.email !== user.email;
+      if (isEmailChange) {
         const existingUser = await this.service.findByEmail(body.email);
         if (existingUser) {
           return serveBadRequest(c, ERRORS.USER_EXISTS);
         }
-      }
-
-      /*//if updating the profile image, check if the image is valid
-      if (body.imageBase64 && body.fileName) {
-        const { imageBase64, fileName } = body;
-
-        // Convert base64 to buffer
-        const base64Data = imageBase64.replace(/^data:image\/\w+;base64,/, '');
-        const buffer = Buffer.from(base64Data, 'base64');
-
-        // Create asset using AssetService
-        const { asset: assetId } = await this.assetService.createAsset(
-          user.id,
-          fileName.replace(/[^\w.-]/g, ''),
-          getContentType(imageBase64),
-          'profile_picture',
-          buffer.length,
-          0,
-          buffer,
-        );
-
-        // Get the full asset object to access the URL
-        const asset = await this.assetService.getAsset(assetId);
-        if (!asset || !asset.asset_url) {
-          return serveInternalServerError(c, new Error('Failed to get asset URL'));
+        const requested = await this.emailChangeService.request(user, body.email);
+        if ('retryAfter' in requested) {
+          return serveTooManyRequests(c, ERRORS.CODE_RECENTLY_SENT, requested.retryAfter);
         }
+      }
 
-        // Update user profile image with the asset URL
-        await this.service.updateProfileImage(user.id, asset.asset_url);
-      }*/
-      const { name, email, dial_code, phone } = body;
+      const { name, dial_code, phone } = body;
 
       // Update user details
-      await this.service.update(user.id, { name, email, dial_code, phone });
+      await this.service.update(user.id, { name, dial_code, phone });
 
       // Get updated user
       const updatedUser = await this.service.find(user.id);
       if (!updatedUser) {
         return serveInternalServerError(c, new Error(ERRORS.USER_NOT_FOUND));
       }
+      c.set('audit', { entityId: user.id, before: user, after: updatedUser });
 
       const serializedUser = await serializeUser(updatedUser);
       return serveData(c, {
         success: true,
-        message: 'User details updated successfully',
+        message: isEmailChange
+          ? 'User details updated successfully, please confirm your new email address with the code we sent to it'
+          : 'User details updated successfully',
         user: serializedUser,
       });
     } catch (error) {
@@ -402,4 +612,75 @@ export class AuthController {
       return serveInternalServerError(c, error);
     }
   };
+
+  /**
+   * Applies a pending email change using the code sent to the new address
+   * @param {Context} c - The Hono context containing the confirmation code
+   * @returns {Promise<Response>} Response containing updated user data
+   * @throws {Error} When confirming the change fails
+   */
+  public confirmEmailChange = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      if (!user.pending_email) {
+        return serveBadRequest(c, ERRORS.NO_PENDING_EMAIL_CHANGE);
+      }
+      // The address may have been taken since the change was requested
+      const existingUser = await this.service.findByEmail(user.pending_email);
+      if (existingUser) {
+        return serveBadRequest(c, ERRORS.USER_EXISTS);
+      }
+
+      const body: ConfirmEmailChangeBody = await c.req.json();
+      const { sid } = c.get('jwtPayload') as JWTPayload;
+      const isConfirmed = await this.emailChangeService.confirm(user, body.code, sid as number);
+      if (!isConfirmed) {
+        return serveBadRequest(c, ERRORS.INVALID_TOKEN);
+      }
+
+      const updatedUser = await this.service.find(user.id);
+      if (!updatedUser) {
+        return serveInternalServerError(c, new Error(ERRORS.USER_NOT_FOUND));
+      }
+      c.set('audit', { before: user, after: updatedUser });
+
+      return serveData(c, {
+        success: true,
+        message: 'Email changed successfully',
+        user: await serializeUser(updatedUser),
+      });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Cancels a pending email change using the link sent to the current address
+   * @param {Context} c - The Hono context containing the current email and cancel token
+   * @returns {Promise<Response>} Response indicating cancellation status
+   * @throws {Error} When cancelling the change fails
+   */
+  public cancelEmailChange = async (c: Context) => {
+    try {
+      const body: CancelEmailChangeBody = await c.req.json();
+      const user = await this.service.findByEmail(body.email);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.INVALID_EMAIL_CHANGE_LINK);
+      }
+      const isCancelled = await this.emailChangeService.cancel(user, body.token);
+      if (!isCancelled) {
+        return serveBadRequest(c, ERRORS.INVALID_EMAIL_CHANGE_LINK);
+      }
+      c.set('audit', { actorId: user.id, entityId: user.id });
+
+      return serveData(c, {
+        success: true,
+        message: 'Email change cancelled, you have been signed out of all devices',
+      });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
 }
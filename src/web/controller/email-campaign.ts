@@ -0,0 +1,138 @@
+import type { Context } from 'hono';
+import { StatusCodes } from 'http-status-codes';
+
+import { logger } from '../../lib/logger.js';
+import type { EmailCampaignService } from '../../service/email-campaign.js';
+import type { BulkEmailBody } from '../validator/email.js';
+import {
+  ERRORS,
+  serveBadRequest,
+  serveError,
+  serveInternalServerError,
+  serveNotFound,
+} from './resp/error.js';
+import { serve, serveData } from './resp/resp.js';
+
+export class EmailCampaignController {
+  private service: EmailCampaignService;
+
+  constructor(campaignService: EmailCampaignService) {
+    this.service = campaignService;
+  }
+
+  /**
+   * Creates a campaign to the selected audience and starts sending it
+   * @param {Context} c - The Hono context containing the message and audience
+   * @returns {Promise<Response>} Response containing the campaign and its progress
+   * @throws {Error} When creating the campaign fails
+   */
+  public createCampaign = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const body: BulkEmailBody = await c.req.json();
+      const { type, filterType, recipients, selectedMembership, ...message } = body;
+      if (recipients.length === 0) {
+        return serveBadRequest(
+          c,
+          type === 'event' ? ERRORS.PROVIDE_SOME_EVENTS : ERRORS.PROVIDE_SOME_LEADS_OR_TAGS,
+        );
+      }
+
+      const result = await this.service.create(user.id, {
+        ...message,
+        audience: { type, filterType, recipients, selectedMembership },
+      });
+      if ('error' in result) {
+        if (result.error === 'unsupported_audience') {
+          return serveBadRequest(c, ERRORS.CAMPAIGN_AUDIENCE_UNSUPPORTED);
+        }
+        return serveError(c, StatusCodes.UNPROCESSABLE_ENTITY, ERRORS.CAMPAIGN_AUDIENCE_EMPTY);
+      }
+      const { campaign } = result;
+      c.set('audit', {
+        entityId: campaign.id,
+        after: { audience: campaign.audience, recipient_count: campaign.recipient_count },
+      });
+
+      const progress = await this.service.getProgress(campaign.id);
+      return serve(c, StatusCodes.ACCEPTED, { ...campaign, progress });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Lists the current user's campaigns
+   * @param {Context} c - The Hono context containing user information
+   * @returns {Promise<Response>} Response containing the campaigns
+   * @throws {Error} When fetching the campaigns fails
+   */
+  public getCampaigns = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const campaigns = await this.service.listForHost(user.id);
+
+      return serveData(c, campaigns);
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Gets one of the current user's campaigns with how many of its emails have been sent
+   * @param {Context} c - The Hono context containing the campaign ID
+   * @returns {Promise<Response>} Response containing the campaign and its progress
+   * @throws {Error} When fetching the campaign fails
+   */
+  public getCampaign = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const id = parseInt(c.req.param('id'));
+      const campaign = await this.service.findForHost(user.id, id);
+      if (!campaign) {
+        return serveNotFound(c, ERRORS.CAMPAIGN_NOT_FOUND);
+      }
+
+      const progress = await this.service.getProgress(id);
+      return serveData(c, { ...campaign, progress });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Cancels one of the current user's campaigns before the rest of its emails are sent
+   * @param {Context} c - The Hono context containing the campaign ID
+   * @returns {Promise<Response>} Response containing the campaign and its progress
+   * @throws {Error} When cancelling the campaign fails
+   */
+  public cancelCampaign = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const id = parseInt(c.req.param('id'));
+      const campaign = await this.service.findForHost(user.id, id);
+      if (!campaign) {
+        return serveNotFound(c, ERRORS.CAMPAIGN_NOT_FOUND);
+      }
+
+      const isCancelled = await this.service.cancel(campaign);
+      if (!isCancelled) {
+        return serveError(c, StatusCodes.CONFLICT, ERRORS.CAMPAIGN_ALREADY_FINISHED);
+      }
+      c.set('audit', {
+        entityId: id,
+        before: { status: campaign.status },
+        after: { status: 'cancelled' },
+      });
+
+      const progress = await this.service.getProgress(id);
+      return serveData(c, { ...campaign, status: 'cancelled', progress });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+}
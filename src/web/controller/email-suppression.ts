@@ -0,0 +1,148 @@
+import type { Context } from 'hono';
+import { StatusCodes } from 'http-status-codes';
+
+import env from '../../lib/env.js';
+import { logger } from '../../lib/logger.js';
+import type { EmailSuppressionService } from '../../service/email-suppression.js';
+import type { SuppressionBody, UpdateSuppressionBody } from '../validator/email.js';
+import { ERRORS, serveBadRequest, serveInternalServerError, serveNotFound } from './resp/error.js';
+import { serve, serveData } from './resp/resp.js';
+import { serializeEmailSuppression } from './serializer/email-suppression.js';
+
+export class EmailSuppressionController {
+  private service: EmailSuppressionService;
+
+  constructor(suppressionService: EmailSuppressionService) {
+    this.service = suppressionService;
+  }
+
+  /**
+   * Lists the addresses the current user's mail is not sent to
+   * @param {Context} c - The Hono context containing user information
+   * @returns {Promise<Response>} Response containing the suppressions
+   * @throws {Error} When fetching the suppressions fails
+   */
+  public getSuppressions = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const suppressions = await this.service.listForHost(user.id);
+
+      return serveData(c, suppressions.map(serializeEmailSuppression));
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Stops the current user's mail going to an address
+   * @param {Context} c - The Hono context containing the address, scope and note
+   * @returns {Promise<Response>} Response containing the suppression
+   * @throws {Error} When saving the suppression fails
+   */
+  public addSuppression = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const body: SuppressionBody = await c.req.json();
+      const suppression = await this.service.addForHost(user.id, body);
+      c.set('audit', { entityId: suppression.id, after: serializeEmailSuppression(suppression) });
+
+      return serve(c, StatusCodes.CREATED, serializeEmailSuppression(suppression));
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Changes the scope or note of one of the current user's suppressions
+   * @param {Context} c - The Hono context containing the suppression ID and the changes
+   * @returns {Promise<Response>} Response containing the updated suppression
+   * @throws {Error} When updating the suppression fails
+   */
+  public updateSuppression = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const id = parseInt(c.req.param('id'));
+      const body: UpdateSuppressionBody = await c.req.json();
+      const suppression = await this.service.findForHost(user.id, id);
+      if (!suppression) {
+        return serveNotFound(c, ERRORS.SUPPRESSION_NOT_FOUND);
+      }
+
+      const updated = await this.service.update(suppression, body);
+      c.set('audit', {
+        entityId: id,
+        before: serializeEmailSuppression(suppression),
+        after: serializeEmailSuppression(updated),
+      });
+
+      return serveData(c, serializeEmailSuppression(updated));
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Removes one of the current user's suppressions, so their mail goes to the address again
+   * @param {Context} c - The Hono context containing the suppression ID
+   * @returns {Promise<Response>} Response indicating deletion status
+   * @throws {Error} When deleting the suppression fails
+   */
+  public deleteSuppression = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const id = parseInt(c.req.param('id'));
+      const suppression = await this.service.findForHost(user.id, id);
+      if (!suppression) {
+        return serveNotFound(c, ERRORS.SUPPRESSION_NOT_FOUND);
+      }
+
+      await this.service.remove(suppression);
+      c.set('audit', { entityId: id, before: serializeEmailSuppression(suppression) });
+
+      return serveData(c, {
+        success: true,
+        message: 'Address removed from the suppression list',
+      });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Sends recipients who open the List-Unsubscribe link in a browser to the page that asks
+   * them to confirm, as link scanners also follow it
+   * @param {Context} c - The Hono context containing the unsubscribe token
+   * @returns {Response} Redirect to the unsubscribe page
+   */
+  public showUnsubscribe = (c: Context) => {
+    return c.redirect(`${env.FRONTEND_URL}/unsubscribe/${c.req.param('token')}`);
+  };
+
+  /**
+   * Unsubscribes a recipient from a host's marketing mail. Mail clients post here for
+   * RFC 8058 one-click unsubscribe, and so does the unsubscribe page.
+   * @param {Context} c - The Hono context containing the unsubscribe token
+   * @returns {Promise<Response>} Response indicating the recipient was unsubscribed
+   * @throws {Error} When saving the suppression fails
+   */
+  public unsubscribe = async (c: Context) => {
+    try {
+      const isUnsubscribed = await this.service.unsubscribe(c.req.param('token'));
+      if (!isUnsubscribed) {
+        return serveBadRequest(c, ERRORS.INVALID_UNSUBSCRIBE_LINK);
+      }
+
+      return serveData(c, {
+        success: true,
+        message: 'You have been unsubscribed',
+      });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+}
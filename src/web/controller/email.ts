@@ -1,48 +1,34 @@
 import type { Context } from 'hono';
 
 import { EmailService } from '../../service/email.ts';
-import { UserService } from '../../service/user.ts';
+import type { EmailEventService } from '../../service/email-event.ts';
 import type { ToggleBulkEmailBody, UpdateBulkEmailBody } from '../validator/email.ts';
-import { ERRORS, serveBadRequest } from './resp/error.ts';
 
 export class EmailController {
   private service: EmailService;
-  private userService: UserService;
-  constructor(service: EmailService, userService: UserService) {
+  private emailEventService: EmailEventService;
+  constructor(service: EmailService, emailEventService: EmailEventService) {
     this.service = service;
-    this.userService = userService;
+    this.emailEventService = emailEventService;
   }
 
   /**
-   * Retrieves user information from JWT payload
-   * @private
-   * @param {Context} c - The Hono context containing JWT payload
-   * @returns {Promise<User|null>} The user object if found, null otherwise
-   */
-  private async getUser(c: Context) {
-    const { email } = c.get('jwtPayload');
-    const user = await this.userService.findByEmail(email);
-    return user;
-  }
-
-  /**
-   * Retrieves a specific email template by ID
+   * Retrieves a specific email template by ID, with what has happened to it since it was sent
    * @param {Context} c - The Hono context containing email ID
-   * @returns {Promise<Response>} Response containing email details or error message
+   * @returns {Promise<Response>} Response containing email details and its events or error message
    * @throws {Error} When fetching email details fails
    */
   public getEmail = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
       const id = parseInt(c.req.param('id'));
       const email = await this.service.getEmail(id);
-      if (!email) {
+      // The events hold the recipient's opens and clicks, only the sender may see them
+      if (!email || email.host_id !== user.id) {
         return c.json({ error: 'Email not found' }, 404);
       }
-      return c.json(email);
+      const events = await this.emailEventService.getTimeline(id);
+      return c.json({ ...email, events });
     } catch (error) {
       console.error('Error getting email:', error);
       return c.json({ error: 'Failed to get email' }, 500);
@@ -57,10 +43,7 @@ export class EmailController {
    */
   public getEmails = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
       const emails = await this.service.getEmails(user.id);
       return c.json(emails);
     } catch (error) {
@@ -77,10 +60,6 @@ export class EmailController {
    */
   public getEmailsByHostId = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
       const hostId = c.get('user').id;
       const emails = await this.service.getEmailsByHostId(hostId);
       return c.json(emails);
@@ -98,13 +77,16 @@ export class EmailController {
    */
   public updateEmail = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
       const id = parseInt(c.req.param('id'));
       const body: UpdateBulkEmailBody = await c.req.json();
+      const before = await this.service.getEmail(id);
+      if (!before || before.host_id !== user.id) {
+        return c.json({ error: 'Email not found' }, 404);
+      }
       await this.service.updateEmail(id, body);
+      const after = await this.service.getEmail(id);
+      c.set('audit', { before, after });
       return c.json({ message: 'Email updated successfully' });
     } catch (error) {
       console.error('Error updating email:', error);
@@ -120,12 +102,14 @@ export class EmailController {
    */
   public deleteEmail = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
       const id = parseInt(c.req.param('id'));
+      const before = await this.service.getEmail(id);
+      if (!before || before.host_id !== user.id) {
+        return c.json({ error: 'Email not found' }, 404);
+      }
       await this.service.deleteEmail(id);
+      c.set('audit', { before });
       return c.json({ message: 'Email deleted successfully' });
     } catch (error) {
       console.error('Error deleting email:', error);
@@ -133,6 +117,36 @@ export class EmailController {
     }
   };
 
+  /**
+   * Queues one of the current user's emails to be sent again, e.g. after it failed
+   * @param {Context} c - The Hono context containing email ID
+   * @returns {Promise<Response>} Response indicating the email was queued or error message
+   * @throws {Error} When queueing the email fails
+   */
+  public resendEmail = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const id = parseInt(c.req.param('id'));
+      const email = await this.service.getEmail(id);
+      if (!email || email.host_id !== user.id) {
+        return c.json({ error: 'Email not found' }, 404);
+      }
+      const isQueued = await this.service.resendEmail(email);
+      if (!isQueued) {
+        return c.json({ error: 'Email is already being sent' }, 409);
+      }
+      c.set('audit', {
+        entityId: id,
+        before: { status: email.status },
+        after: { status: 'queued' },
+      });
+      return c.json({ message: 'Email queued for sending' }, 202);
+    } catch (error) {
+      console.error('Error resending email:', error);
+      return c.json({ error: 'Failed to resend email' }, 500);
+    }
+  };
+
   /**
    * Toggles an email template from the system
    * @param {Context} c - The Hono context containing email ID
@@ -141,16 +155,18 @@ export class EmailController {
    */
   public toggleBulkEmail = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
       const body: ToggleBulkEmailBody = await c.req.json();
       const { id, action } = body;
+      const email = await this.service.getEmail(id);
+      if (!email || email.host_id !== user.id) {
+        return c.json({ error: 'Email not found' }, 404);
+      }
       await this.service.toggleBulkEmail(id, action);
       return c.json({ message: 'Email toggled successfully' });
     } catch (error) {
       console.error('Error toggling email:', error);
+      return c.json({ error: 'Failed to toggle email' }, 500);
     }
   };
 }
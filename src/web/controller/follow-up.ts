@@ -0,0 +1,165 @@
+import type { Context } from 'hono';
+import { StatusCodes } from 'http-status-codes';
+
+import { logger } from '../../lib/logger.js';
+import type { FollowUpService } from '../../service/follow-up.js';
+import type {
+  CreateBulkEmailBody,
+  FollowUpConvertBody,
+  FollowUpTriggerBody,
+  UpdateFollowUpEmailBody,
+} from '../validator/email.js';
+import { ERRORS, serveError, serveInternalServerError, serveNotFound } from './resp/error.js';
+import { serve, serveData } from './resp/resp.js';
+
+export class FollowUpController {
+  private service: FollowUpService;
+
+  constructor(followUpService: FollowUpService) {
+    this.service = followUpService;
+  }
+
+  /**
+   * Lists the current user's follow-up emails
+   * @param {Context} c - The Hono context containing user information
+   * @returns {Promise<Response>} Response containing the follow-up emails
+   * @throws {Error} When fetching the follow-up emails fails
+   */
+  public getFollowUps = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const followUps = await this.service.listForHost(user.id);
+
+      return serveData(c, followUps);
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Creates a follow-up email for the current user
+   * @param {Context} c - The Hono context containing the email, its triggers and timeline
+   * @returns {Promise<Response>} Response containing the follow-up email
+   * @throws {Error} When creating the follow-up email fails
+   */
+  public createFollowUp = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const { title, content, follow_up_who_gets_it, timeline }: CreateBulkEmailBody =
+        await c.req.json();
+      const result = await this.service.create(user.id, {
+        title,
+        content,
+        follow_up_who_gets_it,
+        timeline,
+      });
+      if ('error' in result) {
+        return serveError(c, StatusCodes.CONFLICT, ERRORS.EMAIL_TIMELINE_ALREADY_EXISTS);
+      }
+      const { followUp } = result;
+      c.set('audit', { entityId: followUp.id, after: followUp });
+
+      return serve(c, StatusCodes.CREATED, followUp);
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Updates one of the current user's follow-up emails, or turns it on or off
+   * @param {Context} c - The Hono context containing the follow-up email ID and the changes
+   * @returns {Promise<Response>} Response containing the updated follow-up email
+   * @throws {Error} When updating the follow-up email fails
+   */
+  public updateFollowUp = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const id = parseInt(c.req.param('id'));
+      const body: UpdateFollowUpEmailBody = await c.req.json();
+      const followUp = await this.service.findForHost(user.id, id);
+      if (!followUp) {
+        return serveNotFound(c, ERRORS.FOLLOW_UP_NOT_FOUND);
+      }
+
+      const result = await this.service.update(followUp, body);
+      if ('error' in result) {
+        return serveError(c, StatusCodes.CONFLICT, ERRORS.EMAIL_TIMELINE_ALREADY_EXISTS);
+      }
+      c.set('audit', { entityId: id, before: followUp, after: result.followUp });
+
+      return serveData(c, result.followUp);
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Deletes one of the current user's follow-up emails, along with the ones still to be sent
+   * @param {Context} c - The Hono context containing the follow-up email ID
+   * @returns {Promise<Response>} Response indicating deletion status
+   * @throws {Error} When deleting the follow-up email fails
+   */
+  public deleteFollowUp = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const id = parseInt(c.req.param('id'));
+      const followUp = await this.service.findForHost(user.id, id);
+      if (!followUp) {
+        return serveNotFound(c, ERRORS.FOLLOW_UP_NOT_FOUND);
+      }
+
+      await this.service.remove(followUp);
+      c.set('audit', { entityId: id, before: followUp });
+
+      return serveData(c, {
+        success: true,
+        message: 'Follow up email deleted successfully',
+      });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Starts the current user's follow-ups for someone, e.g. when an integration records a new
+   * lead or an event registration
+   * @param {Context} c - The Hono context containing what happened and to whom
+   * @returns {Promise<Response>} Response containing how many follow-up emails were scheduled
+   * @throws {Error} When scheduling the follow-up emails fails
+   */
+  public triggerFollowUps = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const { trigger, email, name }: FollowUpTriggerBody = await c.req.json();
+      const scheduled = await this.service.trigger(user.id, trigger, { email, name });
+
+      return serve(c, StatusCodes.ACCEPTED, { scheduled });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Stops the current user's follow-ups to someone who has converted
+   * @param {Context} c - The Hono context containing the recipient's address
+   * @returns {Promise<Response>} Response containing how many follow-up emails were cancelled
+   * @throws {Error} When cancelling the follow-up emails fails
+   */
+  public convertRecipient = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const { email }: FollowUpConvertBody = await c.req.json();
+      const cancelled = await this.service.convert(user.id, email);
+
+      return serveData(c, { cancelled });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+}
@@ -1,74 +0,0 @@
-import type { Context } from 'hono';
-
-import { encode } from '../../lib/jwt.js';
-import { logger } from '../../lib/logger.js';
-import type { UserRepository } from '../../repository/user.js';
-import type { GoogleService } from '../../service/google.js';
-import { ERRORS, serveBadRequest, serveNotFound } from './resp/error.ts';
-import { serializeUser } from './serializer/user.js';
-
-export class GoogleController {
-  private googleService: GoogleService;
-
-  private userRepository: UserRepository;
-
-  constructor(googleService: GoogleService, userRepository: UserRepository) {
-    this.googleService = googleService;
-    this.userRepository = userRepository;
-  }
-
-  /**
-   * Initiates Google OAuth authentication flow
-   * @param {Context} c - The Hono context
-   * @returns {Promise<Response>} Response containing Google auth URL
-   * @throws {Error} When auth URL generation fails
-   */
-  public initiateAuth = async (c: Context) => {
-    try {
-      const authUrl = await this.googleService.getAuthUrl();
-      return c.json({
-        success: true,
-        authUrl,
-      });
-    } catch (error) {
-      logger.error('Failed to initiate Google auth:', error);
-      return serveBadRequest(c, ERRORS.AUTH_FAILED);
-    }
-  };
-
-  /**
-   * Handles Google OAuth callback and creates/updates user
-   * @param {Context} c - The Hono context containing authorization code
-   * @returns {Promise<Response>} Response containing JWT token and user data
-   * @throws {Error} When OAuth callback processing fails
-   */
-  public handleCallback = async (c: Context) => {
-    try {
-      const code = c.req.query('code');
-
-      if (!code) {
-        return serveBadRequest(c, ERRORS.NO_AUTHORIZATION_CODE);
-      }
-
-      const user = await this.googleService.handleCallback(code);
-
-      if (!user) {
-        return serveNotFound(c, ERRORS.GOOGLE_AUTH_USER_NOT_FOUND);
-      }
-
-      // Generate JWT using the same encode function as auth controller
-      const token = await encode(user.id, user.email);
-      const serializedUser = await serializeUser(user);
-
-      // Return serialised user
-      return c.json({
-        success: true,
-        token,
-        user: serializedUser,
-      });
-    } catch (error) {
-      logger.error('Google callback failed:', error);
-      return serveBadRequest(c, ERRORS.AUTH_FAILED);
-    }
-  };
-}
@@ -0,0 +1,88 @@
+import type { Context } from 'hono';
+import { StatusCodes } from 'http-status-codes';
+
+import type { JWTPayload } from '../../lib/jwt.js';
+import { logger } from '../../lib/logger.js';
+import { roleOf } from '../../lib/permissions.js';
+import type { ImpersonationService } from '../../service/impersonation.js';
+import type { UserService } from '../../service/user.js';
+import { getRequestMeta } from '../../util/request.js';
+import type { ImpersonateBody } from '../validator/admin.js';
+import {
+  ERRORS,
+  serveBadRequest,
+  serveError,
+  serveInternalServerError,
+  serveNotFound,
+} from './resp/error.js';
+import { serveData } from './resp/resp.js';
+import { serializeUser } from './serializer/user.js';
+
+export class ImpersonationController {
+  private service: ImpersonationService;
+  private userService: UserService;
+
+  constructor(impersonationService: ImpersonationService, userService: UserService) {
+    this.service = impersonationService;
+    this.userService = userService;
+  }
+
+  /**
+   * Issues a time-limited access token that lets the admin act as the given user
+   * @param {Context} c - The Hono context containing the user ID and the reason
+   * @returns {Promise<Response>} Response containing the impersonation token and the user
+   * @throws {Error} When starting the impersonation fails
+   */
+  public start = async (c: Context) => {
+    try {
+      const admin = c.get('user');
+      const id = Number.parseInt(c.req.param('id'));
+      const user = id ? await this.userService.find(id) : undefined;
+      if (!user) {
+        return serveNotFound(c, ERRORS.USER_NOT_FOUND);
+      }
+      // Impersonating another admin would hand out their privileges
+      if (user.id === admin.id || roleOf(user) === 'admin' || user.is_banned || user.is_deleted) {
+        return serveError(c, StatusCodes.FORBIDDEN, ERRORS.CANNOT_IMPERSONATE);
+      }
+
+      const body: ImpersonateBody = await c.req.json();
+      const { token, expiresAt } = await this.service.start(
+        admin,
+        user,
+        body.reason,
+        getRequestMeta(c),
+      );
+
+      return serveData(c, { token, expiresAt, user: await serializeUser(user) });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Ends the impersonation the current access token belongs to
+   * @param {Context} c - The Hono context containing JWT payload
+   * @returns {Promise<Response>} Response indicating the impersonation has ended
+   * @throws {Error} When stopping the impersonation fails
+   */
+  public stop = async (c: Context) => {
+    try {
+      if (!c.get('impersonator')) {
+        return serveBadRequest(c, ERRORS.NOT_IMPERSONATING);
+      }
+
+      const { sid } = c.get('jwtPayload') as JWTPayload;
+      await this.service.stop(sid as number);
+
+      return serveData(c, {
+        success: true,
+        message: 'Impersonation ended successfully',
+      });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+}
@@ -0,0 +1,51 @@
+import type { Context } from 'hono';
+
+import type { DevMailTransport } from '../../lib/mail.js';
+import { ERRORS, serveNotFound } from './resp/error.js';
+import { serveData } from './resp/resp.js';
+
+/**
+ * Shows the messages kept by the dev mail transport, so emails can be followed without
+ * a mail provider
+ */
+export class MailOutboxController {
+  private outbox: DevMailTransport;
+
+  constructor(outbox: DevMailTransport) {
+    this.outbox = outbox;
+  }
+
+  /**
+   * Lists the messages in the outbox, without their bodies
+   * @param {Context} c - The Hono context
+   * @returns {Response} Response containing the messages, newest first
+   */
+  public getMessages = (c: Context) => {
+    const messages = this.outbox.list().map(({ html: _html, text: _text, ...entry }) => entry);
+    return serveData(c, { messages });
+  };
+
+  /**
+   * Shows a message as it would be rendered, or as plain text with `?format=text`
+   * @param {Context} c - The Hono context containing the message ID
+   * @returns {Response} The rendered message
+   */
+  public getMessage = (c: Context) => {
+    const message = this.outbox.find(c.req.param('id'));
+    if (!message) {
+      return serveNotFound(c, ERRORS.MAIL_NOT_FOUND);
+    }
+
+    return c.req.query('format') === 'text' ? c.text(message.text) : c.html(message.html);
+  };
+
+  /**
+   * Empties the outbox
+   * @param {Context} c - The Hono context
+   * @returns {Response} Response indicating the outbox was cleared
+   */
+  public clearMessages = (c: Context) => {
+    this.outbox.clear();
+    return serveData(c, { success: true, message: 'Outbox cleared' });
+  };
+}
@@ -0,0 +1,48 @@
+import type { Context } from 'hono';
+
+import { logger } from '../../lib/logger.js';
+import { renderTemplate } from '../../mail/render.js';
+import { type TemplateName, TEMPLATES } from '../../mail/templates.js';
+import { ERRORS, serveInternalServerError, serveNotFound } from './resp/error.js';
+import { serveData } from './resp/resp.js';
+
+/**
+ * Previews the email templates with their example params
+ */
+export class MailTemplateController {
+  /**
+   * Lists the email templates
+   * @param {Context} c - The Hono context
+   * @returns {Response} Response containing each template's name, description and example params
+   */
+  public getTemplates = (c: Context) => {
+    const templates = Object.entries(TEMPLATES).map(([name, template]) => ({
+      name,
+      description: template.description,
+      example: template.example,
+    }));
+    return serveData(c, { templates });
+  };
+
+  /**
+   * Renders a template with its example params, as HTML or with `?format=text` as plain text
+   * @param {Context} c - The Hono context containing the template name
+   * @returns {Promise<Response>} The rendered template
+   * @throws {Error} When rendering fails
+   */
+  public previewTemplate = async (c: Context) => {
+    try {
+      const name = c.req.param('name');
+      if (!Object.hasOwn(TEMPLATES, name)) {
+        return serveNotFound(c, ERRORS.MAIL_TEMPLATE_NOT_FOUND);
+      }
+
+      const { example } = TEMPLATES[name as TemplateName];
+      const rendered = await renderTemplate(name as TemplateName, example);
+      return c.req.query('format') === 'text' ? c.text(rendered.text) : c.html(rendered.html);
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+}
@@ -0,0 +1,213 @@
+import type { Context } from 'hono';
+import { StatusCodes } from 'http-status-codes';
+
+import { decodeMfaToken } from '../../lib/jwt.js';
+import { logger } from '../../lib/logger.js';
+import type { AccountLockoutService } from '../../service/lockout.js';
+import type { MfaService } from '../../service/mfa.js';
+import type { SessionService } from '../../service/session.js';
+import type { UserService } from '../../service/user.js';
+import { sendTransactionalEmail } from '../../task/email-processor.ts';
+import { getRequestMeta } from '../../util/request.js';
+import type { DisableMfaBody, MfaCodeBody, MfaLoginBody } from '../validator/user.js';
+import {
+  ERRORS,
+  MAIL_CONTENT,
+  serveBadRequest,
+  serveError,
+  serveInternalServerError,
+} from './resp/error.js';
+import { serveData } from './resp/resp.js';
+import { serializeUser } from './serializer/user.js';
+
+export class MfaController {
+  private service: MfaService;
+  private userService: UserService;
+  private sessionService: SessionService;
+  private lockoutService: AccountLockoutService;
+
+  constructor(
+    mfaService: MfaService,
+    userService: UserService,
+    sessionService: SessionService,
+    lockoutService: AccountLockoutService,
+  ) {
+    this.service = mfaService;
+    this.userService = userService;
+    this.sessionService = sessionService;
+    this.lockoutService = lockoutService;
+  }
+
+  /**
+   * Completes a two-factor login by exchanging the pending token and a code for a session
+   * @param {Context} c - The Hono context containing the MFA token and code
+   * @returns {Promise<Response>} Response containing JWT token, refresh token and user data
+   * @throws {Error} When verification fails
+   */
+  public verifyLogin = async (c: Context) => {
+    try {
+      const body: MfaLoginBody = await c.req.json();
+      const mfaToken = await decodeMfaToken(body.mfaToken);
+      if (!mfaToken) {
+        return serveError(c, StatusCodes.UNAUTHORIZED, ERRORS.INVALID_MFA_TOKEN);
+      }
+
+      const user = await this.userService.find(mfaToken.userId);
+      if (!user || user.is_deleted) {
+        return serveError(c, StatusCodes.UNAUTHORIZED, ERRORS.INVALID_MFA_TOKEN);
+      }
+      c.set('audit', { entityId: user.id });
+      // The account may have been banned or locked since the password step
+      if (user.is_banned) {
+        return serveError(c, StatusCodes.FORBIDDEN, ERRORS.ACCOUNT_BANNED);
+      }
+      if (this.lockoutService.isLocked(user)) {
+        return serveError(c, StatusCodes.UNAUTHORIZED, ERRORS.INVALID_MFA_TOKEN);
+      }
+      // A token only gets a few codes, then the password has to be entered again
+      const canAttempt = await this.service.claimCodeAttempt(mfaToken);
+      if (!canAttempt) {
+        return serveError(c, StatusCodes.UNAUTHORIZED, ERRORS.INVALID_MFA_TOKEN);
+      }
+
+      const isValid = await this.service.verify(user, body.code);
+      if (!isValid) {
+        // Wrong codes count towards the same lockout as wrong passwords
+        await this.lockoutService.recordFailure(user);
+        return serveError(c, StatusCodes.UNAUTHORIZED, ERRORS.INVALID_MFA_CODE);
+      }
+      const isFirstUse = await this.service.consumeLoginToken(mfaToken);
+      if (!isFirstUse) {
+        return serveError(c, StatusCodes.UNAUTHORIZED, ERRORS.INVALID_MFA_TOKEN);
+      }
+      await this.lockoutService.recordSuccess(user);
+
+      const { token, refreshToken } = await this.sessionService.create(user, getRequestMeta(c));
+      c.set('audit', { actorId: user.id, entityId: user.id });
+      const serializedUser = await serializeUser(user);
+      return serveData(c, { token, refreshToken, user: serializedUser });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Starts 2FA enrolment and returns the secret for the authenticator app
+   * @param {Context} c - The Hono context containing JWT payload
+   * @returns {Promise<Response>} Response containing the secret and otpauth URI
+   * @throws {Error} When enrolment fails
+   */
+  public setup = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      if (user.auth_provider !== 'local') {
+        return serveBadRequest(c, ERRORS.MFA_LOCAL_ACCOUNTS_ONLY);
+      }
+      if (user.mfa_enabled) {
+        return serveBadRequest(c, ERRORS.MFA_ALREADY_ENABLED);
+      }
+
+      const { secret, otpauthUrl } = await this.service.setup(user);
+      return serveData(c, { secret, otpauthUrl });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Confirms 2FA enrolment with the first code and returns the recovery codes
+   * @param {Context} c - The Hono context containing the TOTP code
+   * @returns {Promise<Response>} Response containing the recovery codes, shown only once
+   * @throws {Error} When enabling fails
+   */
+  public enable = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      if (user.mfa_enabled) {
+        return serveBadRequest(c, ERRORS.MFA_ALREADY_ENABLED);
+      }
+
+      const body: MfaCodeBody = await c.req.json();
+      const recoveryCodes = await this.service.enable(user, body.code);
+      if (!recoveryCodes) {
+        return serveBadRequest(c, ERRORS.INVALID_MFA_CODE);
+      }
+
+      await sendTransactionalEmail(user.email, user.name, 'notice', MAIL_CONTENT.MFA_ENABLED);
+
+      return serveData(c, {
+        success: true,
+        message: 'Two-factor authentication enabled successfully',
+        recoveryCodes,
+      });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Disables 2FA after re-checking the password and a current code
+   * @param {Context} c - The Hono context containing password and code
+   * @returns {Promise<Response>} Response indicating 2FA status
+   * @throws {Error} When disabling fails
+   */
+  public disable = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      if (!user.mfa_enabled) {
+        return serveBadRequest(c, ERRORS.MFA_NOT_ENABLED);
+      }
+
+      const body: DisableMfaBody = await c.req.json();
+      const isPasswordValid = await this.userService.verifyPassword(user, body.password);
+      if (!isPasswordValid) {
+        return serveBadRequest(c, ERRORS.AUTH_INVALID_PASSWORD);
+      }
+      const isCodeValid = await this.service.verify(user, body.code);
+      if (!isCodeValid) {
+        return serveBadRequest(c, ERRORS.INVALID_MFA_CODE);
+      }
+
+      await this.service.disable(user);
+      await sendTransactionalEmail(user.email, user.name, 'notice', MAIL_CONTENT.MFA_DISABLED);
+
+      return serveData(c, {
+        success: true,
+        message: 'Two-factor authentication disabled successfully',
+      });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Replaces the recovery codes after checking a current code
+   * @param {Context} c - The Hono context containing the TOTP code
+   * @returns {Promise<Response>} Response containing the new recovery codes
+   * @throws {Error} When regeneration fails
+   */
+  public regenerateRecoveryCodes = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      if (!user.mfa_enabled) {
+        return serveBadRequest(c, ERRORS.MFA_NOT_ENABLED);
+      }
+
+      const body: MfaCodeBody = await c.req.json();
+      const isCodeValid = await this.service.verify(user, body.code);
+      if (!isCodeValid) {
+        return serveBadRequest(c, ERRORS.INVALID_MFA_CODE);
+      }
+
+      const recoveryCodes = await this.service.regenerateRecoveryCodes(user);
+      return serveData(c, { recoveryCodes });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+}
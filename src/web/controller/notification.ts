@@ -2,7 +2,6 @@ import type { Context } from 'hono';
 
 import { logger } from '../../lib/logger.js';
 import type { NotificationService } from '../../service/notification.js';
-import { UserService } from '../../service/user.js';
 import {
   type CreateNotificationBody,
   type UpdateNotificationBody,
@@ -11,25 +10,11 @@ import { ERRORS, serveBadRequest, serveNotFound } from './resp/error.js';
 
 export class NotificationController {
   private notificationService: NotificationService;
-  private userService: UserService;
 
-  constructor(notificationService: NotificationService, userService: UserService) {
+  constructor(notificationService: NotificationService) {
     this.notificationService = notificationService;
-    this.userService = userService;
   }
 
-  /**
-   * Retrieves user information from JWT payload
-   * @private
-   * @param {Context} c - The Hono context containing JWT payload
-   * @returns {Promise<User|null>} The user object if found, null otherwise
-   */
-  private getUser = async (c: Context) => {
-    const { email } = c.get('jwtPayload');
-    const user = await this.userService.findByEmail(email);
-    return user;
-  };
-
   /**
    * Creates a new notification
    * @param {Context} c - The Hono context containing notification details
@@ -38,10 +23,7 @@ export class NotificationController {
    */
   public createNotification = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
 
       const body: CreateNotificationBody = await c.req.json();
       const { user_id, notification_type, message, link, metadata } = body;
@@ -77,10 +59,7 @@ export class NotificationController {
    */
   public getMyNotifications = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
 
       const [notifications, unreadNotifications, count] = await Promise.all([
         this.notificationService.findByUserId(user.id),
@@ -108,10 +87,7 @@ export class NotificationController {
    */
   public getMyUnreadNotifications = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
 
       const notifications = await this.notificationService.findUnreadByUserId(user.id);
 
@@ -133,10 +109,7 @@ export class NotificationController {
    */
   public getUnreadCount = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
 
       const count = await this.notificationService.getUnreadCount(user.id);
 
@@ -158,10 +131,7 @@ export class NotificationController {
    */
   public getNotification = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
 
       const id = parseInt(c.req.param('id'));
       const notification = await this.notificationService.findById(id);
@@ -193,10 +163,7 @@ export class NotificationController {
    */
   public updateNotification = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
 
       const id = parseInt(c.req.param('id'));
       const body: UpdateNotificationBody = await c.req.json();
@@ -231,10 +198,7 @@ export class NotificationController {
    */
   public markAsRead = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
 
       const id = parseInt(c.req.param('id'));
 
@@ -268,10 +232,7 @@ export class NotificationController {
    */
   public markAllAsRead = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
 
       await this.notificationService.markAllAsRead(user.id);
 
@@ -293,10 +254,7 @@ export class NotificationController {
    */
   public deleteNotification = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
 
       const id = parseInt(c.req.param('id'));
 
@@ -311,6 +269,7 @@ export class NotificationController {
       }
 
       await this.notificationService.delete(id);
+      c.set('audit', { before: existingNotification });
 
       return c.json({
         success: true,
@@ -330,10 +289,7 @@ export class NotificationController {
    */
   public deleteAllNotifications = async (c: Context) => {
     try {
-      const user = await this.getUser(c);
-      if (!user) {
-        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
-      }
+      const user = c.get('user');
 
       await this.notificationService.deleteByUserId(user.id);
 
@@ -0,0 +1,217 @@
+import type { Context } from 'hono';
+import { deleteCookie, getCookie, setCookie } from 'hono/cookie';
+import { StatusCodes } from 'http-status-codes';
+
+import { NODE_ENVIRONMENTS } from '../../lib/constants.js';
+import env from '../../lib/env.js';
+import { encodeMfaToken } from '../../lib/jwt.js';
+import { logger } from '../../lib/logger.js';
+import type { OAuthService } from '../../service/oauth.js';
+import type { SessionService } from '../../service/session.js';
+import { getRequestMeta } from '../../util/request.js';
+import {
+  ERRORS,
+  serveBadRequest,
+  serveError,
+  serveInternalServerError,
+  serveNotFound,
+} from './resp/error.ts';
+import { serveData } from './resp/resp.js';
+import { serializeIdentity } from './serializer/identity.js';
+import { serializeUser } from './serializer/user.js';
+
+const OAUTH_BINDING_COOKIE = 'oauth_binding';
+// Same as the state, 10 minutes to finish signing in at the provider
+const OAUTH_BINDING_TTL = 60 * 10;
+
+export class OAuthController {
+  private oauthService: OAuthService;
+
+  private sessionService: SessionService;
+
+  constructor(oauthService: OAuthService, sessionService: SessionService) {
+    this.oauthService = oauthService;
+    this.sessionService = sessionService;
+  }
+
+  private setBindingCookie(c: Context, binding: string) {
+    setCookie(c, OAUTH_BINDING_COOKIE, binding, {
+      httpOnly: true,
+      secure: env.NODE_ENV === NODE_ENVIRONMENTS.production,
+      sameSite: 'Lax',
+      path: '/',
+      maxAge: OAUTH_BINDING_TTL,
+    });
+  }
+
+  /**
+   * Initiates the OAuth flow for the provider named in the route
+   * @param {Context} c - The Hono context containing the provider name
+   * @returns {Promise<Response>} Response containing the provider's auth URL
+   * @throws {Error} When auth URL generation fails
+   */
+  public initiateAuth = async (c: Context) => {
+    const provider = c.req.param('provider');
+    if (!this.oauthService.isSupported(provider)) {
+      return serveNotFound(c, ERRORS.OAUTH_PROVIDER_NOT_FOUND);
+    }
+
+    try {
+      const { url: authUrl, binding } = await this.oauthService.getAuthUrl(provider);
+      this.setBindingCookie(c, binding);
+      return c.json({
+        success: true,
+        authUrl,
+      });
+    } catch (error) {
+      logger.error(`Failed to initiate ${provider} auth:`, error);
+      return serveBadRequest(c, ERRORS.AUTH_FAILED);
+    }
+  };
+
+  /**
+   * Handles the provider's OAuth callback and creates/updates the user
+   * @param {Context} c - The Hono context containing the authorization code and state
+   * @returns {Promise<Response>} Response containing JWT token and user data
+   * @throws {Error} When OAuth callback processing fails
+   */
+  public handleCallback = async (c: Context) => {
+    const provider = c.req.param('provider');
+    if (!this.oauthService.isSupported(provider)) {
+      return serveNotFound(c, ERRORS.OAUTH_PROVIDER_NOT_FOUND);
+    }
+
+    try {
+      const code = c.req.query('code');
+      const state = c.req.query('state');
+
+      if (!code) {
+        return serveBadRequest(c, ERRORS.NO_AUTHORIZATION_CODE);
+      }
+      // The state ties the callback to an authorization this server started, and the cookie
+      // to the browser that started it
+      const binding = getCookie(c, OAUTH_BINDING_COOKIE);
+      const pending =
+        state && binding ? await this.oauthService.consumeState(provider, state, binding) : null;
+      if (!pending) {
+        return serveBadRequest(c, ERRORS.INVALID_STATE);
+      }
+      deleteCookie(c, OAUTH_BINDING_COOKIE, { path: '/' });
+
+      const result = await this.oauthService.handleCallback(pending, code);
+      if ('error' in result) {
+        return serveError(
+          c,
+          StatusCodes.CONFLICT,
+          result.error === 'link_required' ? ERRORS.OAUTH_LINK_REQUIRED : ERRORS.IDENTITY_IN_USE,
+        );
+      }
+
+      const { user } = result;
+      if (user.is_deleted) {
+        return serveNotFound(c, ERRORS.OAUTH_USER_NOT_FOUND);
+      }
+      if (user.is_banned) {
+        return serveError(c, StatusCodes.FORBIDDEN, ERRORS.ACCOUNT_BANNED);
+      }
+
+      c.set('audit', { actorId: user.id, entityId: user.id });
+      // Linking happens from a signed in session, so there is no new session to start
+      if (result.linked) {
+        return serveData(c, {
+          success: true,
+          message: `${provider} account linked successfully`,
+        });
+      }
+      // A provider account linked to one with 2FA does not replace the second factor
+      if (user.mfa_enabled) {
+        const mfaToken = await encodeMfaToken(user.id);
+        return c.json({ success: true, mfa_required: true, mfaToken });
+      }
+      // Start a session the same way the auth controller does
+      const { token, refreshToken } = await this.sessionService.create(user, getRequestMeta(c));
+      const serializedUser = await serializeUser(user);
+
+      // Return serialised user
+      return c.json({
+        success: true,
+        token,
+        refreshToken,
+        user: serializedUser,
+      });
+    } catch (error) {
+      logger.error(`${provider} callback failed:`, error);
+      return serveBadRequest(c, ERRORS.AUTH_FAILED);
+    }
+  };
+
+  /**
+   * Lists the providers linked to the current user and those that can still be linked
+   * @param {Context} c - The Hono context containing user information
+   * @returns {Promise<Response>} Response containing linked identities and available providers
+   * @throws {Error} When fetching identities fails
+   */
+  public getIdentities = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const identities = await this.oauthService.listIdentities(user.id);
+      return serveData(c, {
+        identities: identities.map(serializeIdentity),
+        providers: this.oauthService.listProviders(),
+      });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Starts linking the provider named in the route to the current user. The provider
+   * redirects back to the usual callback, which adds it to the account.
+   * @param {Context} c - The Hono context containing the provider name
+   * @returns {Promise<Response>} Response containing the provider's auth URL
+   * @throws {Error} When auth URL generation fails
+   */
+  public linkIdentity = async (c: Context) => {
+    const provider = c.req.param('provider');
+    if (!this.oauthService.isSupported(provider)) {
+      return serveNotFound(c, ERRORS.OAUTH_PROVIDER_NOT_FOUND);
+    }
+
+    try {
+      const user = c.get('user');
+      const { url: authUrl, binding } = await this.oauthService.getAuthUrl(provider, user.id);
+      this.setBindingCookie(c, binding);
+      return serveData(c, { success: true, authUrl });
+    } catch (error) {
+      logger.error(`Failed to initiate ${provider} link:`, error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Unlinks the provider named in the route from the current user
+   * @param {Context} c - The Hono context containing the provider name
+   * @returns {Promise<Response>} Response indicating unlink status
+   * @throws {Error} When unlinking fails
+   */
+  public unlinkIdentity = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      const provider = c.req.param('provider');
+      const result = await this.oauthService.unlink(user, provider);
+      if (result === 'not_linked') {
+        return serveNotFound(c, ERRORS.IDENTITY_NOT_FOUND);
+      }
+      if (result === 'last_sign_in_method') {
+        return serveBadRequest(c, ERRORS.CANNOT_UNLINK_LAST_SIGN_IN_METHOD);
+      }
+
+      c.set('audit', { entityId: user.id });
+      return serveData(c, { success: true, message: `${provider} account unlinked successfully` });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+}
@@ -0,0 +1,104 @@
+import type { Context } from 'hono';
+import { StatusCodes } from 'http-status-codes';
+
+import { logger } from '../../lib/logger.js';
+import type { ProfileImageService } from '../../service/profile-image.js';
+import type { UserService } from '../../service/user.js';
+import type { UploadProfileImageBody } from '../validator/user.js';
+import { ERRORS, serveBadRequest, serveError, serveInternalServerError } from './resp/error.js';
+import { serveData } from './resp/resp.js';
+import { serializeUser } from './serializer/user.js';
+
+export class ProfileImageController {
+  private service: ProfileImageService;
+  private userService: UserService;
+
+  constructor(profileImageService: ProfileImageService, userService: UserService) {
+    this.service = profileImageService;
+    this.userService = userService;
+  }
+
+  /**
+   * Uploads a profile picture sent as multipart form data in the `image` field
+   * @param {Context} c - The Hono context containing the form data
+   * @returns {Promise<Response>} Response containing the updated user
+   * @throws {Error} When storing the picture fails
+   */
+  public uploadMultipart = async (c: Context) => {
+    // Read outside the try so a body cut off by the size limit reaches bodyLimit as a 413
+    const { image } = await c.req.parseBody();
+    try {
+      if (!(image instanceof File)) {
+        return serveBadRequest(c, ERRORS.IMAGE_REQUIRED);
+      }
+
+      return await this.upload(c, Buffer.from(await image.arrayBuffer()));
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Uploads a profile picture sent as base64, optionally as a data URL
+   * @param {Context} c - The Hono context containing the encoded image
+   * @returns {Promise<Response>} Response containing the updated user
+   * @throws {Error} When storing the picture fails
+   */
+  public uploadBase64 = async (c: Context) => {
+    try {
+      const body: UploadProfileImageBody = await c.req.json();
+      const encoded = body.imageBase64.replace(/^data:[\w/+.-]+;base64,/, '');
+
+      return await this.upload(c, Buffer.from(encoded, 'base64'));
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Removes the current user's profile picture
+   * @param {Context} c - The Hono context containing user information
+   * @returns {Promise<Response>} Response containing the updated user
+   * @throws {Error} When removing the picture fails
+   */
+  public remove = async (c: Context) => {
+    try {
+      const user = c.get('user');
+      await this.service.remove(user);
+
+      return await this.serveUpdatedUser(c, 'Profile picture removed');
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  private async upload(c: Context, image: Buffer) {
+    const user = c.get('user');
+    const result = await this.service.upload(user, image);
+    if ('error' in result) {
+      return result.error === 'too_large'
+        ? serveError(c, StatusCodes.REQUEST_TOO_LONG, ERRORS.IMAGE_TOO_LARGE)
+        : serveError(c, StatusCodes.UNSUPPORTED_MEDIA_TYPE, ERRORS.INVALID_IMAGE);
+    }
+
+    return this.serveUpdatedUser(c, 'Profile picture updated');
+  }
+
+  private async serveUpdatedUser(c: Context, message: string) {
+    const user = c.get('user');
+    const updatedUser = await this.userService.find(user.id);
+    if (!updatedUser) {
+      return serveInternalServerError(c, new Error(ERRORS.USER_NOT_FOUND));
+    }
+    c.set('audit', {
+      entityId: user.id,
+      before: { profile_picture: user.profile_picture },
+      after: { profile_picture: updatedUser.profile_picture },
+    });
+
+    return serveData(c, { success: true, message, user: await serializeUser(updatedUser) });
+  }
+}
@@ -32,6 +32,11 @@ const serveInternalServerError = (c: Context, error: any) => {
   return c.json({ error: error }, <ContentfulStatusCode>StatusCodes.INTERNAL_SERVER_ERROR);
 };
 
+const serveTooManyRequests = (c: Context, message: string, retryAfter: number) => {
+  c.header('Retry-After', String(retryAfter));
+  return c.json({ error: message }, <ContentfulStatusCode>StatusCodes.TOO_MANY_REQUESTS);
+};
+
 const serveError = (c: Context, status: StatusCodes, message: string) => {
   return c.json({ error: message }, <ContentfulStatusCode>status);
 };
@@ -45,6 +50,10 @@ const ERRORS = {
   INVALID_PHONE_NUMBER:
     'Invalid phone number format. Must include country code (e.g., +1, +44, +81)',
   INVALID_REQUEST: 'Invalid request. Both imageBase64 and fileName are required',
+  IMAGE_REQUIRED: 'Please attach an image in the image field',
+  FILE_REQUIRED: 'Please attach the file in the file field',
+  INVALID_IMAGE: 'Please upload a JPEG, PNG, GIF or WebP image',
+  IMAGE_TOO_LARGE: 'Images can be at most 5 MB, please upload a smaller one',
   EVENT_ID_REQUIRED: 'Event ID is required',
   COURSE_NOT_FOUND: 'We could not find this course, please check the course id',
   ADMINS_NOT_ALLOWED: 'Administrators are not allowed to perform this action.',
@@ -102,15 +111,69 @@ const ERRORS = {
   BOOKING_NOT_FOUND: 'Booking not found',
   NOTIFICATION_FAILED: 'Failed to create notification',
   NOTIFICATION_NOT_FOUND: 'Notification not found',
-  GOOGLE_AUTH_USER_NOT_FOUND: 'Google authentication failed, user not found',
+  OAUTH_USER_NOT_FOUND: 'Authentication with the provider failed, user not found',
+  OAUTH_PROVIDER_NOT_FOUND: 'This sign in provider is not supported',
+  OAUTH_LINK_REQUIRED:
+    'An account with this email already exists. Sign in with your password and link this provider from your account settings',
+  IDENTITY_IN_USE: 'This provider account is already linked to another account',
+  IDENTITY_NOT_FOUND: 'This provider is not linked to your account',
+  CANNOT_UNLINK_LAST_SIGN_IN_METHOD:
+    'This provider is the only way to sign in to your account, link another one before unlinking it',
   AUTH_FAILED: 'Authentication failed',
   NO_AUTHORIZATION_CODE: 'No authorization code provided',
   USER_EXISTS: 'User already exists',
   USER_NOT_FOUND: 'We cannot find the user you are looking for',
   INVALID_TOKEN: 'Ops, your code is invalid, please try again',
+  INVALID_CREDENTIALS: 'Invalid email or password, please try again',
+  INVALID_MAGIC_LINK: 'This sign in link is invalid or has expired, please request a new one',
+  MAGIC_LINK_OTHER_BROWSER:
+    'This sign in link only works in the browser it was requested from, please open it there',
+  INVALID_UNLOCK_LINK: 'This unlock link is invalid or has expired',
+  NO_PENDING_EMAIL_CHANGE: 'There is no email change waiting to be confirmed',
+  INVALID_EMAIL_CHANGE_LINK: 'This link is invalid or has expired',
+  INVALID_PASSWORD: 'Ops, your password is invalid, please check and try again',
+  INVALID_RESTORE_LINK: 'This restore link is invalid or has expired',
+  MAIL_NOT_FOUND: 'This message is no longer in the outbox',
+  MAIL_TEMPLATE_NOT_FOUND: 'There is no email template with this name',
+  WEBHOOK_PROVIDER_NOT_FOUND: 'There is no webhook for this provider',
+  INVALID_WEBHOOK_SIGNATURE: 'The webhook signature is missing or invalid',
+  INVALID_WEBHOOK_PAYLOAD: 'The webhook payload is not valid JSON',
+  SUPPRESSION_NOT_FOUND: 'We could not find this address in your suppression list',
+  INVALID_UNSUBSCRIBE_LINK: 'This unsubscribe link is invalid',
+  CAMPAIGN_NOT_FOUND: 'We could not find this campaign, please check the campaign id',
+  CAMPAIGN_AUDIENCE_EMPTY: 'There is nobody to send this campaign to, please check the recipients',
+  CAMPAIGN_AUDIENCE_UNSUPPORTED:
+    'Campaigns cannot be sent to this type of audience yet, please pick the recipients by name',
+  CAMPAIGN_ALREADY_FINISHED:
+    'Every email of this campaign has already been sent, or it was cancelled',
+  FOLLOW_UP_NOT_FOUND: 'We could not find this follow up email, please check the id',
+  EXPORT_NOT_FOUND: 'This download link is invalid or has expired, please request a new export',
+  ACCOUNT_BANNED: 'Your account has been suspended, please contact support',
+  CANNOT_MODIFY_SELF: 'You cannot change the role or status of your own account',
+  API_KEY_NOT_FOUND: 'We could not find this API key, please check the key id',
+  API_KEY_SCOPE_MISSING: 'This API key does not have the scope needed for this action',
+  NOT_ALLOWED_WITH_API_KEY:
+    'This action needs a signed in session, it cannot be done with an API key',
+  TOO_MANY_API_KEYS:
+    'You have reached the maximum number of API keys, revoke one to create another',
+  NOT_ALLOWED_WHILE_IMPERSONATING: 'This action is not allowed while impersonating a user',
+  CANNOT_IMPERSONATE: 'You cannot impersonate yourself, another admin or an inactive account',
+  NOT_IMPERSONATING: 'You are not impersonating anyone',
+  LOCAL_ACCOUNTS_ONLY: 'This action is only available for accounts that sign in with a password',
+  TOO_MANY_REQUESTS: 'Too many requests, please slow down and try again later',
+  CODE_RECENTLY_SENT:
+    'We have just sent you a code, please wait a moment before requesting another',
   LEAD_NOT_FOUND: 'Ops, this lead does not exist, please check',
   EVENT_NOT_FOUND: 'Ops, this event does not exist, please check',
   ASSET_NOT_FOUND: 'Ops, we could not find the associated asset for this event',
+  ASSET_NOT_IN_LIBRARY: 'We could not find this asset, please check the asset id',
+  ASSET_TYPE_NOT_ALLOWED: 'This file type cannot be uploaded as this kind of asset',
+  ASSET_TOO_LARGE: 'This file is larger than allowed for this kind of asset',
+  ASSET_QUOTA_EXCEEDED: 'You have run out of storage space, delete some assets to upload more',
+  ASSET_NOT_UPLOADED: 'The file has not been uploaded yet, please upload it and try again',
+  ASSET_ALREADY_UPLOADED: 'This asset has already been uploaded',
+  INVALID_UPLOAD_SIGNATURE: 'This upload or download link is invalid or has expired',
+  UPLOAD_CONTENT_TYPE_MISMATCH: 'The file is not of the type this upload was signed for',
   NOT_ALLOWED: 'Ops, you are not allowed to do this action.',
   EVENT_HAS_LEADS_CONNECTED:
     'This event has active leads connected. Please cancel the event first then try again.',
@@ -123,6 +186,14 @@ const ERRORS = {
   ASSET_LINKED_TO_EVENT:
     'This asset has active leads tied to an event. Please cancel the event first then try again.',
   INVALID_DATE: 'Invalid date provided',
+  INVALID_REFRESH_TOKEN: 'Your session has expired, please log in again',
+  MFA_ALREADY_ENABLED: 'Two-factor authentication is already enabled on your account',
+  MFA_NOT_ENABLED: 'Two-factor authentication is not enabled on your account',
+  MFA_LOCAL_ACCOUNTS_ONLY:
+    'Two-factor authentication is only available for accounts that sign in with a password',
+  INVALID_MFA_CODE: 'Ops, your two-factor code is invalid, please try again',
+  INVALID_MFA_TOKEN: 'Your login attempt has expired, please sign in again',
+  SESSION_NOT_FOUND: 'We could not find this session, it may have already been signed out',
   MODULE_NOT_FOUND: 'Ops, this module does not exist, please check',
 } as const;
 
@@ -135,6 +206,22 @@ const MAIL_CONTENT = {
     buttonText: 'Ok, got it',
     buttonLink: `${env.FRONTEND_URL}`,
   },
+  MFA_ENABLED: {
+    subject: 'Two-factor authentication enabled',
+    title: 'Two-factor authentication enabled',
+    subtitle: 'Your account is now protected by a second factor',
+    body: 'Two-factor authentication has been enabled on your account. You will be asked for a code from your authenticator app when you sign in. If this was not you, please contact support immediately.',
+    buttonText: 'Ok, got it',
+    buttonLink: `${env.FRONTEND_URL}`,
+  },
+  MFA_DISABLED: {
+    subject: 'Two-factor authentication disabled',
+    title: 'Two-factor authentication disabled',
+    subtitle: 'Your account no longer requires a second factor',
+    body: 'Two-factor authentication has been disabled on your account. If this was not you, please reset your password and contact support immediately.',
+    buttonText: 'Ok, got it',
+    buttonLink: `${env.FRONTEND_URL}`,
+  },
   SUBSCRIPTION_CANCELLED: {
     subject: 'Your subscription has been cancelled',
     title: 'Subscription Cancelled',
@@ -190,6 +277,7 @@ export {
   serveError,
   serveInternalServerError,
   serveNotFound,
+  serveTooManyRequests,
   serveUnauthorized,
   serveUnprocessableEntity,
 };
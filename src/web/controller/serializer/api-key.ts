@@ -0,0 +1,23 @@
+import type { ApiKey } from '../../../schema/schema.js';
+
+type ApiKeyResponse = {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  last_used_at: Date | null;
+  expires_at: Date | null;
+  created_at: Date | null;
+};
+
+export function serializeApiKey(apiKey: ApiKey): ApiKeyResponse {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    last_used_at: apiKey.last_used_at,
+    expires_at: apiKey.expires_at,
+    created_at: apiKey.created_at,
+  };
+}
@@ -0,0 +1,27 @@
+import type { Asset } from '../../../schema/schema.js';
+
+type AssetResponse = {
+  id: number;
+  name: string;
+  url: string | null;
+  type: Asset['asset_type'];
+  content_type: string;
+  size: number;
+  duration: number | null;
+  status: Asset['status'];
+  createdAt: Date | null;
+};
+
+export function serializeAsset(asset: Asset, url: string | null = null): AssetResponse {
+  return {
+    id: asset.id,
+    name: asset.name,
+    url,
+    type: asset.asset_type,
+    content_type: asset.content_type,
+    size: asset.size,
+    duration: asset.duration,
+    status: asset.status,
+    createdAt: asset.created_at,
+  };
+}
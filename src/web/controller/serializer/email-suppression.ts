@@ -0,0 +1,24 @@
+import type { EmailSuppression } from '../../../schema/schema.js';
+
+type EmailSuppressionResponse = {
+  id: number;
+  email: string;
+  reason: EmailSuppression['reason'];
+  scope: EmailSuppression['scope'];
+  note: string | null;
+  // Suppressions for all mail come from bounces and complaints, and cannot be changed by hosts
+  editable: boolean;
+  createdAt: Date | null;
+};
+
+export function serializeEmailSuppression(suppression: EmailSuppression): EmailSuppressionResponse {
+  return {
+    id: suppression.id,
+    email: suppression.email,
+    reason: suppression.reason,
+    scope: suppression.scope,
+    note: suppression.note,
+    editable: suppression.host_id !== null,
+    createdAt: suppression.created_at,
+  };
+}
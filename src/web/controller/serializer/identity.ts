@@ -0,0 +1,17 @@
+import type { Identity } from '../../../schema/schema.js';
+
+type IdentityResponse = {
+  provider: string;
+  email: string | null;
+  created_at: Date | null;
+  last_used_at: Date | null;
+};
+
+export function serializeIdentity(identity: Identity): IdentityResponse {
+  return {
+    provider: identity.provider,
+    email: identity.email,
+    created_at: identity.created_at,
+    last_used_at: identity.last_used_at,
+  };
+}
@@ -0,0 +1,25 @@
+import type { Session } from '../../../schema/schema.js';
+
+type SessionResponse = {
+  id: number;
+  device: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  last_used_at: Date | null;
+  created_at: Date | null;
+  current: boolean;
+  impersonated: boolean;
+};
+
+export function serializeSession(session: Session, currentSessionId?: number): SessionResponse {
+  return {
+    id: session.id,
+    device: session.device,
+    ip_address: session.ip_address,
+    user_agent: session.user_agent,
+    last_used_at: session.last_used_at,
+    created_at: session.created_at,
+    current: session.id === currentSessionId,
+    impersonated: session.impersonator_id !== null,
+  };
+}
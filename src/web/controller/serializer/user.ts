@@ -3,31 +3,39 @@ import type { User } from '../../../schema/schema.js';
 type UserResponse = {
   id: number;
   email: string;
+  pending_email: string | null;
   name: string;
   createdAt: Date | null;
   is_verified: boolean | null;
   role: string | null;
   phone: string | null;
   profile_picture: string | null;
+  profile_picture_sizes: Record<string, string> | null;
   bio: string | null;
   is_banned: boolean | null;
   is_deleted: boolean | null;
-  auth_provider: 'local' | 'google';
+  deletion_scheduled_at: Date | null;
+  auth_provider: NonNullable<User['auth_provider']>;
+  mfa_enabled: boolean | null;
 };
 
 export async function serializeUser(user: User): Promise<UserResponse> {
   return {
     id: user.id,
     email: user.email,
+    pending_email: user.pending_email,
     name: user.name,
     createdAt: user.createdAt,
     is_verified: user.is_verified,
     role: user.role,
     phone: user.phone,
     profile_picture: user.profile_picture,
+    profile_picture_sizes: user.profile_picture_sizes,
     bio: user.bio,
     is_banned: user.is_banned,
     is_deleted: user.is_deleted,
+    deletion_scheduled_at: user.deletion_scheduled_at,
     auth_provider: user.auth_provider ?? 'local',
+    mfa_enabled: user.mfa_enabled,
   };
 }
@@ -0,0 +1,108 @@
+import type { Context } from 'hono';
+import { StatusCodes } from 'http-status-codes';
+
+import type { JWTPayload } from '../../lib/jwt.js';
+import { logger } from '../../lib/logger.js';
+import type { SessionService } from '../../service/session.js';
+import { getRequestMeta } from '../../util/request.js';
+import type { RefreshTokenBody } from '../validator/user.js';
+import { ERRORS, serveError, serveInternalServerError, serveNotFound } from './resp/error.js';
+import { serveData } from './resp/resp.js';
+import { serializeSession } from './serializer/session.js';
+
+export class SessionController {
+  private service: SessionService;
+
+  constructor(sessionService: SessionService) {
+    this.service = sessionService;
+  }
+
+  /**
+   * Exchanges a refresh token for a new access and refresh token pair
+   * @param {Context} c - The Hono context containing the refresh token
+   * @returns {Promise<Response>} Response containing the new tokens
+   * @throws {Error} When the token refresh fails
+   */
+  public refresh = async (c: Context) => {
+    try {
+      const body: RefreshTokenBody = await c.req.json();
+      const tokens = await this.service.refresh(body.refreshToken, getRequestMeta(c));
+      if (!tokens) {
+        return serveError(c, StatusCodes.UNAUTHORIZED, ERRORS.INVALID_REFRESH_TOKEN);
+      }
+
+      return serveData(c, { token: tokens.token, refreshToken: tokens.refreshToken });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Signs out the session the current access token belongs to
+   * @param {Context} c - The Hono context containing JWT payload
+   * @returns {Promise<Response>} Response indicating logout status
+   * @throws {Error} When session revocation fails
+   */
+  public logout = async (c: Context) => {
+    try {
+      const { sid } = c.get('jwtPayload') as JWTPayload;
+      await this.service.revoke(sid as number);
+
+      return serveData(c, {
+        success: true,
+        message: 'Logged out successfully',
+      });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Lists the active sessions of the current user
+   * @param {Context} c - The Hono context containing JWT payload
+   * @returns {Promise<Response>} Response containing the sessions, with the current one flagged
+   * @throws {Error} When fetching sessions fails
+   */
+  public getSessions = async (c: Context) => {
+    try {
+      const { sub, sid } = c.get('jwtPayload') as JWTPayload;
+      const sessions = await this.service.findActiveByUserId(sub as number);
+
+      return serveData(c, {
+        sessions: sessions.map((session) => serializeSession(session, sid as number)),
+      });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Revokes one of the current user's sessions, signing that device out
+   * @param {Context} c - The Hono context containing the session ID
+   * @returns {Promise<Response>} Response indicating revocation status
+   * @throws {Error} When session revocation fails
+   */
+  public revokeSession = async (c: Context) => {
+    try {
+      const { sub } = c.get('jwtPayload') as JWTPayload;
+      const id = parseInt(c.req.param('id'));
+      const session = await this.service.find(id);
+      if (!session || session.user_id !== sub || session.revoked_at) {
+        return serveNotFound(c, ERRORS.SESSION_NOT_FOUND);
+      }
+
+      await this.service.revoke(session.id);
+
+      return serveData(c, {
+        success: true,
+        message: 'Session revoked successfully',
+      });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+}
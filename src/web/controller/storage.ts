@@ -0,0 +1,125 @@
+import fs from 'fs';
+import type { Context } from 'hono';
+import { getMimeType } from 'hono/utils/mime';
+import { StatusCodes } from 'http-status-codes';
+import { Readable } from 'stream';
+
+import { logger } from '../../lib/logger.js';
+import type { LocalStorageDriver } from '../../lib/storage.js';
+import {
+  ERRORS,
+  serveBadRequest,
+  serveError,
+  serveInternalServerError,
+  serveNotFound,
+} from './resp/error.js';
+
+/**
+ * Accepts the uploads and downloads presigned by the local storage driver, and serves its
+ * public files, standing in for S3 so the direct upload flow works in development without
+ * a bucket
+ */
+export class StorageController {
+  private storage: LocalStorageDriver;
+
+  constructor(storage: LocalStorageDriver) {
+    this.storage = storage;
+  }
+
+  /**
+   * Stores a file posted as a multipart form with the fields of a presigned upload
+   * @param {Context} c - The Hono context containing the form fields and the file
+   * @returns {Promise<Response>} An empty response, as S3 sends
+   * @throws {Error} When storing the file fails
+   */
+  public upload = async (c: Context) => {
+    // Read outside the try so a body cut off by the size limit reaches bodyLimit as a 413
+    const { file, ...fields } = await c.req.parseBody();
+    try {
+      const upload = this.storage.verifyUpload(
+        Object.fromEntries(
+          Object.entries(fields).filter((entry): entry is [string, string] => {
+            return typeof entry[1] === 'string';
+          }),
+        ),
+      );
+      if (!upload) {
+        return serveError(c, StatusCodes.FORBIDDEN, ERRORS.INVALID_UPLOAD_SIGNATURE);
+      }
+      if (!(file instanceof File)) {
+        return serveBadRequest(c, ERRORS.FILE_REQUIRED);
+      }
+      if (file.size > upload.maxSize) {
+        return serveError(c, StatusCodes.REQUEST_TOO_LONG, ERRORS.ASSET_TOO_LARGE);
+      }
+      // S3 checks the type against the policy the same way
+      if (file.type !== upload.contentType) {
+        return serveError(c, StatusCodes.FORBIDDEN, ERRORS.UPLOAD_CONTENT_TYPE_MISMATCH);
+      }
+
+      await this.storage.put(upload.key, Buffer.from(await file.arrayBuffer()));
+      return c.body(null, StatusCodes.NO_CONTENT);
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Sends a public file, such as a profile picture, from the URL returned when it was stored
+   * @param {Context} c - The Hono context containing the key and its signature
+   * @returns {Promise<Response>} The file, cacheable as it never changes under its key
+   * @throws {Error} When reading the file fails
+   */
+  public serve = async (c: Context) => {
+    try {
+      const key = c.req.param('key');
+      if (!this.storage.verifyPublic(key, c.req.query('signature'))) {
+        return serveNotFound(c, ERRORS.ASSET_NOT_UPLOADED);
+      }
+      const stored = await this.storage.stat(key);
+      if (!stored) {
+        return serveNotFound(c, ERRORS.ASSET_NOT_UPLOADED);
+      }
+
+      c.header('Content-Type', getMimeType(key) ?? 'application/octet-stream');
+      c.header('Content-Length', String(stored.size));
+      c.header('Cache-Control', 'public, max-age=31536000, immutable');
+      c.header('X-Content-Type-Options', 'nosniff');
+      const file = this.storage.resolve(key);
+      return c.body(Readable.toWeb(fs.createReadStream(file)) as ReadableStream);
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+
+  /**
+   * Sends a file for a presigned download URL
+   * @param {Context} c - The Hono context containing the signed query
+   * @returns {Promise<Response>} The file as an attachment
+   * @throws {Error} When reading the file fails
+   */
+  public download = async (c: Context) => {
+    try {
+      const download = this.storage.verifyDownload(c.req.query());
+      if (!download) {
+        return serveError(c, StatusCodes.FORBIDDEN, ERRORS.INVALID_UPLOAD_SIGNATURE);
+      }
+      const stored = await this.storage.stat(download.key);
+      if (!stored) {
+        return serveNotFound(c, ERRORS.ASSET_NOT_UPLOADED);
+      }
+
+      c.header('Content-Type', 'application/octet-stream');
+      c.header('Content-Length', String(stored.size));
+      c.header('Content-Disposition', download.contentDisposition);
+      c.header('Cache-Control', 'private, no-store');
+      const file = this.storage.resolve(download.key);
+      return c.body(Readable.toWeb(fs.createReadStream(file)) as ReadableStream);
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+}
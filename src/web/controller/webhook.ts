@@ -0,0 +1,57 @@
+import type { Context } from 'hono';
+import { StatusCodes } from 'http-status-codes';
+
+import { logger } from '../../lib/logger.js';
+import { getMailWebhookProvider } from '../../lib/mail-webhooks.js';
+import type { EmailEventService } from '../../service/email-event.js';
+import {
+  ERRORS,
+  serveBadRequest,
+  serveError,
+  serveInternalServerError,
+  serveNotFound,
+} from './resp/error.js';
+import { serveData } from './resp/resp.js';
+
+export class WebhookController {
+  private emailEventService: EmailEventService;
+
+  constructor(emailEventService: EmailEventService) {
+    this.emailEventService = emailEventService;
+  }
+
+  /**
+   * Receives delivery events from a mail provider, e.g. bounces, complaints and opens
+   * @param {Context} c - The Hono context containing the provider name and its payload
+   * @returns {Promise<Response>} Response with how many events were received and recorded
+   * @throws {Error} When recording the events fails, so the provider sends them again
+   */
+  public receiveMailEvents = async (c: Context) => {
+    try {
+      const name = c.req.param('provider');
+      const provider = getMailWebhookProvider(name);
+      if (!provider) {
+        return serveNotFound(c, ERRORS.WEBHOOK_PROVIDER_NOT_FOUND);
+      }
+      // Signatures are over the exact bytes that were sent
+      const rawBody = await c.req.text();
+      if (!provider.verify({ headers: c.req.header(), rawBody })) {
+        return serveError(c, StatusCodes.UNAUTHORIZED, ERRORS.INVALID_WEBHOOK_SIGNATURE);
+      }
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(rawBody);
+      } catch {
+        return serveBadRequest(c, ERRORS.INVALID_WEBHOOK_PAYLOAD);
+      }
+      const events = provider.parse(payload);
+      const recorded = await this.emailEventService.record(name, events);
+
+      return serveData(c, { received: events.length, recorded });
+    } catch (err) {
+      logger.error(err);
+      return serveInternalServerError(c, err);
+    }
+  };
+}
@@ -0,0 +1,57 @@
+import { createMiddleware } from 'hono/factory';
+
+import { TRACING } from '../../lib/constants.ts';
+import type { AuditService } from '../../service/audit.ts';
+import { getRequestMeta } from '../../util/request.ts';
+
+type AuditDetails = {
+  actorId?: number;
+  entityId?: number | string;
+  before?: object;
+  after?: object;
+};
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    audit: AuditDetails | undefined;
+  }
+}
+
+/**
+ * Creates a factory for route middlewares that write an audit log entry once the handler
+ * has run. Successful requests are recorded, as are 401 and 403 responses so refused
+ * attempts show up too. Handlers can fill in what the request alone cannot tell, such as
+ * the actor of a login or the before/after state of an update, with `c.set('audit', ...)`.
+ * @param {AuditService} auditService - Service used to write the entries
+ * @returns {(action: string, entityType?: string) => MiddlewareHandler} The middleware factory
+ */
+export const auditTrail = (auditService: AuditService) => {
+  return (action: string, entityType?: string) => {
+    return createMiddleware(async (c, next) => {
+      await next();
+
+      const { status } = c.res;
+      if (status >= 400 && status !== 401 && status !== 403) {
+        return;
+      }
+
+      const details = c.get('audit');
+      const entityId = details?.entityId ?? c.req.param('id');
+      const meta = getRequestMeta(c);
+      await auditService.record({
+        actor_id: details?.actorId ?? c.get('user')?.id ?? null,
+        impersonator_id: c.get('impersonator')?.id ?? null,
+        action,
+        entity_type: entityType ?? null,
+        entity_id: entityId !== undefined ? String(entityId) : null,
+        status,
+        changes: auditService.diff(details?.before, details?.after) ?? null,
+        ip_address: meta.ip,
+        user_agent: meta.userAgent,
+        trace_id: c.get(TRACING) ?? null,
+      });
+    });
+  };
+};
+
+export type Auditor = ReturnType<typeof auditTrail>;
@@ -0,0 +1,199 @@
+import type { MiddlewareHandler } from 'hono';
+import { every } from 'hono/combine';
+import { createMiddleware } from 'hono/factory';
+import { jwt } from 'hono/jwt';
+import { StatusCodes } from 'http-status-codes';
+
+import env from '../../lib/env.ts';
+import type { JWTPayload } from '../../lib/jwt.ts';
+import { hasPermission, type Permission, type Role, roleOf } from '../../lib/permissions.ts';
+import type { ApiKey, User } from '../../schema/schema.ts';
+import type { ApiKeyService } from '../../service/api-key.ts';
+import type { SessionService } from '../../service/session.ts';
+import type { UserService } from '../../service/user.ts';
+import { ERRORS, serveError, serveUnauthorized } from '../controller/resp/error.ts';
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    user: User;
+    impersonator: User | undefined;
+    apiKey: ApiKey | undefined;
+  }
+}
+
+const API_KEY_SCHEME = /^ApiKey\s+(\S+)$/i;
+
+/**
+ * Verifies the bearer JWT, rejects tokens whose session has been revoked or has expired,
+ * and loads the user onto the context as `user`, plus the admin as `impersonator` when the
+ * token was issued for impersonation. Banned and deleted users are rejected
+ * on every request, so their existing tokens stop working straight away.
+ * @param {SessionService} sessionService - Service used to look up the token's session
+ * @param {UserService} userService - Service used to load the token's user
+ * @returns {MiddlewareHandler} The combined authentication middleware
+ */
+export const authenticate = (sessionService: SessionService, userService: UserService) => {
+  const sessionCheck = createMiddleware(async (c, next) => {
+    const payload: JWTPayload = c.get('jwtPayload');
+    const { sid, sub } = payload;
+    if (typeof sid !== 'number' || typeof sub !== 'number') {
+      return serveUnauthorized(c);
+    }
+
+    const isActive = await sessionService.isActive(sid, sub);
+    if (!isActive) {
+      return serveUnauthorized(c);
+    }
+
+    const user = await userService.find(sub);
+    if (!user || user.is_deleted) {
+      return serveUnauthorized(c);
+    }
+    if (user.is_banned) {
+      return serveError(c, StatusCodes.FORBIDDEN, ERRORS.ACCOUNT_BANNED);
+    }
+
+    // Impersonation ends as soon as the admin loses access themselves
+    let impersonator: User | undefined;
+    if (payload.impersonator !== undefined) {
+      impersonator = await userService.find(Number(payload.impersonator));
+      if (
+        !impersonator ||
+        impersonator.is_banned ||
+        impersonator.is_deleted ||
+        roleOf(impersonator) !== 'admin'
+      ) {
+        return serveUnauthorized(c);
+      }
+    }
+
+    c.set('user', user);
+    c.set('impersonator', impersonator);
+    await next();
+  });
+
+  return every(jwt({ secret: env.SECRET_KEY }), sessionCheck);
+};
+
+/**
+ * Authenticates a request made with an `Authorization: ApiKey <key>` header, loading the
+ * key's owner onto the context as `user` and the key itself as `apiKey`. The same ban and
+ * deletion checks apply as for tokens.
+ * @param {ApiKeyService} apiKeyService - Service used to look up the key
+ * @param {UserService} userService - Service used to load the key's user
+ * @returns {MiddlewareHandler} The API key authentication middleware
+ */
+export const authenticateApiKey = (apiKeyService: ApiKeyService, userService: UserService) => {
+  return createMiddleware(async (c, next) => {
+    const [, key] = c.req.header('Authorization')?.match(API_KEY_SCHEME) ?? [];
+    const apiKey = key ? await apiKeyService.authenticate(key) : null;
+    if (!apiKey) {
+      return serveUnauthorized(c);
+    }
+
+    const user = await userService.find(apiKey.user_id);
+    if (!user || user.is_deleted) {
+      return serveUnauthorized(c);
+    }
+    if (user.is_banned) {
+      return serveError(c, StatusCodes.FORBIDDEN, ERRORS.ACCOUNT_BANNED);
+    }
+
+    c.set('user', user);
+    c.set('impersonator', undefined);
+    c.set('apiKey', apiKey);
+    await next();
+  });
+};
+
+/**
+ * Lets a route group accept API keys as well as tokens, choosing the check by the scheme
+ * of the Authorization header. Routes using it should guard each route with
+ * `requirePermission`, which also limits keys to their scopes.
+ * @param {MiddlewareHandler} apiKeyCheck - The middleware from `authenticateApiKey`
+ * @param {MiddlewareHandler} authCheck - The middleware from `authenticate`
+ * @returns {MiddlewareHandler} The combined authentication middleware
+ */
+export const allowApiKeys = (apiKeyCheck: MiddlewareHandler, authCheck: MiddlewareHandler) => {
+  return createMiddleware(async (c, next) => {
+    if (c.req.header('Authorization')?.match(/^ApiKey\s/i)) {
+      return apiKeyCheck(c, next);
+    }
+    return authCheck(c, next);
+  });
+};
+
+/**
+ * Allows the request through only when the authenticated user has one of the given roles.
+ * Must run after `authenticate`.
+ * @param {...Role} roles - The roles allowed to access the route
+ * @returns {MiddlewareHandler} The role check middleware
+ */
+export const requireRole = (...roles: Role[]) => {
+  return createMiddleware(async (c, next) => {
+    const user = c.get('user');
+    if (!user) {
+      return serveUnauthorized(c);
+    }
+    if (!roles.includes(roleOf(user))) {
+      return serveError(c, StatusCodes.FORBIDDEN, ERRORS.NOT_ALLOWED);
+    }
+
+    await next();
+  });
+};
+
+/**
+ * Allows the request through only when the authenticated user's role grants every given
+ * permission, and for API keys only when the key's scopes include them too. Must run
+ * after `authenticate`.
+ * @param {...Permission} permissions - The permissions required by the route
+ * @returns {MiddlewareHandler} The permission check middleware
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return createMiddleware(async (c, next) => {
+    const user = c.get('user');
+    if (!user) {
+      return serveUnauthorized(c);
+    }
+    if (!permissions.every((permission) => hasPermission(user, permission))) {
+      return serveError(c, StatusCodes.FORBIDDEN, ERRORS.NOT_ALLOWED);
+    }
+    const apiKey = c.get('apiKey');
+    if (apiKey && !permissions.every((permission) => apiKey.scopes.includes(permission))) {
+      return serveError(c, StatusCodes.FORBIDDEN, ERRORS.API_KEY_SCOPE_MISSING);
+    }
+
+    await next();
+  });
+};
+
+/**
+ * Refuses the request while an admin is impersonating the user, for actions that would
+ * change how the account is secured. Must run after `authenticate`.
+ * @returns {MiddlewareHandler} The impersonation check middleware
+ */
+export const forbidImpersonation = () => {
+  return createMiddleware(async (c, next) => {
+    if (c.get('impersonator')) {
+      return serveError(c, StatusCodes.FORBIDDEN, ERRORS.NOT_ALLOWED_WHILE_IMPERSONATING);
+    }
+
+    await next();
+  });
+};
+
+/**
+ * Refuses requests made with an API key, for actions only a signed in person may take.
+ * Must run after `allowApiKeys`.
+ * @returns {MiddlewareHandler} The API key check middleware
+ */
+export const forbidApiKeys = () => {
+  return createMiddleware(async (c, next) => {
+    if (c.get('apiKey')) {
+      return serveError(c, StatusCodes.FORBIDDEN, ERRORS.NOT_ALLOWED_WITH_API_KEY);
+    }
+
+    await next();
+  });
+};
@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+import type { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+
+import { logger } from '../../lib/logger.ts';
+import { connection } from '../../lib/queue.ts';
+import { getClientIp } from '../../util/request.ts';
+import { ERRORS, serveTooManyRequests } from '../controller/resp/error.ts';
+
+type RateLimitKey = 'ip' | 'user' | { body: string };
+
+type RateLimitPolicy = {
+  name: string;
+  limit: number;
+  windowMs: number;
+  key: RateLimitKey;
+};
+
+const MINUTE = 60 * 1000;
+
+const RATE_LIMIT_POLICIES = {
+  loginByIp: { name: 'login-ip', limit: 20, windowMs: 15 * MINUTE, key: 'ip' },
+  loginByEmail: { name: 'login-email', limit: 10, windowMs: 15 * MINUTE, key: { body: 'email' } },
+  registerByIp: { name: 'register-ip', limit: 10, windowMs: 60 * MINUTE, key: 'ip' },
+  sendCodeByIp: { name: 'send-code-ip', limit: 20, windowMs: 60 * MINUTE, key: 'ip' },
+  sendCodeByEmail: {
+    name: 'send-code-email',
+    limit: 5,
+    windowMs: 60 * MINUTE,
+    key: { body: 'email' },
+  },
+  verifyCodeByIp: { name: 'verify-code-ip', limit: 20, windowMs: 15 * MINUTE, key: 'ip' },
+  refreshByIp: { name: 'refresh-ip', limit: 60, windowMs: 15 * MINUTE, key: 'ip' },
+  unsubscribeByIp: { name: 'unsubscribe-ip', limit: 30, windowMs: 15 * MINUTE, key: 'ip' },
+  exportByUser: { name: 'export-user', limit: 3, windowMs: 24 * 60 * MINUTE, key: 'user' },
+  authenticated: { name: 'api-user', limit: 300, windowMs: MINUTE, key: 'user' },
+} satisfies Record<string, RateLimitPolicy>;
+
+const resolveIdentifier = async (c: Context, key: RateLimitKey) => {
+  if (key === 'user') {
+    // API key requests have no JWT payload, only the user loaded from the key
+    const userId = c.get('jwtPayload')?.sub ?? c.get('user')?.id;
+    if (userId) {
+      return `user:${userId}`;
+    }
+  } else if (typeof key === 'object') {
+    // The body is cached by Hono, so validators further down can still read it
+    const body = await c.req.json().catch(() => null);
+    const value = body?.[key.body];
+    if (typeof value === 'string' && value) {
+      const digest = crypto.createHash('sha256').update(value.trim().toLowerCase()).digest('hex');
+      return `${key.body}:${digest}`;
+    }
+  }
+
+  return `ip:${getClientIp(c) ?? 'unknown'}`;
+};
+
+/**
+ * Sliding window rate limiter backed by a Redis sorted set per client
+ * @param {RateLimitPolicy} policy - The limit, window and what to key the client on
+ * @returns {MiddlewareHandler} The rate limiting middleware
+ */
+const rateLimit = (policy: RateLimitPolicy) => {
+  return createMiddleware(async (c, next) => {
+    const identifier = await resolveIdentifier(c, policy.key);
+    const redisKey = `ratelimit:${policy.name}:${identifier}`;
+    const now = Date.now();
+    const member = `${now}:${crypto.randomUUID()}`;
+
+    let count: number;
+    let oldest: number;
+    try {
+      const results = await connection
+        .multi()
+        .zremrangebyscore(redisKey, 0, now - policy.windowMs)
+        .zadd(redisKey, now, member)
+        .zcard(redisKey)
+        .zrange(redisKey, 0, 0, 'WITHSCORES')
+        .pexpire(redisKey, policy.windowMs)
+        .exec();
+
+      count = Number(results?.[2]?.[1] ?? 0);
+      const [, oldestScore] = (results?.[3]?.[1] as string[] | undefined) ?? [];
+      oldest = oldestScore ? Number(oldestScore) : now;
+    } catch (error) {
+      // Fail open, an unavailable Redis should not take the API down with it
+      logger.error('Rate limiter unavailable:', error);
+      await next();
+      return;
+    }
+
+    const resetSeconds = Math.max(1, Math.ceil((oldest + policy.windowMs - now) / 1000));
+    c.header('RateLimit-Policy', `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`);
+    c.header('RateLimit-Limit', String(policy.limit));
+    c.header('RateLimit-Remaining', String(Math.max(0, policy.limit - count)));
+    c.header('RateLimit-Reset', String(resetSeconds));
+
+    if (count > policy.limit) {
+      // Rejected requests do not count against the window
+      await connection.zrem(redisKey, member).catch((error) => logger.error(error));
+      logger.warn(`Rate limit ${policy.name} exceeded by ${identifier}`);
+      return serveTooManyRequests(c, ERRORS.TOO_MANY_REQUESTS, resetSeconds);
+    }
+
+    await next();
+  });
+};
+
+export { RATE_LIMIT_POLICIES, rateLimit, type RateLimitPolicy };
@@ -1,39 +1,137 @@
 import { serveStatic } from '@hono/node-server/serve-static';
 import { swaggerUI } from '@hono/swagger-ui';
 import type { Worker } from 'bullmq';
-import { Hono } from 'hono';
-import { jwt } from 'hono/jwt';
+import { Hono, type MiddlewareHandler } from 'hono';
+import { bodyLimit } from 'hono/body-limit';
+import { StatusCodes } from 'http-status-codes';
 
+import { NODE_ENVIRONMENTS } from '../lib/constants.js';
 import env from '../lib/env.js';
 import { logger } from '../lib/logger.js';
+import { DevMailTransport, mailer } from '../lib/mail.js';
 import { connection } from '../lib/queue.js';
+import { LocalStorageDriver, storage } from '../lib/storage.js';
+import { ApiKeyRepository } from '../repository/api-key.ts';
+import { AssetRepository } from '../repository/asset.ts';
+import { AuditLogRepository } from '../repository/audit-log.ts';
 import { EmailRepository } from '../repository/email.ts';
+import { EmailCampaignRepository } from '../repository/email-campaign.ts';
+import { EmailEventRepository } from '../repository/email-event.ts';
+import { EmailSuppressionRepository } from '../repository/email-suppression.ts';
+import { FollowUpRepository } from '../repository/follow-up.ts';
+import { IdentityRepository } from '../repository/identity.ts';
+import { ImpersonationRepository } from '../repository/impersonation.ts';
 import { NotificationRepository } from '../repository/notification.ts';
+import { OneTimeCodeRepository } from '../repository/one-time-code.ts';
+import { SessionRepository } from '../repository/session.ts';
 import { UserRepository } from '../repository/user.js';
+import { AccountDeletionService } from '../service/account-deletion.ts';
+import { ApiKeyService } from '../service/api-key.ts';
+import { AssetService, MAX_ASSET_SIZE } from '../service/asset.ts';
+import { AuditService } from '../service/audit.ts';
+import { UserAudienceResolver } from '../service/campaign-audience.ts';
+import { DataExportService } from '../service/data-export.ts';
 import { EmailService } from '../service/email.ts';
-import { GoogleService } from '../service/google.js';
+import { EmailCampaignService } from '../service/email-campaign.ts';
+import { EmailChangeService } from '../service/email-change.ts';
+import { EmailEventService } from '../service/email-event.ts';
+import { EmailSuppressionService } from '../service/email-suppression.ts';
+import { FollowUpService } from '../service/follow-up.ts';
+import { ImpersonationService } from '../service/impersonation.ts';
+import { AccountLockoutService } from '../service/lockout.ts';
+import { MfaService } from '../service/mfa.ts';
 import { NotificationService } from '../service/notification.ts';
+import { OAuthService } from '../service/oauth.ts';
+import { OneTimeCodeService } from '../service/one-time-code.ts';
+import { MAX_IMAGE_SIZE, ProfileImageService } from '../service/profile-image.ts';
+import { SessionService } from '../service/session.ts';
 import { UserService } from '../service/user.js';
 import { Tasker } from '../task/tasker.js';
+import { AccountController } from './controller/account.ts';
+import { AdminController } from './controller/admin.ts';
+import { ApiKeyController } from './controller/api-key.ts';
+import { AssetController } from './controller/asset.ts';
+import { AuditController } from './controller/audit.ts';
 import { AuthController } from './controller/auth.js';
 import { EmailController } from './controller/email.ts';
-import { GoogleController } from './controller/google.js';
+import { EmailCampaignController } from './controller/email-campaign.ts';
+import { EmailSuppressionController } from './controller/email-suppression.ts';
+import { FollowUpController } from './controller/follow-up.ts';
+import { ImpersonationController } from './controller/impersonation.ts';
+import { MailOutboxController } from './controller/mail-outbox.ts';
+import { MailTemplateController } from './controller/mail-template.ts';
+import { MfaController } from './controller/mfa.ts';
 import { NotificationController } from './controller/notification.ts';
-import { ERRORS, serveInternalServerError, serveNotFound } from './controller/resp/error.js';
-import { toggleBulkEmailValidator, updateBulkEmailValidator } from './validator/email.ts';
+import { OAuthController } from './controller/oauth.ts';
+import { ProfileImageController } from './controller/profile-image.ts';
+import {
+  ERRORS,
+  serveError,
+  serveInternalServerError,
+  serveNotFound,
+} from './controller/resp/error.js';
+import { SessionController } from './controller/session.ts';
+import { StorageController } from './controller/storage.ts';
+import { WebhookController } from './controller/webhook.ts';
+import { type Auditor, auditTrail } from './middleware/audit.ts';
+import {
+  allowApiKeys,
+  authenticate,
+  authenticateApiKey,
+  forbidApiKeys,
+  forbidImpersonation,
+  requirePermission,
+  requireRole,
+} from './middleware/auth.ts';
+import { RATE_LIMIT_POLICIES, rateLimit } from './middleware/rate-limit.ts';
+import { deleteAccountValidator, restoreAccountValidator } from './validator/account.ts';
+import {
+  auditLogQueryValidator,
+  createUserValidator,
+  impersonateValidator,
+  updateUserValidator,
+  userQueryValidator,
+} from './validator/admin.ts';
+import { createApiKeyValidator } from './validator/api-key.ts';
+import {
+  createAssetValidator,
+  presignedUrlValidator,
+  renameAssetValidator,
+} from './validator/asset.ts';
+import {
+  bulkEmailValidator,
+  createBulkEmailValidator,
+  followUpConvertValidator,
+  followUpTriggerValidator,
+  suppressionValidator,
+  toggleBulkEmailValidator,
+  updateBulkEmailValidator,
+  updateFollowUpEmailValidator,
+  updateSuppressionValidator,
+} from './validator/email.ts';
 import {
   createNotificationValidator,
   updateNotificationValidator,
 } from './validator/notification.ts';
 import {
+  cancelEmailChangeValidator,
+  confirmEmailChangeValidator,
+  disableMfaValidator,
   emailVerificationValidator,
   inAppResetPasswordValidator,
   loginValidator,
+  magicLinkValidator,
+  magicLinkVerifyValidator,
+  mfaCodeValidator,
+  mfaLoginValidator,
+  refreshTokenValidator,
   registerTokenValidator,
   registrationValidator,
   requestResetPasswordValidator,
   resetPasswordValidator,
+  unlockAccountValidator,
   updateUserDetailsValidator,
+  uploadProfileImageValidator,
 } from './validator/user.js';
 
 export class Server {
@@ -56,6 +154,14 @@ export class Server {
     // API Doc
     this.app.get('/doc', swaggerUI({ url: '/static/openapi.yaml' }));
 
+    // Email previews and the dev transport's outbox, never exposed in production
+    if (env.NODE_ENV !== NODE_ENVIRONMENTS.production) {
+      this.registerMailDevRoutes(
+        new MailTemplateController(),
+        mailer instanceof DevMailTransport ? new MailOutboxController(mailer) : null,
+      );
+    }
+
     // Universal catchall
     this.app.notFound((c) => {
       return serveNotFound(c, ERRORS.NOT_FOUND);
@@ -71,101 +177,760 @@ export class Server {
     // Setup repos
     const userRepo = new UserRepository();
     const emailRepo = new EmailRepository();
+    const emailEventRepo = new EmailEventRepository();
+    const emailSuppressionRepo = new EmailSuppressionRepository();
+    const emailCampaignRepo = new EmailCampaignRepository();
+    const followUpRepo = new FollowUpRepository();
     const notificationRepo = new NotificationRepository();
+    const sessionRepo = new SessionRepository();
+    const oneTimeCodeRepo = new OneTimeCodeRepository();
+    const impersonationRepo = new ImpersonationRepository();
+    const identityRepo = new IdentityRepository();
+    const auditLogRepo = new AuditLogRepository();
+    const apiKeyRepo = new ApiKeyRepository();
+    const assetRepo = new AssetRepository();
     // Setup services
     const notificationService = new NotificationService(notificationRepo);
-
+    const sessionService = new SessionService(sessionRepo, userRepo);
+    const mfaService = new MfaService(userRepo);
+    const oneTimeCodeService = new OneTimeCodeService(oneTimeCodeRepo);
+    const lockoutService = new AccountLockoutService(userRepo, oneTimeCodeService);
+    const emailChangeService = new EmailChangeService(userRepo, oneTimeCodeService, sessionService);
+    const impersonationService = new ImpersonationService(impersonationRepo, sessionService);
+    const auditService = new AuditService(auditLogRepo);
+    const apiKeyService = new ApiKeyService(apiKeyRepo);
+    const dataExportService = new DataExportService(userRepo, notificationRepo, emailRepo);
     const userService = new UserService(userRepo);
-    const emailService = new EmailService(emailRepo);
+    const profileImageService = new ProfileImageService(userService);
+    const assetService = new AssetService(assetRepo);
+    const accountDeletionService = new AccountDeletionService(
+      userRepo,
+      oneTimeCodeService,
+      sessionService,
+      profileImageService,
+      assetService,
+    );
+
+    const emailSuppressionService = new EmailSuppressionService(emailSuppressionRepo, followUpRepo);
+    const emailService = new EmailService(emailRepo, emailSuppressionService);
+    const emailEventService = new EmailEventService(
+      emailEventRepo,
+      emailRepo,
+      emailSuppressionService,
+    );
+    const emailCampaignService = new EmailCampaignService(
+      emailCampaignRepo,
+      new UserAudienceResolver(userRepo),
+    );
+    const followUpService = new FollowUpService(
+      followUpRepo,
+      emailService,
+      emailSuppressionService,
+    );
     // Setup workers
-    this.registerWorker(userService, emailService);
+    this.registerWorker(
+      userService,
+      emailService,
+      dataExportService,
+      accountDeletionService,
+      assetService,
+      emailCampaignService,
+      followUpService,
+    );
+
+    // Setup middlewares
+    const authCheck = authenticate(sessionService, userService);
+    // Route groups that integrations can call with an API key instead of a token
+    const apiAuth = allowApiKeys(authenticateApiKey(apiKeyService, userService), authCheck);
+    const audit = auditTrail(auditService);
 
     // Setup controllers
-    const authController = new AuthController(userService, userRepo);
+    const authController = new AuthController(
+      userService,
+      userRepo,
+      sessionService,
+      oneTimeCodeService,
+      lockoutService,
+      emailChangeService,
+    );
+    const sessionController = new SessionController(sessionService);
+    const mfaController = new MfaController(
+      mfaService,
+      userService,
+      sessionService,
+      lockoutService,
+    );
+    const accountController = new AccountController(
+      userService,
+      accountDeletionService,
+      dataExportService,
+    );
+    const profileImageController = new ProfileImageController(profileImageService, userService);
 
-    const emailController = new EmailController(emailService, userService);
+    const emailController = new EmailController(emailService, emailEventService);
+    const emailSuppressionController = new EmailSuppressionController(emailSuppressionService);
+    const emailCampaignController = new EmailCampaignController(emailCampaignService);
+    const followUpController = new FollowUpController(followUpService);
+    const webhookController = new WebhookController(emailEventService);
 
-    // Add Google service and controller
-    const googleService = new GoogleService(userService);
-    const googleController = new GoogleController(googleService, userRepo);
+    // Google and any other configured sign in providers
+    const oauthService = new OAuthService(userService, identityRepo);
+    const oauthController = new OAuthController(oauthService, sessionService);
 
-    const notificationController = new NotificationController(notificationService, userService);
+    const notificationController = new NotificationController(notificationService);
+    const adminController = new AdminController(userService, sessionService, oneTimeCodeService);
+    const impersonationController = new ImpersonationController(impersonationService, userService);
+    const auditController = new AuditController(auditService);
+    const apiKeyController = new ApiKeyController(apiKeyService);
+    const assetController = new AssetController(assetService);
     // Register routes
-    this.registerUserRoutes(api, authController, googleController);
+    this.registerUserRoutes(
+      api,
+      authCheck,
+      apiAuth,
+      audit,
+      authController,
+      sessionController,
+      mfaController,
+      oauthController,
+      impersonationController,
+      apiKeyController,
+      accountController,
+      profileImageController,
+    );
+
+    this.registerEmailRoutes(
+      api,
+      apiAuth,
+      audit,
+      emailController,
+      emailSuppressionController,
+      emailCampaignController,
+      followUpController,
+    );
+    this.registerUnsubscribeRoutes(api, emailSuppressionController);
+    this.registerNotificationRoutes(api, apiAuth, audit, notificationController);
+    this.registerAssetRoutes(api, apiAuth, audit, assetController);
+    this.registerWebhookRoutes(api, webhookController);
+    // Without a bucket the API accepts the presigned uploads itself
+    if (storage instanceof LocalStorageDriver) {
+      this.registerLocalStorageRoutes(api, new StorageController(storage));
+    }
+    this.registerAdminRoutes(
+      api,
+      apiAuth,
+      audit,
+      adminController,
+      impersonationController,
+      auditController,
+    );
+  }
+
+  private registerMailDevRoutes(
+    templateCtrl: MailTemplateController,
+    outboxCtrl: MailOutboxController | null,
+  ) {
+    const mail = new Hono();
+
+    mail.get('/templates', templateCtrl.getTemplates);
+    mail.get('/templates/:name', templateCtrl.previewTemplate);
+    if (outboxCtrl) {
+      mail.get('/', outboxCtrl.getMessages);
+      mail.get('/:id', outboxCtrl.getMessage);
+      mail.delete('/', outboxCtrl.clearMessages);
+    }
 
-    this.registerEmailRoutes(api, emailController);
-    this.registerNotificationRoutes(api, notificationController);
+    this.app.route('/dev/mail', mail);
   }
 
-  private registerUserRoutes(api: Hono, authCtrl: AuthController, googleCtrl: GoogleController) {
+  private registerUserRoutes(
+    api: Hono,
+    authCheck: MiddlewareHandler,
+    apiAuth: MiddlewareHandler,
+    audit: Auditor,
+    authCtrl: AuthController,
+    sessionCtrl: SessionController,
+    mfaCtrl: MfaController,
+    oauthCtrl: OAuthController,
+    impersonationCtrl: ImpersonationController,
+    apiKeyCtrl: ApiKeyController,
+    accountCtrl: AccountController,
+    profileImageCtrl: ProfileImageController,
+  ) {
     const user = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
 
-    user.get('/me', authCheck, authCtrl.me);
-    user.post('/login', loginValidator, authCtrl.login);
-    user.post('/register', registrationValidator, authCtrl.register);
-    user.post('/send-token', emailVerificationValidator, authCtrl.sendToken);
-    user.post('/verify-registration', registerTokenValidator, authCtrl.verifyRegistrationToken);
+    // Rate limits for unauthenticated routes that can be brute-forced or send email
+    const loginLimit = [
+      rateLimit(RATE_LIMIT_POLICIES.loginByIp),
+      rateLimit(RATE_LIMIT_POLICIES.loginByEmail),
+    ];
+    const sendCodeLimit = [
+      rateLimit(RATE_LIMIT_POLICIES.sendCodeByIp),
+      rateLimit(RATE_LIMIT_POLICIES.sendCodeByEmail),
+    ];
+    const verifyCodeLimit = rateLimit(RATE_LIMIT_POLICIES.verifyCodeByIp);
+    // Changes to how the account is secured are left to its owner
+    const noImpersonation = forbidImpersonation();
+
+    user.get('/me', apiAuth, requirePermission('profile:read'), authCtrl.me);
+    user.post('/login', ...loginLimit, loginValidator, audit('auth.login', 'user'), authCtrl.login);
+    user.post(
+      '/login/magic',
+      ...sendCodeLimit,
+      magicLinkValidator,
+      audit('auth.magic_link_request'),
+      authCtrl.requestMagicLink,
+    );
+    user.post(
+      '/login/magic/verify',
+      verifyCodeLimit,
+      magicLinkVerifyValidator,
+      audit('auth.login_magic', 'user'),
+      authCtrl.verifyMagicLink,
+    );
+    user.post(
+      '/login/mfa',
+      verifyCodeLimit,
+      mfaLoginValidator,
+      audit('auth.login_mfa', 'user'),
+      mfaCtrl.verifyLogin,
+    );
+    user.post(
+      '/register',
+      rateLimit(RATE_LIMIT_POLICIES.registerByIp),
+      registrationValidator,
+      audit('auth.register', 'user'),
+      authCtrl.register,
+    );
+    user.post('/send-token', ...sendCodeLimit, emailVerificationValidator, authCtrl.sendToken);
+    user.post(
+      '/verify-registration',
+      verifyCodeLimit,
+      registerTokenValidator,
+      authCtrl.verifyRegistrationToken,
+    );
     user.post(
       '/request-reset-password',
+      ...sendCodeLimit,
       requestResetPasswordValidator,
       authCtrl.requestResetPassword,
     );
-    user.post('/reset-password', resetPasswordValidator, authCtrl.resetPassword);
+    user.post(
+      '/reset-password',
+      verifyCodeLimit,
+      resetPasswordValidator,
+      audit('auth.password_reset', 'user'),
+      authCtrl.resetPassword,
+    );
+    user.post(
+      '/unlock-account',
+      verifyCodeLimit,
+      unlockAccountValidator,
+      audit('auth.account_unlock', 'user'),
+      authCtrl.unlockAccount,
+    );
     user.post(
       '/reset-password-in-app',
       authCheck,
+      noImpersonation,
       inAppResetPasswordValidator,
+      audit('auth.password_change', 'user'),
       authCtrl.resetPasswordInApp,
     );
-    user.put('/details', authCheck, updateUserDetailsValidator, authCtrl.updateUserDetails);
+    user.put(
+      '/details',
+      authCheck,
+      noImpersonation,
+      requirePermission('profile:write'),
+      updateUserDetailsValidator,
+      audit('user.update', 'user'),
+      authCtrl.updateUserDetails,
+    );
+    user.post(
+      '/email-change/confirm',
+      authCheck,
+      noImpersonation,
+      verifyCodeLimit,
+      confirmEmailChangeValidator,
+      audit('user.email_change', 'user'),
+      authCtrl.confirmEmailChange,
+    );
+    user.post(
+      '/email-change/cancel',
+      verifyCodeLimit,
+      cancelEmailChangeValidator,
+      audit('user.email_change_cancel', 'user'),
+      authCtrl.cancelEmailChange,
+    );
+
+    // Profile picture, refused before the whole body is read when it is clearly too large
+    const imageLimit = (maxSize: number) =>
+      bodyLimit({
+        maxSize,
+        onError: (c) => serveError(c, StatusCodes.REQUEST_TOO_LONG, ERRORS.IMAGE_TOO_LARGE),
+      });
+    const canWriteProfile = requirePermission('profile:write');
+    user.post(
+      '/profile-image',
+      authCheck,
+      canWriteProfile,
+      imageLimit(MAX_IMAGE_SIZE + 64 * 1024), // room for the multipart framing
+      audit('user.profile_image', 'user'),
+      profileImageCtrl.uploadMultipart,
+    );
+    user.post(
+      '/profile-image/base64',
+      authCheck,
+      canWriteProfile,
+      imageLimit(Math.ceil((MAX_IMAGE_SIZE * 4) / 3) + 64 * 1024),
+      uploadProfileImageValidator,
+      audit('user.profile_image', 'user'),
+      profileImageCtrl.uploadBase64,
+    );
+    user.delete(
+      '/profile-image',
+      authCheck,
+      canWriteProfile,
+      audit('user.profile_image_remove', 'user'),
+      profileImageCtrl.remove,
+    );
+
+    // GDPR data export and account deletion
+    user.post(
+      '/export',
+      authCheck,
+      noImpersonation,
+      rateLimit(RATE_LIMIT_POLICIES.exportByUser),
+      audit('user.export_request', 'user'),
+      accountCtrl.requestExport,
+    );
+    user.get('/export/:token', audit('user.export_download', 'user'), accountCtrl.downloadExport);
+    user.post(
+      '/delete',
+      authCheck,
+      noImpersonation,
+      deleteAccountValidator,
+      audit('user.delete', 'user'),
+      accountCtrl.deleteAccount,
+    );
+    user.post(
+      '/delete/restore',
+      verifyCodeLimit,
+      restoreAccountValidator,
+      audit('user.restore', 'user'),
+      accountCtrl.restoreAccount,
+    );
+
+    // Session routes
+    user.post(
+      '/token/refresh',
+      rateLimit(RATE_LIMIT_POLICIES.refreshByIp),
+      refreshTokenValidator,
+      sessionCtrl.refresh,
+    );
+    user.post('/logout', authCheck, audit('auth.logout'), sessionCtrl.logout);
+    user.get('/sessions', authCheck, sessionCtrl.getSessions);
+    user.delete(
+      '/sessions/:id',
+      authCheck,
+      audit('session.revoke', 'session'),
+      sessionCtrl.revokeSession,
+    );
+
+    // Two-factor authentication routes
+    user.post('/mfa/setup', authCheck, noImpersonation, mfaCtrl.setup);
+    user.post(
+      '/mfa/enable',
+      authCheck,
+      noImpersonation,
+      mfaCodeValidator,
+      audit('mfa.enable', 'user'),
+      mfaCtrl.enable,
+    );
+    user.post(
+      '/mfa/disable',
+      authCheck,
+      noImpersonation,
+      disableMfaValidator,
+      audit('mfa.disable', 'user'),
+      mfaCtrl.disable,
+    );
+    user.post(
+      '/mfa/recovery-codes',
+      authCheck,
+      noImpersonation,
+      mfaCodeValidator,
+      audit('mfa.recovery_codes_regenerate', 'user'),
+      mfaCtrl.regenerateRecoveryCodes,
+    );
 
-    // Add Google auth routes
-    user.get('/auth/google', googleCtrl.initiateAuth);
-    user.get('/auth/google/callback', googleCtrl.handleCallback);
+    // Impersonation routes, the token belongs to the impersonated user
+    user.post(
+      '/impersonation/stop',
+      authCheck,
+      audit('impersonation.stop', 'user'),
+      impersonationCtrl.stop,
+    );
+
+    // OAuth sign in, e.g. /auth/google or /auth/github
+    user.get('/auth/:provider', oauthCtrl.initiateAuth);
+    user.get(
+      '/auth/:provider/callback',
+      audit('auth.login_oauth', 'user'),
+      oauthCtrl.handleCallback,
+    );
+    user.get('/identities', authCheck, oauthCtrl.getIdentities);
+    user.post(
+      '/identities/:provider',
+      authCheck,
+      noImpersonation,
+      audit('identity.link', 'user'),
+      oauthCtrl.linkIdentity,
+    );
+    user.delete(
+      '/identities/:provider',
+      authCheck,
+      noImpersonation,
+      audit('identity.unlink', 'user'),
+      oauthCtrl.unlinkIdentity,
+    );
+
+    // API keys are managed with a token only, a key cannot create or revoke keys
+    user.get('/api-keys', authCheck, apiKeyCtrl.getApiKeys);
+    user.post(
+      '/api-keys',
+      authCheck,
+      noImpersonation,
+      createApiKeyValidator,
+      audit('api_key.create', 'api_key'),
+      apiKeyCtrl.createApiKey,
+    );
+    user.delete(
+      '/api-keys/:id',
+      authCheck,
+      noImpersonation,
+      audit('api_key.revoke', 'api_key'),
+      apiKeyCtrl.revokeApiKey,
+    );
     api.route('/user', user);
   }
 
-  private registerEmailRoutes(api: Hono, emailCtrl: EmailController) {
+  private registerEmailRoutes(
+    api: Hono,
+    authCheck: MiddlewareHandler,
+    audit: Auditor,
+    emailCtrl: EmailController,
+    suppressionCtrl: EmailSuppressionController,
+    campaignCtrl: EmailCampaignController,
+    followUpCtrl: FollowUpController,
+  ) {
     const email = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
 
     // Apply auth middleware for authenticated routes
     email.use(authCheck);
+    email.use(rateLimit(RATE_LIMIT_POLICIES.authenticated));
+
+    const canRead = requirePermission('email:read');
+    const canWrite = requirePermission('email:write');
 
-    email.post('/toggle', toggleBulkEmailValidator, emailCtrl.toggleBulkEmail);
-    email.get('/', emailCtrl.getEmails);
-    email.get('/:id', emailCtrl.getEmail);
-    email.put('/:id', updateBulkEmailValidator, emailCtrl.updateEmail);
-    email.delete('/:id', emailCtrl.deleteEmail);
+    email.post('/toggle', canWrite, toggleBulkEmailValidator, emailCtrl.toggleBulkEmail);
+    email.get('/campaign', canRead, campaignCtrl.getCampaigns);
+    email.post(
+      '/campaign',
+      canWrite,
+      bulkEmailValidator,
+      audit('email.campaign_create', 'email_campaign'),
+      campaignCtrl.createCampaign,
+    );
+    email.get('/campaign/:id', canRead, campaignCtrl.getCampaign);
+    email.post(
+      '/campaign/:id/cancel',
+      canWrite,
+      audit('email.campaign_cancel', 'email_campaign'),
+      campaignCtrl.cancelCampaign,
+    );
+    email.get('/follow-up', canRead, followUpCtrl.getFollowUps);
+    email.post(
+      '/follow-up',
+      canWrite,
+      createBulkEmailValidator,
+      audit('email.follow_up_create', 'follow_up_email'),
+      followUpCtrl.createFollowUp,
+    );
+    email.post(
+      '/follow-up/trigger',
+      canWrite,
+      followUpTriggerValidator,
+      followUpCtrl.triggerFollowUps,
+    );
+    email.post(
+      '/follow-up/convert',
+      canWrite,
+      followUpConvertValidator,
+      followUpCtrl.convertRecipient,
+    );
+    email.put(
+      '/follow-up/:id',
+      canWrite,
+      updateFollowUpEmailValidator,
+      audit('email.follow_up_update', 'follow_up_email'),
+      followUpCtrl.updateFollowUp,
+    );
+    email.delete(
+      '/follow-up/:id',
+      canWrite,
+      audit('email.follow_up_delete', 'follow_up_email'),
+      followUpCtrl.deleteFollowUp,
+    );
+    email.get('/suppression', canRead, suppressionCtrl.getSuppressions);
+    email.post(
+      '/suppression',
+      canWrite,
+      suppressionValidator,
+      audit('email.suppression_add', 'email_suppression'),
+      suppressionCtrl.addSuppression,
+    );
+    email.put(
+      '/suppression/:id',
+      canWrite,
+      updateSuppressionValidator,
+      audit('email.suppression_update', 'email_suppression'),
+      suppressionCtrl.updateSuppression,
+    );
+    email.delete(
+      '/suppression/:id',
+      canWrite,
+      audit('email.suppression_remove', 'email_suppression'),
+      suppressionCtrl.deleteSuppression,
+    );
+    email.get('/', canRead, emailCtrl.getEmails);
+    email.get('/:id', canRead, emailCtrl.getEmail);
+    email.put(
+      '/:id',
+      canWrite,
+      updateBulkEmailValidator,
+      audit('email.update', 'email'),
+      emailCtrl.updateEmail,
+    );
+    email.delete('/:id', canWrite, audit('email.delete', 'email'), emailCtrl.deleteEmail);
+    email.post('/:id/resend', canWrite, audit('email.resend', 'email'), emailCtrl.resendEmail);
 
     api.route('/email', email);
   }
 
-  private registerNotificationRoutes(api: Hono, notificationCtrl: NotificationController) {
+  private registerNotificationRoutes(
+    api: Hono,
+    authCheck: MiddlewareHandler,
+    audit: Auditor,
+    notificationCtrl: NotificationController,
+  ) {
     const notification = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
 
     // Apply auth middleware for all notification routes
     notification.use(authCheck);
+    notification.use(rateLimit(RATE_LIMIT_POLICIES.authenticated));
+
+    const canRead = requirePermission('notification:read');
+    const canWrite = requirePermission('notification:write');
 
     // Notification routes
-    notification.post('/', createNotificationValidator, notificationCtrl.createNotification);
-    notification.get('/my', notificationCtrl.getMyNotifications);
-    notification.get('/my/unread', notificationCtrl.getMyUnreadNotifications);
-    notification.get('/unread-count', notificationCtrl.getUnreadCount);
-    notification.get('/:id', notificationCtrl.getNotification);
-    notification.put('/:id', updateNotificationValidator, notificationCtrl.updateNotification);
-    notification.post('/:id/read', notificationCtrl.markAsRead);
-    notification.post('/mark-all-read', notificationCtrl.markAllAsRead);
-    notification.delete('/:id', notificationCtrl.deleteNotification);
-    notification.delete('/all', notificationCtrl.deleteAllNotifications);
+    notification.post(
+      '/',
+      canWrite,
+      createNotificationValidator,
+      notificationCtrl.createNotification,
+    );
+    notification.get('/my', canRead, notificationCtrl.getMyNotifications);
+    notification.get('/my/unread', canRead, notificationCtrl.getMyUnreadNotifications);
+    notification.get('/unread-count', canRead, notificationCtrl.getUnreadCount);
+    notification.get('/:id', canRead, notificationCtrl.getNotification);
+    notification.put(
+      '/:id',
+      canWrite,
+      updateNotificationValidator,
+      notificationCtrl.updateNotification,
+    );
+    notification.post('/:id/read', canWrite, notificationCtrl.markAsRead);
+    notification.post('/mark-all-read', canWrite, notificationCtrl.markAllAsRead);
+    notification.delete(
+      '/:id',
+      canWrite,
+      audit('notification.delete', 'notification'),
+      notificationCtrl.deleteNotification,
+    );
+    notification.delete(
+      '/all',
+      canWrite,
+      audit('notification.delete_all', 'notification'),
+      notificationCtrl.deleteAllNotifications,
+    );
 
     api.route('/notification', notification);
   }
 
-  private registerWorker(userService: UserService, emailService: EmailService) {
-    const tasker = new Tasker(userService, emailService);
+  private registerAssetRoutes(
+    api: Hono,
+    authCheck: MiddlewareHandler,
+    audit: Auditor,
+    assetCtrl: AssetController,
+  ) {
+    const asset = new Hono();
+
+    // Apply auth middleware for all asset routes
+    asset.use(authCheck);
+    asset.use(rateLimit(RATE_LIMIT_POLICIES.authenticated));
+
+    const canRead = requirePermission('asset:read');
+    const canWrite = requirePermission('asset:write');
+
+    asset.get('/', canRead, assetCtrl.getAssets);
+    asset.post(
+      '/',
+      canWrite,
+      createAssetValidator,
+      audit('asset.create', 'asset'),
+      assetCtrl.createAsset,
+    );
+    asset.get('/:id', canRead, assetCtrl.getAsset);
+    asset.put(
+      '/:id/rename',
+      canWrite,
+      renameAssetValidator,
+      audit('asset.rename', 'asset'),
+      assetCtrl.renameAsset,
+    );
+    asset.delete('/:id', canWrite, audit('asset.delete', 'asset'), assetCtrl.deleteAsset);
+
+    api.route('/asset', asset);
+    api.post(
+      '/s3/presigned-url',
+      authCheck,
+      rateLimit(RATE_LIMIT_POLICIES.authenticated),
+      canWrite,
+      presignedUrlValidator,
+      assetCtrl.createPresignedUrl,
+    );
+  }
+
+  private registerWebhookRoutes(api: Hono, webhookCtrl: WebhookController) {
+    // Providers authenticate with a shared secret or signature, checked by the controller
+    api.post(
+      '/webhooks/mail/:provider',
+      bodyLimit({ maxSize: 1024 * 1024 }),
+      webhookCtrl.receiveMailEvents,
+    );
+  }
+
+  private registerUnsubscribeRoutes(api: Hono, suppressionCtrl: EmailSuppressionController) {
+    // Public, the signed token in the link says who is unsubscribing from whom
+    const unsubscribe = new Hono();
+
+    unsubscribe.use(rateLimit(RATE_LIMIT_POLICIES.unsubscribeByIp));
+    unsubscribe.get('/:token', suppressionCtrl.showUnsubscribe);
+    unsubscribe.post('/:token', suppressionCtrl.unsubscribe);
+
+    api.route('/unsubscribe', unsubscribe);
+  }
+
+  private registerLocalStorageRoutes(api: Hono, storageCtrl: StorageController) {
+    // The signature in the form or query stands in for authentication, as with S3
+    api.post(
+      '/storage/local',
+      bodyLimit({
+        maxSize: MAX_ASSET_SIZE + 64 * 1024, // room for the other form fields
+        onError: (c) => serveError(c, StatusCodes.REQUEST_TOO_LONG, ERRORS.ASSET_TOO_LARGE),
+      }),
+      storageCtrl.upload,
+    );
+    api.get('/storage/local', storageCtrl.download);
+    api.get('/storage/local/public/:key{.+}', storageCtrl.serve);
+  }
+
+  private registerAdminRoutes(
+    api: Hono,
+    authCheck: MiddlewareHandler,
+    audit: Auditor,
+    adminCtrl: AdminController,
+    impersonationCtrl: ImpersonationController,
+    auditCtrl: AuditController,
+  ) {
+    const admin = new Hono();
+
+    // Support staff can look users up, only admins can change them. Keys with the admin
+    // scopes can be used too
+    admin.use(authCheck);
+    admin.use(rateLimit(RATE_LIMIT_POLICIES.authenticated));
+    admin.use(requirePermission('user:read'));
+    const canWrite = requirePermission('user:write');
+    const canBan = requirePermission('user:ban');
+
+    admin.get('/users', userQueryValidator, adminCtrl.getUsers);
+    admin.post(
+      '/user',
+      canWrite,
+      createUserValidator,
+      audit('admin.user_create', 'user'),
+      adminCtrl.createUser,
+    );
+    admin.get('/user/:id', adminCtrl.getUser);
+    admin.put(
+      '/user/:id',
+      canWrite,
+      updateUserValidator,
+      audit('admin.user_update', 'user'),
+      adminCtrl.updateUser,
+    );
+    admin.delete('/user/:id', canWrite, audit('admin.user_delete', 'user'), adminCtrl.deleteUser);
+    admin.post(
+      '/user/:id/restore',
+      canWrite,
+      audit('admin.user_restore', 'user'),
+      adminCtrl.restoreUser,
+    );
+    admin.post('/user/:id/ban', canBan, audit('admin.user_ban', 'user'), adminCtrl.banUser);
+    admin.post('/user/:id/unban', canBan, audit('admin.user_unban', 'user'), adminCtrl.unbanUser);
+    admin.post(
+      '/user/:id/force-password-reset',
+      canWrite,
+      audit('admin.user_force_password_reset', 'user'),
+      adminCtrl.forcePasswordReset,
+    );
+    admin.post(
+      '/user/:id/impersonate',
+      // Would hand a key a session for any account
+      forbidApiKeys(),
+      requireRole('admin'),
+      impersonateValidator,
+      audit('impersonation.start', 'user'),
+      impersonationCtrl.start,
+    );
+
+    // Audit trail
+    const canReadAudit = requirePermission('audit:read');
+    admin.get('/audit-logs', canReadAudit, auditLogQueryValidator, auditCtrl.getLogs);
+    admin.get('/audit-logs/export', canReadAudit, auditLogQueryValidator, auditCtrl.exportLogs);
+
+    api.route('/admin', admin);
+  }
+
+  private registerWorker(
+    userService: UserService,
+    emailService: EmailService,
+    dataExportService: DataExportService,
+    accountDeletionService: AccountDeletionService,
+    assetService: AssetService,
+    campaignService: EmailCampaignService,
+    followUpService: FollowUpService,
+  ) {
+    const tasker = new Tasker(
+      userService,
+      emailService,
+      dataExportService,
+      accountDeletionService,
+      assetService,
+      campaignService,
+      followUpService,
+    );
     const worker = tasker.setup();
     if (worker.isRunning()) {
       logger.info('Worker is running');
@@ -0,0 +1,32 @@
+import { validator } from 'hono/validator';
+import { z } from 'zod';
+
+import { validateSchema } from './validator.js';
+
+const deleteAccountSchema = z.object({
+  // Required for accounts that sign in with a password
+  password: z.string().min(8).max(20).optional(),
+});
+
+const deleteAccountValidator = validator('json', (value, c) => {
+  return validateSchema(c, deleteAccountSchema, value);
+});
+
+const restoreAccountSchema = z.object({
+  email: z.string().email(),
+  token: z.string().min(32).max(64),
+});
+
+const restoreAccountValidator = validator('json', (value, c) => {
+  return validateSchema(c, restoreAccountSchema, value);
+});
+
+type DeleteAccountBody = z.infer<typeof deleteAccountSchema>;
+type RestoreAccountBody = z.infer<typeof restoreAccountSchema>;
+
+export {
+  type DeleteAccountBody,
+  deleteAccountValidator,
+  type RestoreAccountBody,
+  restoreAccountValidator,
+};
@@ -0,0 +1,88 @@
+import { validator } from 'hono/validator';
+import { z } from 'zod';
+
+import { validateSchema } from './validator.js';
+
+const roles = ['user', 'role', 'admin'] as const;
+const flag = z.enum(['true', 'false']);
+
+const userQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().positive().max(100).optional(),
+  search: z.string().max(100).optional(),
+  role: z.enum(roles).optional(),
+  is_verified: flag.optional(),
+  is_banned: flag.optional(),
+  is_deleted: flag.optional(),
+  auth_provider: z.enum(['local', 'google', 'oauth']).optional(),
+});
+
+const userQueryValidator = validator('query', (value, c) => {
+  return validateSchema(c, userQuerySchema, value);
+});
+
+const createUserSchema = z.object({
+  name: z.string().min(2).max(40),
+  email: z.string().email(),
+  password: z.string().min(8).max(20),
+  role: z.enum(roles).default('user'),
+  dial_code: z.string().optional(),
+  phone: z.string().optional(),
+  is_verified: z.boolean().optional(),
+});
+
+const createUserValidator = validator('json', (value, c) => {
+  return validateSchema(c, createUserSchema, value);
+});
+
+const updateUserSchema = z.object({
+  name: z.string().min(2).max(40).optional(),
+  email: z.string().email().optional(),
+  dial_code: z.string().optional(),
+  phone: z.string().optional(),
+  bio: z.string().max(255).optional(),
+  role: z.enum(roles).optional(),
+  is_verified: z.boolean().optional(),
+});
+
+const updateUserValidator = validator('json', (value, c) => {
+  return validateSchema(c, updateUserSchema, value);
+});
+
+const impersonateSchema = z.object({
+  reason: z.string().min(3).max(255),
+});
+
+const impersonateValidator = validator('json', (value, c) => {
+  return validateSchema(c, impersonateSchema, value);
+});
+
+const auditLogQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().positive().max(100).optional(),
+  actor_id: z.coerce.number().int().positive().optional(),
+  action: z.string().max(100).optional(),
+  entity_type: z.string().max(50).optional(),
+  entity_id: z.string().max(64).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+});
+
+const auditLogQueryValidator = validator('query', (value, c) => {
+  return validateSchema(c, auditLogQuerySchema, value);
+});
+
+type CreateUserBody = z.infer<typeof createUserSchema>;
+type UpdateUserBody = z.infer<typeof updateUserSchema>;
+type ImpersonateBody = z.infer<typeof impersonateSchema>;
+
+export {
+  auditLogQueryValidator,
+  type CreateUserBody,
+  createUserValidator,
+  type ImpersonateBody,
+  impersonateValidator,
+  type UpdateUserBody,
+  updateUserValidator,
+  userQueryValidator,
+};
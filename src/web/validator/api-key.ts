@@ -0,0 +1,22 @@
+import { validator } from 'hono/validator';
+import { z } from 'zod';
+
+import { PERMISSIONS } from '../../lib/permissions.js';
+import { validateSchema } from './validator.js';
+
+const createApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(PERMISSIONS)).min(1),
+  expires_at: z.coerce
+    .date()
+    .refine((date) => date.getTime() > Date.now(), 'Expiry must be in the future')
+    .optional(),
+});
+
+const createApiKeyValidator = validator('json', (value, c) => {
+  return validateSchema(c, createApiKeySchema, value);
+});
+
+type CreateApiKeyBody = z.infer<typeof createApiKeySchema>;
+
+export { type CreateApiKeyBody, createApiKeyValidator };
@@ -0,0 +1,54 @@
+import { validator } from 'hono/validator';
+import { z } from 'zod';
+
+import { validateSchema } from './validator.js';
+
+const ASSET_TYPES = ['profile_picture', 'image', 'video', 'audio', 'document'] as const;
+
+const presignedUrlSchema = z.object({
+  // The extension becomes part of the storage key
+  fileName: z
+    .string()
+    .min(1)
+    .max(255)
+    .regex(/\.[a-z0-9]{1,10}$/i, 'File name must have an extension'),
+  contentType: z.string().min(1).max(100),
+  size: z.number().int().positive(),
+  assetType: z.enum(ASSET_TYPES),
+  duration: z.number().int().nonnegative().optional(),
+});
+
+const presignedUrlValidator = validator('json', (value, c) => {
+  return validateSchema(c, presignedUrlSchema, value);
+});
+
+const createAssetSchema = z.object({
+  asset_id: z.number().int().positive(),
+  name: z.string().min(1).max(255).optional(),
+  duration: z.number().int().nonnegative().optional(),
+});
+
+const createAssetValidator = validator('json', (value, c) => {
+  return validateSchema(c, createAssetSchema, value);
+});
+
+const renameAssetSchema = z.object({
+  name: z.string().min(1).max(255),
+});
+
+const renameAssetValidator = validator('json', (value, c) => {
+  return validateSchema(c, renameAssetSchema, value);
+});
+
+type PresignedUrlBody = z.infer<typeof presignedUrlSchema>;
+type CreateAssetBody = z.infer<typeof createAssetSchema>;
+type RenameAssetBody = z.infer<typeof renameAssetSchema>;
+
+export {
+  type CreateAssetBody,
+  createAssetValidator,
+  type PresignedUrlBody,
+  presignedUrlValidator,
+  type RenameAssetBody,
+  renameAssetValidator,
+};
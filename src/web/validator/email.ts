@@ -3,6 +3,9 @@ import { z } from 'zod';
 
 import { validateSchema } from './validator.js';
 
+// Recipients picked one by one for a campaign
+const MAX_CAMPAIGN_RECIPIENTS = 1000;
+
 const bulkEmailSchema = z.object({
   subject: z.string().min(1).max(255),
   title: z.string().min(1).max(255),
@@ -12,7 +15,7 @@ const bulkEmailSchema = z.object({
   button_link: z.string().url().max(255),
   type: z.enum(['event', 'tag', 'name']),
   filterType: z.enum(['everyone', 'attended', 'notAttended']),
-  recipients: z.array(z.number()),
+  recipients: z.array(z.number()).max(MAX_CAMPAIGN_RECIPIENTS),
   selectedMembership: z.number().optional(),
 });
 
@@ -39,26 +42,47 @@ const updatebulkEmailSchema = z.object({
   button_link: z.string().url().max(255).optional(),
 });
 
+const followUpTrigger = z.enum(['new_lead', 'call_back', 'registered_for_event', 'attended_event']);
+
 const createBulkEmailSchema = z.object({
   title: z.string().min(1).max(255),
   content: z.string().min(1),
-  follow_up_who_gets_it: z.array(
-    z.enum(['new_lead', 'call_back', 'registered_for_event', 'attended_event']),
-  ),
-  timeline: z.number(),
-  user_id: z.number(),
+  follow_up_who_gets_it: z.array(followUpTrigger).min(1),
+  // Days after the trigger the email is sent
+  timeline: z.number().int().min(0),
+  // Ignored, follow-ups always belong to the signed in user
+  user_id: z.number().optional(),
 });
 
 const updateFollowUpEmailSchema = z.object({
   title: z.string().min(1).max(255).optional(),
   content: z.string().min(1).optional(),
-  follow_up_who_gets_it: z
-    .array(z.enum(['new_lead', 'call_back', 'registered_for_event', 'attended_event']))
-    .optional(),
-  timeline: z.number().optional(),
+  follow_up_who_gets_it: z.array(followUpTrigger).min(1).optional(),
+  timeline: z.number().int().min(0).optional(),
   enabled: z.boolean().optional(),
 });
 
+const followUpTriggerSchema = z.object({
+  trigger: followUpTrigger,
+  email: z.string().email().max(255),
+  name: z.string().max(255).optional(),
+});
+
+const followUpConvertSchema = z.object({
+  email: z.string().email().max(255),
+});
+
+const suppressionSchema = z.object({
+  email: z.string().email().max(255),
+  scope: z.enum(['all', 'marketing']).default('all'),
+  note: z.string().max(255).optional(),
+});
+
+const updateSuppressionSchema = z.object({
+  scope: z.enum(['all', 'marketing']).optional(),
+  note: z.string().max(255).nullable().optional(),
+});
+
 const createBulkEmailValidator = validator('json', (value, c) => {
   return validateSchema(c, createBulkEmailSchema, value);
 });
@@ -67,21 +91,47 @@ const updateFollowUpEmailValidator = validator('json', (value, c) => {
   return validateSchema(c, updateFollowUpEmailSchema, value);
 });
 
+const followUpTriggerValidator = validator('json', (value, c) => {
+  return validateSchema(c, followUpTriggerSchema, value);
+});
+
+const followUpConvertValidator = validator('json', (value, c) => {
+  return validateSchema(c, followUpConvertSchema, value);
+});
+
 const updateBulkEmailValidator = validator('json', (value, c) => {
   return validateSchema(c, updatebulkEmailSchema, value);
 });
 
+const suppressionValidator = validator('json', (value, c) => {
+  return validateSchema(c, suppressionSchema, value);
+});
+
+const updateSuppressionValidator = validator('json', (value, c) => {
+  return validateSchema(c, updateSuppressionSchema, value);
+});
+
 type BulkEmailBody = z.infer<typeof bulkEmailSchema>;
 type ToggleBulkEmailBody = z.infer<typeof toggleBulkEmailSchema>;
 type UpdateBulkEmailBody = z.infer<typeof updatebulkEmailSchema>;
 type CreateBulkEmailBody = z.infer<typeof createBulkEmailSchema>;
 type UpdateFollowUpEmailBody = z.infer<typeof updateFollowUpEmailSchema>;
+type FollowUpTriggerBody = z.infer<typeof followUpTriggerSchema>;
+type FollowUpConvertBody = z.infer<typeof followUpConvertSchema>;
+type SuppressionBody = z.infer<typeof suppressionSchema>;
+type UpdateSuppressionBody = z.infer<typeof updateSuppressionSchema>;
 
 export {
   type BulkEmailBody,
   bulkEmailValidator,
   type CreateBulkEmailBody,
   createBulkEmailValidator,
+  type FollowUpConvertBody,
+  followUpConvertValidator,
+  type FollowUpTriggerBody,
+  followUpTriggerValidator,
+  type SuppressionBody,
+  suppressionValidator,
   type ToggleBulkEmailBody,
   toggleBulkEmailSchema,
   toggleBulkEmailValidator,
@@ -89,4 +139,6 @@ export {
   updateBulkEmailValidator,
   type UpdateFollowUpEmailBody,
   updateFollowUpEmailValidator,
+  type UpdateSuppressionBody,
+  updateSuppressionValidator,
 };
@@ -19,7 +19,8 @@ const registrationSchema = loginSchema.extend({
 });
 
 const uploadProfileImageSchema = z.object({
-  imageBase64: z.string().nullable().optional(),
+  // Plain base64 or a data URL, the type is read from the content itself
+  imageBase64: z.string().min(1),
   fileName: z.string().nullable().optional(),
 });
 
@@ -83,6 +84,83 @@ const updateUserDetailsValidator = validator('json', (value, c) => {
   return validateSchema(c, updateUserDetailsSchema, value);
 });
 
+const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const refreshTokenValidator = validator('json', (value, c) => {
+  return validateSchema(c, refreshTokenSchema, value);
+});
+
+const mfaCodeSchema = z.object({
+  code: z.string().min(6).max(20),
+});
+
+const mfaCodeValidator = validator('json', (value, c) => {
+  return validateSchema(c, mfaCodeSchema, value);
+});
+
+const mfaLoginSchema = mfaCodeSchema.extend({
+  mfaToken: z.string().min(1),
+});
+
+const mfaLoginValidator = validator('json', (value, c) => {
+  return validateSchema(c, mfaLoginSchema, value);
+});
+
+const disableMfaSchema = mfaCodeSchema.extend({
+  password: z.string().min(8).max(20),
+});
+
+const disableMfaValidator = validator('json', (value, c) => {
+  return validateSchema(c, disableMfaSchema, value);
+});
+
+const magicLinkSchema = z.object({
+  email: z.string().email(),
+  bind_browser: z.boolean().optional(),
+});
+
+const magicLinkValidator = validator('json', (value, c) => {
+  return validateSchema(c, magicLinkSchema, value);
+});
+
+const magicLinkVerifySchema = z.object({
+  email: z.string().email(),
+  token: z.string().min(32).max(64),
+  bound: z.boolean().optional(),
+});
+
+const magicLinkVerifyValidator = validator('json', (value, c) => {
+  return validateSchema(c, magicLinkVerifySchema, value);
+});
+
+const unlockAccountSchema = z.object({
+  email: z.string().email(),
+  token: z.string().min(6).max(6),
+});
+
+const unlockAccountValidator = validator('json', (value, c) => {
+  return validateSchema(c, unlockAccountSchema, value);
+});
+
+const confirmEmailChangeSchema = z.object({
+  code: z.string().min(6).max(6),
+});
+
+const confirmEmailChangeValidator = validator('json', (value, c) => {
+  return validateSchema(c, confirmEmailChangeSchema, value);
+});
+
+const cancelEmailChangeSchema = z.object({
+  email: z.string().email(),
+  token: z.string().min(32).max(64),
+});
+
+const cancelEmailChangeValidator = validator('json', (value, c) => {
+  return validateSchema(c, cancelEmailChangeSchema, value);
+});
+
 const uploadProfileImageValidator = validator('json', (value, c) => {
   return validateSchema(c, uploadProfileImageSchema, value);
 });
@@ -95,16 +173,41 @@ type RequestResetPasswordBody = z.infer<typeof requestResetPasswordSchema>;
 type ResetPasswordBody = z.infer<typeof resetPasswordSchema>;
 type InAppResetPasswordBody = z.infer<typeof inAppResetPasswordSchema>;
 
+type MagicLinkBody = z.infer<typeof magicLinkSchema>;
+type MagicLinkVerifyBody = z.infer<typeof magicLinkVerifySchema>;
+type MfaCodeBody = z.infer<typeof mfaCodeSchema>;
+type MfaLoginBody = z.infer<typeof mfaLoginSchema>;
+type DisableMfaBody = z.infer<typeof disableMfaSchema>;
+type RefreshTokenBody = z.infer<typeof refreshTokenSchema>;
+type ConfirmEmailChangeBody = z.infer<typeof confirmEmailChangeSchema>;
+type CancelEmailChangeBody = z.infer<typeof cancelEmailChangeSchema>;
+type UnlockAccountBody = z.infer<typeof unlockAccountSchema>;
 type UpdateUserDetailsBody = z.infer<typeof updateUserDetailsSchema>;
 type UploadProfileImageBody = z.infer<typeof uploadProfileImageSchema>;
 
 export {
+  type CancelEmailChangeBody,
+  cancelEmailChangeValidator,
+  type ConfirmEmailChangeBody,
+  confirmEmailChangeValidator,
+  type DisableMfaBody,
+  disableMfaValidator,
   type EmailVerificationBody,
   emailVerificationValidator,
   type InAppResetPasswordBody,
   inAppResetPasswordValidator,
   type LoginBody,
   loginValidator,
+  type MagicLinkBody,
+  magicLinkValidator,
+  type MagicLinkVerifyBody,
+  magicLinkVerifyValidator,
+  type MfaCodeBody,
+  mfaCodeValidator,
+  type MfaLoginBody,
+  mfaLoginValidator,
+  type RefreshTokenBody,
+  refreshTokenValidator,
   type RegisterTokenBody,
   registerTokenValidator,
   type RegistrationBody,
@@ -113,6 +216,8 @@ export {
   requestResetPasswordValidator,
   type ResetPasswordBody,
   resetPasswordValidator,
+  type UnlockAccountBody,
+  unlockAccountValidator,
   type UpdateUserDetailsBody,
   updateUserDetailsValidator,
   type UploadProfileImageBody,